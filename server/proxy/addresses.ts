@@ -0,0 +1,109 @@
+/**
+ * Target address checks for the proxy
+ *
+ * The proxy fetches whatever URL it is given, so without a check any page
+ * could use it to reach the machine it runs on, the local network or a
+ * cloud metadata endpoint. Targets are refused when any of their
+ * addresses is loopback, private, link-local or otherwise not publicly
+ * routable. Hostnames are checked as the connection is made, against the
+ * addresses it then connects to, so a name that resolves to a public
+ * address for a check and a private one for the request gets nowhere.
+ */
+
+import { lookup, type LookupAddress, type LookupOptions } from 'node:dns'
+import { BlockList, isIP, isIPv4, type LookupFunction } from 'node:net'
+import { Agent } from 'undici'
+
+const PRIVATE_ADDRESSES = new BlockList()
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or
+ * otherwise not publicly routable. IPv4-mapped IPv6 addresses are checked
+ * as the IPv4 address they carry.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1]
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, 'ipv4')
+
+  return PRIVATE_ADDRESSES.check(address, isIPv4(address) ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Raised when a connection would be made to a private address
+ */
+export class PrivateAddressError extends Error {
+  constructor(readonly hostname: string) {
+    super(`${hostname} is on a private network and is not proxied`)
+    this.name = 'PrivateAddressError'
+  }
+}
+
+/**
+ * Check whether a URL hostname is a private IP address literal. Sockets
+ * connect to literals without a lookup, so they are checked up front.
+ */
+export function isPrivateAddressLiteral(hostname: string): boolean {
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = hostname.replace(/^\[(.*)\]$/, '$1')
+  return isIP(host) !== 0 && isPrivateAddress(host)
+}
+
+/**
+ * DNS lookup for sockets that fails with a PrivateAddressError when any
+ * address the hostname resolves to is private
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options: LookupOptions, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new PrivateAddressError(hostname), '')
+      return
+    }
+
+    const [first] = addresses
+    if (options.all) {
+      callback(null, addresses)
+    } else if (first) {
+      callback(null, first.address, first.family)
+    } else {
+      callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }), '')
+    }
+  })
+}
+
+/**
+ * Create a fetch dispatcher that only connects to public addresses
+ */
+export function createPublicAgent(): Agent {
+  return new Agent({ connect: { lookup: lookupPublicAddress } })
+}
@@ -0,0 +1,297 @@
+/**
+ * Rewriting proxy tests
+ *
+ * Runs the proxy middleware on a local server in front of a fixture site
+ * and checks what reaches the emulator.
+ */
+
+import { createServer, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { DEFAULT_USER_AGENT_ID, getUserAgentProfile } from '../../src/config/browser'
+import { getProxyOriginPath, toProxyUrl, type ProxyRoute } from '../../src/utils/proxy'
+import { createProxyMiddleware, type ProxyOptions } from './handler'
+
+const ROUTE: ProxyRoute = { profile: 'default', network: 'none' }
+
+const PAGE = `<!doctype html>
+<html>
+<head>
+  <link rel="stylesheet" href="style.css">
+  <style>body { background: url('/images/bg.png') }</style>
+</head>
+<body>
+  <a href="/about?tab=1">About</a>
+  <img src="https://cdn.example.com/logo.png" srcset="/logo.png 1x, /logo@2x.png 2x">
+  <a href="#top">Top</a>
+  <a href="mailto:someone@example.com">Mail</a>
+</body>
+</html>`
+
+const STYLESHEET = `@import 'print.css';
+body { background: url("/images/bg.png"); }
+.icon { background: url(data:image/png;base64,AAAA); }`
+
+function send(res: ServerResponse, status: number, headers: Record<string, string | string[]>, body = ''): void {
+  res.writeHead(status, headers)
+  res.end(body)
+}
+
+/**
+ * The site being proxied
+ */
+const fixture = createServer((req, res) => {
+  switch (req.url) {
+    case '/page.html':
+      send(res, 200, {
+        'content-type': 'text/html; charset=utf-8',
+        'x-frame-options': 'DENY',
+        'content-security-policy': "default-src 'self'; frame-ancestors 'none'"
+      }, PAGE)
+      return
+    case '/style.css':
+      send(res, 200, { 'content-type': 'text/css' }, STYLESHEET)
+      return
+    case '/framed.html':
+      send(res, 200, {
+        'content-type': 'text/html',
+        'content-security-policy': "frame-ancestors 'self'"
+      }, '<p>Framed</p>')
+      return
+    case '/login':
+      send(res, 200, {
+        'content-type': 'text/plain',
+        'set-cookie': [
+          'session=abc; Path=/account; Domain=example.com; Secure; HttpOnly; SameSite=None',
+          'theme=dark; SameSite=Lax'
+        ]
+      }, 'ok')
+      return
+    case '/echo':
+      send(res, 200, { 'content-type': 'application/json' }, JSON.stringify({
+        cookie: req.headers.cookie ?? null,
+        userAgent: req.headers['user-agent'] ?? null
+      }))
+      return
+    case '/old':
+      send(res, 301, { location: '/new?from=old' })
+      return
+    case '/elsewhere':
+      send(res, 302, { location: 'https://other.example.org/landing' })
+      return
+    case '/latin1.html':
+      res.writeHead(200, { 'content-type': 'text/html; charset=iso-8859-1' })
+      res.end(Buffer.from('<p>Café crème</p>', 'latin1'))
+      return
+    case '/meta-charset.html':
+      res.writeHead(200, { 'content-type': 'text/html' })
+      // 0x80 is the euro sign in windows-1252
+      res.end(Buffer.concat([
+        Buffer.from('<head><meta charset="windows-1252"></head><p>'),
+        Buffer.from([0x80]),
+        Buffer.from(' 5, naïve</p>', 'latin1')
+      ]))
+      return
+    case '/latin1.css':
+      res.writeHead(200, { 'content-type': 'text/css' })
+      res.end(Buffer.from('@charset "iso-8859-1"; .price::before { content: "£"; }', 'latin1'))
+      return
+    default:
+      send(res, 404, { 'content-type': 'text/plain' }, 'Not found')
+  }
+})
+
+const servers: Server[] = []
+let origin = ''
+
+function listen(server: Server): Promise<string> {
+  servers.push(server)
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+    })
+  })
+}
+
+/**
+ * Start the proxy in front of the fixture site
+ */
+async function startProxy(options: ProxyOptions = {}): Promise<string> {
+  const middleware = createProxyMiddleware({ allowPrivateNetworks: true, ...options })
+  return listen(createServer((req, res) => middleware(req, res)))
+}
+
+let proxy = ''
+
+function request(path: string, route: ProxyRoute = ROUTE, base = proxy): Promise<Response> {
+  return fetch(base + toProxyUrl(origin + path, route), { redirect: 'manual' })
+}
+
+beforeAll(async () => {
+  origin = await listen(fixture)
+  proxy = await startProxy()
+})
+
+afterAll(async () => {
+  await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))))
+})
+
+describe('HTML', () => {
+  it('rewrites links, images and inline styles onto the proxy', async () => {
+    const html = await (await request('/page.html')).text()
+    const proxied = (url: string) => toProxyUrl(url, ROUTE)
+
+    expect(html).toContain(`href="${proxied(`${origin}/style.css`)}"`)
+    expect(html).toContain(`href="${proxied(`${origin}/about?tab=1`)}"`)
+    expect(html).toContain(`src="${proxied('https://cdn.example.com/logo.png')}"`)
+    expect(html).toContain(`${proxied(`${origin}/logo.png`)} 1x, ${proxied(`${origin}/logo@2x.png`)} 2x`)
+    expect(html).toContain(`url('${proxied(`${origin}/images/bg.png`)}')`)
+  })
+
+  it('leaves fragments and non-HTTP links alone', async () => {
+    const html = await (await request('/page.html')).text()
+
+    expect(html).toContain('href="#top"')
+    expect(html).toContain('href="mailto:someone@example.com"')
+  })
+
+  it('inserts the navigator shim at the start of the head', async () => {
+    const html = await (await request('/page.html')).text()
+
+    expect(html).toMatch(/<head><script>/)
+  })
+})
+
+describe('CSS', () => {
+  it('rewrites url() references and @import rules', async () => {
+    const css = await (await request('/style.css')).text()
+
+    expect(css).toContain(`@import '${toProxyUrl(`${origin}/print.css`, ROUTE)}'`)
+    expect(css).toContain(`url("${toProxyUrl(`${origin}/images/bg.png`, ROUTE)}")`)
+    expect(css).toContain('url(data:image/png;base64,AAAA)')
+  })
+})
+
+describe('framing headers', () => {
+  it('drops X-Frame-Options and frame-ancestors, keeping the rest of the policy', async () => {
+    const response = await request('/page.html')
+    const policy = response.headers.get('content-security-policy') ?? ''
+
+    expect(response.headers.get('x-frame-options')).toBeNull()
+    expect(policy).not.toContain('frame-ancestors')
+    expect(policy).toMatch(/^default-src 'self' 'sha256-[\w+/=]+'$/)
+  })
+
+  it('drops a policy that only restricted framing', async () => {
+    const response = await request('/framed.html')
+
+    expect(response.headers.get('content-security-policy')).toBeNull()
+  })
+})
+
+describe('cookies', () => {
+  it('scopes cookies to the proxied site and drops Domain, Secure and SameSite=None', async () => {
+    const cookies = (await request('/login')).headers.getSetCookie()
+    const prefix = getProxyOriginPath(new URL(origin), ROUTE.profile)
+
+    expect(cookies).toEqual([
+      `session=abc; Path=${prefix}/; HttpOnly`,
+      `theme=dark; Path=${prefix}/; SameSite=Lax`
+    ])
+  })
+
+  it('keeps sending cookies after the network profile changes', async () => {
+    const [cookie = ''] = (await request('/login', { ...ROUTE, network: '3g' })).headers.getSetCookie()
+    const [pair = '', path = ''] = cookie.split('; ')
+    const next = toProxyUrl(`${origin}/echo`, { ...ROUTE, network: 'lte' })
+
+    expect(next.startsWith(path.replace(/^Path=/, ''))).toBe(true)
+
+    const response = await fetch(proxy + next, { headers: { cookie: pair } })
+    expect(await response.json()).toMatchObject({ cookie: pair })
+  })
+})
+
+describe('user agent profiles', () => {
+  it('sends the default user agent for unknown profiles, including Object.prototype keys', async () => {
+    const expected = getUserAgentProfile(DEFAULT_USER_AGENT_ID).userAgent
+
+    for (const profile of ['unknown', 'constructor', '__proto__', 'toString']) {
+      const response = await request('/echo', { ...ROUTE, profile })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toMatchObject({ userAgent: expected })
+    }
+  })
+})
+
+describe('redirects', () => {
+  it('keeps redirects on the proxy', async () => {
+    const response = await request('/old')
+
+    expect(response.status).toBe(301)
+    expect(response.headers.get('location')).toBe(toProxyUrl(`${origin}/new?from=old`, ROUTE))
+  })
+
+  it('routes redirects to other sites through the proxy with the same profiles', async () => {
+    const route: ProxyRoute = { profile: 'ios-17', network: 'lte' }
+    const response = await request('/elsewhere', route)
+
+    expect(response.headers.get('location')).toBe(toProxyUrl('https://other.example.org/landing', route))
+  })
+})
+
+describe('character encodings', () => {
+  it('decodes pages in the Content-Type charset and sends them as UTF-8', async () => {
+    const response = await request('/latin1.html')
+
+    expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8')
+    expect(await response.text()).toContain('<p>Café crème</p>')
+  })
+
+  it('falls back to the page\'s <meta charset>', async () => {
+    const response = await request('/meta-charset.html')
+
+    expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8')
+    expect(await response.text()).toContain('<p>€ 5, naïve</p>')
+  })
+
+  it('falls back to a stylesheet\'s @charset rule', async () => {
+    const response = await request('/latin1.css')
+
+    expect(response.headers.get('content-type')).toBe('text/css; charset=utf-8')
+    expect(await response.text()).toContain('content: "£"')
+  })
+})
+
+describe('network profiles', () => {
+  it('refuses unknown network profiles', async () => {
+    const response = await fetch(`${proxy}/__proxy/default/http/127.0.0.1/dial-up/`)
+
+    expect(response.status).toBe(400)
+  })
+
+  it('refuses the offline profile, as offline pages are never requested', async () => {
+    const response = await fetch(`${proxy}/__proxy/default/http/127.0.0.1/offline/`)
+
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('private networks', () => {
+  it('refuses targets on loopback addresses unless they are allowed', async () => {
+    const guarded = await startProxy({ allowPrivateNetworks: false })
+    const response = await request('/page.html', ROUTE, guarded)
+
+    expect(response.status).toBe(403)
+  })
+
+  it('checks hostnames against the addresses actually connected to', async () => {
+    const guarded = await startProxy({ allowPrivateNetworks: false })
+    const { port } = new URL(origin)
+    const response = await fetch(guarded + toProxyUrl(`http://localhost:${port}/page.html`, ROUTE))
+
+    expect(response.status).toBe(403)
+    expect(await response.text()).toContain('private network')
+  })
+})
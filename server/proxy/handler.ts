@@ -0,0 +1,300 @@
+/**
+ * Rewriting proxy request handler
+ *
+ * Connect-style middleware that fetches
+ * `/__proxy/<profile>/<scheme>/<host>/<network>/…` from the target site,
+ * removes the headers that stop it being framed, rewrites links and
+ * cookies to stay on the proxy origin and sends the emulated user agent
+ * upstream. The profile segment names the emulated Safari build, whose
+ * navigator shim is inserted into every HTML page, and traffic is
+ * throttled to the network segment's profile.
+ * Targets on loopback, private and link-local addresses are refused
+ * unless `allowPrivateNetworks` is set.
+ * Used by both the Vite plugin and the standalone server.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { createHash } from 'node:crypto'
+import type { UserAgentProfile } from '../../src/types/browser'
+import { PROXY, NAVIGATION_TIMEOUT } from '../../src/config/constants'
+import { getUserAgentProfile, NETWORK_PROFILES } from '../../src/config/browser'
+import { parseProxyUrl, fromProxyUrl, toProxyUrl, type ProxyRoute } from '../../src/utils/proxy'
+import { buildUserAgentShim } from '../../src/utils/userAgent'
+import {
+  rewriteHtml,
+  rewriteCss,
+  rewriteSetCookie,
+  stripFrameAncestors,
+  injectHeadScript,
+  allowInlineScript,
+  decodeText,
+  setCharset
+} from './rewrite'
+import { throttleRequest, sendThrottled } from './throttle'
+import { createPublicAgent, isPrivateAddressLiteral, PrivateAddressError } from './addresses'
+
+/**
+ * Proxy configuration
+ */
+export interface ProxyOptions {
+  /** Resolve the emulated navigator identity for a profile segment */
+  resolveProfile?: (profile: string) => UserAgentProfile
+  /** Upstream request timeout in milliseconds */
+  timeout?: number
+  /** Fetch implementation, replaceable for testing */
+  fetch?: typeof fetch
+  /**
+   * Allow targets on loopback, private and link-local addresses (local
+   * development servers, the LAN). Off by default, as any page loaded
+   * through the proxy could otherwise reach them.
+   */
+  allowPrivateNetworks?: boolean
+}
+
+export type ProxyMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => void
+
+/**
+ * Request headers passed through to the target site. Client Hints
+ * (Sec-CH-UA…) from the host browser are deliberately not forwarded,
+ * as Safari never sends them.
+ */
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'accept-language',
+  'cache-control',
+  'content-type',
+  'cookie',
+  'if-match',
+  'if-modified-since',
+  'if-none-match',
+  'if-range',
+  'pragma',
+  'range'
+]
+
+/**
+ * Response headers that are never passed back to the emulator. Bodies are
+ * decoded by fetch (and may be rewritten), so encoding and length go too.
+ */
+const DROPPED_RESPONSE_HEADERS = new Set([
+  'x-frame-options',
+  'content-security-policy',
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+  'strict-transport-security',
+  'cross-origin-opener-policy',
+  'cross-origin-embedder-policy',
+  'set-cookie',
+  'location',
+  // Safari ignores Client Hints opt-ins
+  'accept-ch',
+  'critical-ch'
+])
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.statusCode = status
+  res.setHeader('content-type', 'text/plain; charset=utf-8')
+  res.end(message)
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status
+  res.setHeader('content-type', 'application/json')
+  res.setHeader('cache-control', 'no-store')
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Build the upstream request headers
+ */
+function buildRequestHeaders(req: IncomingMessage, target: URL, userAgent: string): Headers {
+  const headers = new Headers()
+
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name]
+    if (typeof value === 'string') {
+      headers.set(name, value)
+    }
+  }
+
+  headers.set('user-agent', userAgent)
+
+  // Referer and Origin point at the proxy; translate them back to the target
+  const referer = req.headers['referer']
+  if (typeof referer === 'string') {
+    headers.set('referer', fromProxyUrl(referer))
+  }
+  if (req.headers['origin']) {
+    headers.set('origin', target.origin)
+  }
+
+  return headers
+}
+
+/**
+ * CSP source expression matching an inline script
+ */
+function hashScript(script: string): string {
+  return `'sha256-${createHash('sha256').update(script).digest('base64')}'`
+}
+
+/**
+ * Copy upstream response headers, rewriting the ones that would break framing.
+ * When a script is injected its hash is allowed by the page's CSP.
+ */
+function copyResponseHeaders(
+  upstream: Response,
+  res: ServerResponse,
+  target: URL,
+  route: ProxyRoute,
+  injectedScript: string | null
+): void {
+  upstream.headers.forEach((value, name) => {
+    if (!DROPPED_RESPONSE_HEADERS.has(name)) {
+      res.setHeader(name, value)
+    }
+  })
+
+  const policy = upstream.headers.get('content-security-policy')
+  const strippedPolicy = policy ? stripFrameAncestors(policy) : null
+  if (strippedPolicy) {
+    res.setHeader(
+      'content-security-policy',
+      injectedScript ? allowInlineScript(strippedPolicy, hashScript(injectedScript)) : strippedPolicy
+    )
+  }
+
+  const location = upstream.headers.get('location')
+  if (location) {
+    res.setHeader('location', toProxyUrl(new URL(location, target).href, route))
+  }
+
+  const cookies = upstream.headers.getSetCookie()
+  if (cookies.length > 0) {
+    res.setHeader('set-cookie', cookies.map((cookie) => rewriteSetCookie(cookie, target, route)))
+  }
+}
+
+/**
+ * Create the proxy middleware. Requests outside the proxy path are
+ * passed to `next` (or answered with 404 when there is no next handler).
+ */
+export function createProxyMiddleware(options: ProxyOptions = {}): ProxyMiddleware {
+  const resolveProfile = options.resolveProfile ?? getUserAgentProfile
+  const timeout = options.timeout ?? NAVIGATION_TIMEOUT
+  const fetchImpl = options.fetch ?? fetch
+  const allowPrivateNetworks = options.allowPrivateNetworks ?? false
+  // Checks each address as it is connected to, not only before the request
+  const dispatcher = allowPrivateNetworks ? null : createPublicAgent()
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = req.url ?? ''
+
+    if (path === PROXY.HEALTH_PATH) {
+      sendJson(res, 200, { ok: true, service: 'ibe-proxy' })
+      return
+    }
+
+    const target = parseProxyUrl(path)
+    if (!target) {
+      sendError(res, 400, 'Invalid proxy URL')
+      return
+    }
+
+    const conditions = NETWORK_PROFILES[target.network]
+    const method = req.method ?? 'GET'
+    const body = method !== 'GET' && method !== 'HEAD' ? await readBody(req) : null
+    const userAgentProfile = resolveProfile(target.profile)
+
+    if (!allowPrivateNetworks && isPrivateAddressLiteral(target.url.hostname)) {
+      sendError(res, 403, new PrivateAddressError(target.url.host).message)
+      return
+    }
+
+    await throttleRequest(conditions.latency, body?.length ?? 0, conditions.uploadKbps)
+
+    let upstream: Response
+    try {
+      upstream = await fetchImpl(target.url, {
+        method,
+        headers: buildRequestHeaders(req, target.url, userAgentProfile.userAgent),
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeout),
+        ...(dispatcher && { dispatcher })
+      })
+    } catch (error) {
+      if (error instanceof Error && error.cause instanceof PrivateAddressError) {
+        sendError(res, 403, new PrivateAddressError(target.url.host).message)
+        return
+      }
+      const reason = error instanceof Error ? error.message : String(error)
+      sendError(res, 502, `Could not reach ${target.url.host}: ${reason}`)
+      return
+    }
+
+    const contentType = upstream.headers.get('content-type') ?? ''
+    const shim = contentType.includes('text/html') ? buildUserAgentShim(userAgentProfile) : null
+    const isCss = contentType.includes('text/css')
+
+    res.statusCode = upstream.status
+    copyResponseHeaders(upstream, res, target.url, target, shim)
+    // Rewritten text is sent as UTF-8, whatever the page was encoded in
+    if (shim || isCss) {
+      res.setHeader('content-type', setCharset(contentType, 'utf-8'))
+    }
+
+    if (method === 'HEAD' || upstream.status === 204 || upstream.status === 304) {
+      res.end()
+      return
+    }
+
+    let responseBody: string | Buffer = Buffer.from(await upstream.arrayBuffer())
+    if (shim) {
+      const html = rewriteHtml(decodeText(responseBody, contentType), target.url.href, target)
+      responseBody = injectHeadScript(html, shim)
+    } else if (isCss) {
+      responseBody = rewriteCss(decodeText(responseBody, contentType), target.url.href, target)
+    }
+    await sendThrottled(res, responseBody, conditions.downloadKbps)
+  }
+
+  return (req, res, next) => {
+    if (!req.url?.startsWith(`${PROXY.PATH}/`)) {
+      if (next) {
+        next()
+      } else {
+        sendError(res, 404, 'Not found')
+      }
+      return
+    }
+
+    handle(req, res).catch((error: unknown) => {
+      // Part of the response is already on its way; all that can be done
+      // is to cut it short
+      if (res.headersSent) {
+        res.destroy()
+      } else if (next) {
+        next(error)
+      } else {
+        sendError(res, 500, 'Proxy error')
+      }
+    })
+  }
+}
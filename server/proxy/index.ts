@@ -0,0 +1,27 @@
+/**
+ * Rewriting proxy exports
+ *
+ * @module server/proxy
+ */
+
+export { createProxyMiddleware, type ProxyOptions, type ProxyMiddleware } from './handler'
+export { rewritingProxy } from './vitePlugin'
+export {
+  rewriteHtml,
+  rewriteCss,
+  rewriteUrl,
+  rewriteSetCookie,
+  stripFrameAncestors,
+  injectHeadScript,
+  allowInlineScript,
+  decodeText,
+  setCharset
+} from './rewrite'
+export { transferTime, throttleRequest, sendThrottled } from './throttle'
+export {
+  isPrivateAddress,
+  isPrivateAddressLiteral,
+  lookupPublicAddress,
+  createPublicAgent,
+  PrivateAddressError
+} from './addresses'
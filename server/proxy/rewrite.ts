@@ -0,0 +1,254 @@
+/**
+ * Response rewriting for the proxy
+ *
+ * Rewrites HTML, CSS, cookies and security headers so that a proxied
+ * page can be framed by the emulator and keeps every request on the
+ * proxy origin.
+ */
+
+import { getProxyOriginPath, toProxyUrl, type ProxyRoute } from '../../src/utils/proxy'
+
+/**
+ * HTML attributes that hold a single URL
+ */
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'poster', 'data', 'background']
+
+const TAG_PATTERN = /<([a-zA-Z][\w:-]*)(\s[^>]*)?>/g
+const ATTRIBUTE_PATTERN = new RegExp(
+  `(\\s(?:${URL_ATTRIBUTES.join('|')})\\s*=\\s*)(["'])((?:(?!\\2)[\\s\\S])*)\\2`,
+  'gi'
+)
+const SRCSET_PATTERN = /(\s(?:srcset|imagesrcset)\s*=\s*)(["'])((?:(?!\2)[\s\S])*)\2/gi
+const STYLE_ATTRIBUTE_PATTERN = /(\sstyle\s*=\s*)(["'])((?:(?!\2)[\s\S])*)\2/gi
+const INTEGRITY_PATTERN = /\sintegrity\s*=\s*(["'])[^"']*\1/gi
+const STYLE_BLOCK_PATTERN = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi
+const BASE_HREF_PATTERN = /<base\s[^>]*href\s*=\s*(["'])([^"']*)\1/i
+const CSS_URL_PATTERN = /url\(\s*(["']?)([^"')]+)\1\s*\)/gi
+const CSS_IMPORT_PATTERN = /@import\s+(["'])([^"']+)\1/gi
+const HEAD_OPEN_PATTERN = /<head\b[^>]*>/i
+const HTML_OPEN_PATTERN = /<html\b[^>]*>/i
+const DOCTYPE_PATTERN = /^\s*<!doctype[^>]*>/i
+const CHARSET_PARAMETER_PATTERN = /;\s*charset\s*=\s*["']?([\w.:-]+)["']?/i
+const DECLARED_CHARSET_PATTERN = /(?:<meta\b[^>]*\bcharset\s*=\s*["']?|^@charset\s+["'])([\w.:-]+)/i
+
+/**
+ * Bytes scanned for a `<meta charset>` or `@charset` declaration, as
+ * browsers prescan them
+ */
+const CHARSET_PRESCAN_LENGTH = 1024
+
+/**
+ * windows-1252 characters for bytes 0x80–0x9f, which Node's TextDecoder
+ * decodes as ISO-8859-1 control characters where browsers do not
+ */
+const WINDOWS_1252_C1 = '€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ'
+
+function decodeEntities(value: string): string {
+  return value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'")
+}
+
+function encodeEntities(value: string): string {
+  return value.replace(/&/g, '&amp;')
+}
+
+/**
+ * Decode an HTML or CSS body in the character encoding it was sent in:
+ * a byte order mark, then the Content-Type charset, then a `<meta charset>`
+ * or `@charset` declaration near the start, then UTF-8. Unknown encodings
+ * are read as UTF-8.
+ */
+export function decodeText(body: Uint8Array, contentType: string): string {
+  let charset = 'utf-8'
+  if (!(body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf)) {
+    const prescan = Buffer.from(body.subarray(0, CHARSET_PRESCAN_LENGTH)).toString('latin1')
+    charset = CHARSET_PARAMETER_PATTERN.exec(contentType)?.[1] ?? DECLARED_CHARSET_PATTERN.exec(prescan)?.[1] ?? charset
+  }
+
+  let decoder: TextDecoder
+  try {
+    decoder = new TextDecoder(charset)
+  } catch {
+    decoder = new TextDecoder()
+  }
+
+  const text = decoder.decode(body)
+  if (decoder.encoding !== 'windows-1252') return text
+  return text.replace(/[\x80-\x9f]/g, (char) => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80] ?? char)
+}
+
+/**
+ * Set the charset parameter of a Content-Type, replacing any it has
+ *
+ * @example setCharset('text/html; charset=iso-8859-1', 'utf-8')
+ * // => 'text/html; charset=utf-8'
+ */
+export function setCharset(contentType: string, charset: string): string {
+  return `${contentType.replace(CHARSET_PARAMETER_PATTERN, '')}; charset=${charset}`
+}
+
+/**
+ * Rewrite a single URL to its proxied equivalent. Fragments and
+ * non-HTTP schemes (data:, javascript:, mailto: …) are left untouched.
+ */
+export function rewriteUrl(value: string, baseUrl: string, route: ProxyRoute): string {
+  const trimmed = value.trim()
+  if (!trimmed || trimmed.startsWith('#')) return value
+
+  let resolved: URL
+  try {
+    resolved = new URL(trimmed, baseUrl)
+  } catch {
+    return value
+  }
+
+  if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return value
+  return toProxyUrl(resolved.href, route)
+}
+
+function rewriteSrcset(value: string, baseUrl: string, route: ProxyRoute): string {
+  return value
+    .split(',')
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/)
+      if (!url) return candidate
+      return [rewriteUrl(url, baseUrl, route), ...descriptors].join(' ')
+    })
+    .join(', ')
+}
+
+/**
+ * Rewrite url() references and @import rules in a stylesheet
+ */
+export function rewriteCss(css: string, baseUrl: string, route: ProxyRoute): string {
+  return css
+    .replace(CSS_URL_PATTERN, (match, quote: string, url: string) =>
+      url.startsWith('data:') ? match : `url(${quote}${rewriteUrl(url, baseUrl, route)}${quote})`
+    )
+    .replace(CSS_IMPORT_PATTERN, (_match, quote: string, url: string) =>
+      `@import ${quote}${rewriteUrl(url, baseUrl, route)}${quote}`
+    )
+}
+
+/**
+ * Rewrite every URL in an HTML document to point at the proxy.
+ * Subresource integrity attributes are removed because rewritten
+ * stylesheets no longer match their hashes.
+ */
+export function rewriteHtml(html: string, pageUrl: string, route: ProxyRoute): string {
+  // Relative URLs resolve against <base href> when the page declares one
+  const baseHref = BASE_HREF_PATTERN.exec(html)?.[2]
+  let baseUrl = pageUrl
+  if (baseHref) {
+    try {
+      baseUrl = new URL(decodeEntities(baseHref), pageUrl).href
+    } catch {
+      // Ignore malformed base URLs
+    }
+  }
+
+  const rewriteAttributeUrl = (value: string) =>
+    encodeEntities(rewriteUrl(decodeEntities(value), baseUrl, route))
+
+  const rewritten = html.replace(TAG_PATTERN, (tag) =>
+    tag
+      .replace(INTEGRITY_PATTERN, '')
+      .replace(ATTRIBUTE_PATTERN, (_match, prefix: string, quote: string, value: string) =>
+        `${prefix}${quote}${rewriteAttributeUrl(value)}${quote}`
+      )
+      .replace(SRCSET_PATTERN, (_match, prefix: string, quote: string, value: string) =>
+        `${prefix}${quote}${encodeEntities(rewriteSrcset(decodeEntities(value), baseUrl, route))}${quote}`
+      )
+      .replace(STYLE_ATTRIBUTE_PATTERN, (_match, prefix: string, quote: string, value: string) =>
+        `${prefix}${quote}${rewriteCss(value, baseUrl, route)}${quote}`
+      )
+  )
+
+  return rewritten.replace(STYLE_BLOCK_PATTERN, (_match, open: string, css: string, close: string) =>
+    `${open}${rewriteCss(css, baseUrl, route)}${close}`
+  )
+}
+
+/**
+ * Insert an inline script at the start of the document head so it runs
+ * before any of the page's own scripts. The script is inserted verbatim
+ * (so a CSP hash of it stays valid) and must not contain `</script>`.
+ */
+export function injectHeadScript(html: string, script: string): string {
+  const tag = `<script>${script}</script>`
+  const anchor = HEAD_OPEN_PATTERN.exec(html) ?? HTML_OPEN_PATTERN.exec(html) ?? DOCTYPE_PATTERN.exec(html)
+
+  if (!anchor) return tag + html
+
+  const end = anchor.index + anchor[0].length
+  return html.slice(0, end) + tag + html.slice(end)
+}
+
+/**
+ * Allow an injected inline script under a Content-Security-Policy by
+ * adding its hash to the directive that governs scripts. Directives that
+ * rely on 'unsafe-inline' are left alone, since adding a hash would
+ * disable it for the page's own inline scripts.
+ *
+ * @param hash - Source expression, e.g. `'sha256-…'`
+ */
+export function allowInlineScript(policy: string, hash: string): string {
+  const directives = policy.split(';').map((directive) => directive.trim()).filter(Boolean)
+  const names = directives.map((directive) => directive.split(/\s+/)[0]?.toLowerCase())
+  const governing = ['script-src-elem', 'script-src', 'default-src']
+    .map((name) => names.indexOf(name))
+    .find((index) => index !== -1)
+
+  if (governing === undefined) return policy
+
+  const directive = directives[governing] ?? ''
+  const sources = directive.split(/\s+/).slice(1)
+  const usesUnsafeInline = sources.includes("'unsafe-inline'")
+  const usesHashOrNonce = sources.some((source) => /^'(nonce|sha\d+)-/.test(source))
+
+  if (usesUnsafeInline && !usesHashOrNonce) return policy
+
+  directives[governing] = `${directive} ${hash}`
+  return directives.join('; ')
+}
+
+/**
+ * Remove the frame-ancestors directive from a Content-Security-Policy
+ *
+ * @returns The remaining policy, or null if nothing is left
+ */
+export function stripFrameAncestors(policy: string): string | null {
+  const directives = policy
+    .split(';')
+    .map((directive) => directive.trim())
+    .filter((directive) => directive && !/^frame-ancestors\b/i.test(directive))
+
+  return directives.length > 0 ? directives.join('; ') : null
+}
+
+/**
+ * Rewrite a Set-Cookie header so the cookie is stored for the proxy
+ * origin, scoped to the proxied site. The site's own Path cannot be kept,
+ * as the network profile sits between the site and its paths in proxy
+ * URLs; scoping to the whole site keeps cookies when the network profile
+ * changes. Domain is dropped, and Secure / SameSite=None are dropped
+ * because the proxy may be served over plain HTTP.
+ */
+export function rewriteSetCookie(header: string, targetUrl: URL, route: ProxyRoute): string {
+  const [pair, ...attributes] = header.split(';').map((part) => part.trim())
+
+  const kept = attributes.filter((attribute) => {
+    const [name = '', value = ''] = attribute.split('=').map((part) => part.trim())
+    switch (name.toLowerCase()) {
+      case 'path':
+      case 'domain':
+      case 'secure':
+        return false
+      case 'samesite':
+        return value.toLowerCase() !== 'none'
+      default:
+        return true
+    }
+  })
+
+  return [pair, `Path=${getProxyOriginPath(targetUrl, route.profile)}/`, ...kept].join('; ')
+}
@@ -0,0 +1,55 @@
+/**
+ * Network throttling for proxied requests
+ *
+ * Slows proxied traffic to the selected network profile: each request
+ * waits for the profile's latency and for its body to upload, and the
+ * response is sent in paced chunks at the download throughput.
+ */
+
+import type { ServerResponse } from 'node:http'
+import { PROXY } from '../../src/config/constants'
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Time to transfer a number of bytes at a throughput
+ *
+ * @param kbps - Kilobits per second, or 0 for no limit
+ * @returns Milliseconds (0 when unlimited)
+ */
+export function transferTime(bytes: number, kbps: number): number {
+  return kbps > 0 ? (bytes * 8) / kbps : 0
+}
+
+/**
+ * Wait for a request's latency and upload time before it is sent upstream
+ */
+export function throttleRequest(latency: number, bodyLength: number, uploadKbps: number): Promise<void> {
+  const wait = latency + transferTime(bodyLength, uploadKbps)
+  return wait > 0 ? delay(wait) : Promise.resolve()
+}
+
+/**
+ * Send a response body at a download throughput, ending the response.
+ * Stops early if the client goes away.
+ *
+ * @param kbps - Kilobits per second, or 0 to send it all at once
+ */
+export async function sendThrottled(res: ServerResponse, body: string | Buffer, kbps: number): Promise<void> {
+  if (kbps <= 0) {
+    res.end(body)
+    return
+  }
+
+  const data = typeof body === 'string' ? Buffer.from(body) : body
+  const chunkSize = Math.max(1, Math.floor((kbps * 1000) / 8 / (1000 / PROXY.THROTTLE_INTERVAL)))
+
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    if (res.destroyed) return
+    res.write(data.subarray(offset, offset + chunkSize))
+    await delay(PROXY.THROTTLE_INTERVAL)
+  }
+  res.end()
+}
@@ -0,0 +1,30 @@
+/**
+ * Vite plugin that mounts the rewriting proxy on the dev and preview servers
+ */
+
+import type { Plugin } from 'vite'
+import { createProxyMiddleware, type ProxyOptions } from './handler'
+
+/**
+ * Serve the rewriting proxy under `/__proxy` during `vite` and `vite preview`
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   plugins: [vue(), rewritingProxy()],
+ * })
+ * ```
+ */
+export function rewritingProxy(options: ProxyOptions = {}): Plugin {
+  const middleware = createProxyMiddleware(options)
+
+  return {
+    name: 'ibe-rewriting-proxy',
+    configureServer(server) {
+      server.middlewares.use(middleware)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware)
+    }
+  }
+}
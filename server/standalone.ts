@@ -0,0 +1,100 @@
+/**
+ * Standalone server
+ *
+ * Serves the built emulator from `dist/` together with the rewriting
+ * proxy, for static hosting where the Vite dev server is not running.
+ *
+ * Build with `npm run build && npm run build:server`, then start with
+ * `npm run serve`. PORT and STATIC_DIR can be set in the environment.
+ * The server only listens on 127.0.0.1; set HOST (e.g. `0.0.0.0`) to
+ * expose it to the network. Set ALLOW_PRIVATE_NETWORKS=1 to let the proxy
+ * load sites on localhost and the LAN.
+ */
+
+import { createServer, type ServerResponse } from 'node:http'
+import { createReadStream } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { extname, isAbsolute, join, normalize, relative, resolve, sep } from 'node:path'
+import { PROXY } from '../src/config/constants'
+import { createProxyMiddleware } from './proxy'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.woff2': 'font/woff2'
+}
+
+const root = resolve(process.env['STATIC_DIR'] ?? 'dist')
+const port = Number(process.env['PORT'] ?? PROXY.STANDALONE_PORT)
+const host = process.env['HOST'] ?? '127.0.0.1'
+const allowPrivateNetworks = process.env['ALLOW_PRIVATE_NETWORKS'] === '1'
+
+async function sendFile(res: ServerResponse, path: string): Promise<boolean> {
+  try {
+    const info = await stat(path)
+    if (!info.isFile()) return false
+  } catch {
+    return false
+  }
+
+  res.setHeader('content-type', CONTENT_TYPES[extname(path)] ?? 'application/octet-stream')
+  createReadStream(path).pipe(res)
+  return true
+}
+
+/**
+ * Serve a file from the static root, falling back to index.html for
+ * client-side routes
+ */
+async function serveStatic(url: string, res: ServerResponse): Promise<void> {
+  let pathname: string
+  try {
+    pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname)
+  } catch {
+    // Malformed percent-encoding
+    res.statusCode = 400
+    res.end('Bad request')
+    return
+  }
+  const filePath = normalize(join(root, pathname))
+
+  // Refuse paths that escape the static root (including into siblings
+  // that share its name as a prefix, such as dist-server/)
+  const relativePath = relative(root, filePath)
+  const isInsideRoot = relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath)
+  if (isInsideRoot && (await sendFile(res, filePath))) return
+  if (await sendFile(res, join(root, 'index.html'))) return
+
+  res.statusCode = 404
+  res.end('Not found')
+}
+
+const proxy = createProxyMiddleware({ allowPrivateNetworks })
+
+const server = createServer((req, res) => {
+  proxy(req, res, (error) => {
+    if (error) {
+      console.error(error)
+      res.statusCode = 500
+      res.end('Proxy error')
+      return
+    }
+
+    serveStatic(req.url ?? '/', res).catch(() => {
+      res.statusCode = 500
+      res.end('Server error')
+    })
+  })
+})
+
+server.listen(port, host, () => {
+  console.log(`iPhone Browser Emulator running at http://${host}:${port}`)
+})
@@ -8,3 +8,8 @@ export { default as BrowserChrome } from './BrowserChrome.vue'
 export { default as BrowserViewport } from './BrowserViewport.vue'
 export { default as ProgressBar } from './ProgressBar.vue'
 export { default as ErrorOverlay } from './ErrorOverlay.vue'
+export { default as TabOverview } from './TabOverview.vue'
+export { default as BookmarksPanel } from './BookmarksPanel.vue'
+export { default as HistoryPanel } from './HistoryPanel.vue'
+export { default as TouchIndicator } from './TouchIndicator.vue'
+export { default as OmniboxSuggestions } from './OmniboxSuggestions.vue'
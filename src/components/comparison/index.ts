@@ -0,0 +1,11 @@
+/**
+ * Comparison Components
+ *
+ * Side-by-side multi-device layout for comparing a page
+ * across several iPhone models at once
+ *
+ * @module components/comparison
+ */
+
+export { default as ComparisonView } from './ComparisonView.vue'
+export { default as ComparisonPane } from './ComparisonPane.vue'
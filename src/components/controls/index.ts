@@ -9,4 +9,14 @@
 
 export { default as ControlPanel } from './ControlPanel.vue';
 export { default as DeviceSelector } from './DeviceSelector.vue';
+export { default as DeviceEditor } from './DeviceEditor.vue';
+export { default as ColourPicker } from './ColourPicker.vue';
+export { default as ActionButtonSelector } from './ActionButtonSelector.vue';
+export { default as StatusBarMenu } from './StatusBarMenu.vue';
+export { default as LiveActivityMenu } from './LiveActivityMenu.vue';
 export { default as ThemeToggle } from './ThemeToggle.vue';
+export { default as UserAgentSelector } from './UserAgentSelector.vue';
+export { default as SearchEngineSelector } from './SearchEngineSelector.vue';
+export { default as NetworkSelector } from './NetworkSelector.vue';
+export { default as ScreenshotMenu } from './ScreenshotMenu.vue';
+export { default as RecordingMenu } from './RecordingMenu.vue';
@@ -25,3 +25,15 @@ export { default as DynamicIsland } from './DynamicIsland.vue'
 
 // Home indicator bar (Face ID devices)
 export { default as HomeIndicator } from './HomeIndicator.vue'
+
+// Lock screen shown by the side button
+export { default as LockScreen } from './LockScreen.vue'
+
+// Home Screen shown by the home button
+export { default as HomeScreen } from './HomeScreen.vue'
+
+// Volume and Silent Mode feedback for button presses
+export { default as ButtonHud } from './ButtonHud.vue'
+
+// iOS keyboard for focused text fields
+export { default as VirtualKeyboard } from './VirtualKeyboard.vue'
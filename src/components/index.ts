@@ -9,5 +9,6 @@
 
 export * from './browser'
 export * from './common'
+export * from './comparison'
 export * from './controls'
 export * from './device'
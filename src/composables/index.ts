@@ -11,7 +11,7 @@
  */
 
 // Navigation composable
-export { useNavigation, type UseNavigation } from './useNavigation'
+export { useNavigation, type UseNavigation, type UseNavigationOptions } from './useNavigation'
 
 // Device configuration composable with context provider/injector
 export {
@@ -47,3 +47,6 @@ export {
   STORAGE_KEYS,
   type StorageKey
 } from './useLocalStorage'
+
+// Address bar suggestions
+export { useOmnibox, type UseOmnibox, type UseOmniboxOptions } from './useOmnibox'
@@ -1,6 +1,7 @@
 import { ref, computed, readonly, provide, inject, type Ref, type ComputedRef, type InjectionKey } from 'vue'
-import type { DeviceModel, DeviceOrientation, DeviceState } from '@/types'
+import type { DeviceModel, DeviceOrientation, DeviceState, SafeAreaInsets, StatusBarConfig } from '@/types'
 import { useLocalStorage, STORAGE_KEYS } from './useLocalStorage'
+import { useStatusBarStore } from '@/stores/statusBar'
 import {
   deviceModelMap,
   deviceOptions as configDeviceOptions,
@@ -9,6 +10,9 @@ import {
   getStatusBarHeight,
   getButtonPositions,
   getDeviceColour,
+  getDeviceMaterial,
+  getLandscapeSafeAreaInsets,
+  resolveDeviceColourId,
   DYNAMIC_ISLAND,
   NOTCH,
   HOME_INDICATOR,
@@ -17,8 +21,9 @@ import {
 } from '@/config/devices'
 
 /**
- * Device models as a Record for backwards compatibility.
- * Converts the Map from config/devices to a plain object.
+ * Preset device models as a Record for backwards compatibility.
+ * Converts the Map from config/devices to a plain object; custom devices
+ * registered later are looked up in deviceModelMap directly.
  */
 export const DEVICE_MODELS: Record<string, DeviceModel> = Object.fromEntries(deviceModelMap)
 
@@ -38,12 +43,12 @@ export function useDeviceConfig() {
 
   // Validate stored device ID
   const validDeviceId = computed(() => {
-    return DEVICE_MODELS[storedDeviceId.value] ? storedDeviceId.value : DEFAULT_DEVICE_ID
+    return deviceModelMap.has(storedDeviceId.value) ? storedDeviceId.value : DEFAULT_DEVICE_ID
   })
 
   // Current device model
   const currentDevice = computed<DeviceModel>(() => {
-    return DEVICE_MODELS[validDeviceId.value] ?? DEVICE_MODELS[DEFAULT_DEVICE_ID]
+    return deviceModelMap.get(validDeviceId.value) ?? defaultDevice
   })
 
   // Current orientation
@@ -71,18 +76,11 @@ export function useDeviceConfig() {
   })
 
   // Safe area insets accounting for orientation
-  const effectiveSafeAreaInsets = computed(() => {
-    const insets = currentDevice.value.safeAreaInsets
+  const effectiveSafeAreaInsets = computed<SafeAreaInsets>(() => {
     if (orientation.value === 'portrait') {
-      return insets
-    }
-    // Rotate insets for landscape
-    return {
-      top: insets.left,
-      bottom: insets.right,
-      left: insets.top,
-      right: insets.bottom
+      return currentDevice.value.safeAreaInsets
     }
+    return getLandscapeSafeAreaInsets(currentDevice.value)
   })
 
   /**
@@ -92,7 +90,7 @@ export function useDeviceConfig() {
    * @returns true if device was found and set, false otherwise
    */
   function setDevice(deviceId: string): boolean {
-    if (DEVICE_MODELS[deviceId]) {
+    if (deviceModelMap.has(deviceId)) {
       storedDeviceId.value = deviceId
       return true
     }
@@ -139,7 +137,7 @@ export function useDeviceConfig() {
    * @param deviceId - Device ID to check
    */
   function isValidDevice(deviceId: string): boolean {
-    return deviceId in DEVICE_MODELS
+    return deviceModelMap.has(deviceId)
   }
 
   return {
@@ -183,9 +181,17 @@ export interface DeviceContext {
   device: ComputedRef<DeviceModel>
   /** Current orientation */
   orientation: Readonly<Ref<DeviceOrientation>>
+  /** Whether the device is in landscape */
+  isLandscape: ComputedRef<boolean>
+  /** Screen width in CSS pixels for the current orientation */
+  screenWidth: ComputedRef<number>
+  /** Screen height in CSS pixels for the current orientation */
+  screenHeight: ComputedRef<number>
+  /** Safe area insets for the current orientation */
+  safeAreaInsets: ComputedRef<SafeAreaInsets>
   /** Current scale factor */
   scale: Readonly<Ref<number>>
-  /** Selected colour variant */
+  /** Preferred colour variant (resolved against the device's finishes) */
   colourId: Ref<DeviceColourId>
   /** Computed bezel thickness */
   bezelThickness: ComputedRef<number>
@@ -193,14 +199,20 @@ export interface DeviceContext {
   statusBarHeight: ComputedRef<number>
   /** Button positions for current device */
   buttonPositions: ComputedRef<ReturnType<typeof getButtonPositions>>
-  /** Current colour configuration */
+  /** Current colour configuration, limited to the finishes the device shipped in */
   colourConfig: ComputedRef<ReturnType<typeof getDeviceColour>>
+  /** Frame material lighting for the current device */
+  materialConfig: ComputedRef<ReturnType<typeof getDeviceMaterial>>
   /** Dynamic Island configuration (if applicable) */
   dynamicIsland: typeof DYNAMIC_ISLAND
   /** Notch configuration (if applicable) */
   notch: typeof NOTCH
   /** Home indicator configuration */
   homeIndicator: typeof HOME_INDICATOR
+  /** What the status bar shows (shared by every frame) */
+  statusBar: ComputedRef<StatusBarConfig>
+  /** `theme-color` of the page on screen, set by the active viewport */
+  pageThemeColour: Ref<string | null>
 }
 
 /**
@@ -216,19 +228,27 @@ export const DEVICE_CONTEXT_KEY: InjectionKey<DeviceContext> = Symbol('device-co
  */
 export function provideDeviceContext(config: UseDeviceConfig): DeviceContext {
   const colourId = ref<DeviceColourId>(DEFAULT_COLOUR)
+  const statusBarStore = useStatusBarStore()
 
   const context: DeviceContext = {
     device: config.currentDevice,
     orientation: config.orientation,
+    isLandscape: computed(() => config.orientation.value === 'landscape'),
+    screenWidth: config.effectiveWidth,
+    screenHeight: config.effectiveHeight,
+    safeAreaInsets: config.effectiveSafeAreaInsets,
     scale: config.scale,
     colourId,
     bezelThickness: computed(() => getBezelThickness(config.currentDevice.value)),
     statusBarHeight: computed(() => getStatusBarHeight(config.currentDevice.value)),
     buttonPositions: computed(() => getButtonPositions(config.currentDevice.value)),
-    colourConfig: computed(() => getDeviceColour(colourId.value)),
+    colourConfig: computed(() => getDeviceColour(resolveDeviceColourId(config.currentDevice.value, colourId.value))),
+    materialConfig: computed(() => getDeviceMaterial(config.currentDevice.value)),
     dynamicIsland: DYNAMIC_ISLAND,
     notch: NOTCH,
     homeIndicator: HOME_INDICATOR,
+    statusBar: computed(() => statusBarStore.config),
+    pageThemeColour: ref<string | null>(null),
   }
 
   provide(DEVICE_CONTEXT_KEY, context)
@@ -0,0 +1,50 @@
+/**
+ * useNavigation middleware registration tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { NavigationMiddleware } from '@/types/navigation'
+import { useNavigation } from './useNavigation'
+
+describe('use', () => {
+  it('runs middleware added later inside the middleware passed as options', () => {
+    const calls: string[] = []
+    const trace = (name: string): NavigationMiddleware => (action, next) => {
+      calls.push(name)
+      return next(action)
+    }
+
+    const navigation = useNavigation({ middleware: [trace('option')] })
+    navigation.use(trace('first'))
+    navigation.use(trace('second'))
+    navigation.navigate('https://example.com/')
+
+    expect(calls).toEqual(['option', 'first', 'second'])
+  })
+
+  it('short-circuits actions a middleware does not pass on', () => {
+    const navigation = useNavigation()
+    navigation.use((action, next, getState) => (action.type === 'NAVIGATE' ? getState() : next(action)))
+
+    navigation.navigate('https://example.com/')
+
+    expect(navigation.currentUrl.value).toBe('')
+    expect(navigation.state.value.history).toEqual([])
+  })
+
+  it('stops running middleware once removed', () => {
+    const navigation = useNavigation()
+    const seen: string[] = []
+    const remove = navigation.use((action, next) => {
+      seen.push(action.type)
+      return next(action)
+    })
+
+    navigation.navigate('https://example.com/')
+    remove()
+    navigation.refresh()
+
+    expect(seen).toEqual(['NAVIGATE'])
+    expect(navigation.isLoading.value).toBe(true)
+  })
+})
@@ -1,224 +1,202 @@
-import { ref, computed, readonly } from 'vue'
-import type { NavigationState, NavigationError, NavigationHistory } from '@/types/navigation'
+import { shallowRef, computed } from 'vue'
+import type {
+  NavigationAction,
+  NavigationEntry,
+  NavigationError,
+  NavigationHistory,
+  NavigationMiddleware,
+  NavigationState
+} from '@/types/navigation'
+import { ERROR_MESSAGES } from '@/config/constants'
+import { applyNavigationMiddleware, createNavigationState, navigationReducer } from '@/utils/navigation'
+import { normaliseUrl, isValidUrl, isSecureUrl, getHostname } from '@/utils/url'
+
+/**
+ * Options for a navigation instance
+ */
+export interface UseNavigationOptions {
+  /** Middleware run around every action, first in the list outermost */
+  middleware?: NavigationMiddleware[]
+  /** Starting state (defaults to the empty start page) */
+  initialState?: NavigationState
+}
 
 /**
  * Composable for managing browser navigation state
- * Handles URL history, loading states, and navigation actions
+ * Handles URL history, loading states, and navigation actions by
+ * dispatching NavigationActions through middleware to the shared reducer
  */
-export function useNavigation() {
-  // Navigation history
-  const history = ref<NavigationHistory>({
-    entries: [],
-    currentIndex: -1
-  })
-
-  // Current state
-  const currentUrl = ref('')
-  const isLoading = ref(false)
-  const loadProgress = ref(0)
-  const error = ref<NavigationError | null>(null)
+export function useNavigation(options: UseNavigationOptions = {}) {
+  const state = shallowRef<NavigationState>(options.initialState ?? createNavigationState())
+  const middleware: NavigationMiddleware[] = [...(options.middleware ?? [])]
 
-  // Computed properties
-  const canGoBack = computed(() => history.value.currentIndex > 0)
-  const canGoForward = computed(() =>
-    history.value.currentIndex < history.value.entries.length - 1
-  )
+  function getState(): NavigationState {
+    return state.value
+  }
+
+  function commit(action: NavigationAction): NavigationState {
+    state.value = navigationReducer(state.value, action)
+    return state.value
+  }
 
   /**
-   * Convert simple history entries to NavigationEntry format
+   * Send an action through the middleware to the reducer
+   *
+   * @returns The resulting state
    */
-  const historyEntries = computed(() =>
-    history.value.entries.map((url) => ({
-      url,
-      timestamp: Date.now()
-    }))
-  )
-
-  const state = computed<NavigationState>(() => ({
-    currentUrl: currentUrl.value,
-    history: historyEntries.value,
-    historyIndex: history.value.currentIndex,
-    isLoading: isLoading.value,
-    canGoBack: canGoBack.value,
-    canGoForward: canGoForward.value,
-    loadProgress: loadProgress.value,
-    error: error.value
-  }))
+  function dispatch(action: NavigationAction): NavigationState {
+    return applyNavigationMiddleware(middleware, getState, commit)(action)
+  }
 
   /**
-   * Validates and normalises a URL
+   * Add middleware after any already registered
+   *
+   * @returns A function that removes it again
    */
-  function normaliseUrl(url: string): string {
-    let normalised = url.trim()
-
-    // Add protocol if missing
-    if (!/^https?:\/\//i.test(normalised)) {
-      normalised = `https://${normalised}`
+  function use(handler: NavigationMiddleware): () => void {
+    middleware.push(handler)
+    return () => {
+      const index = middleware.indexOf(handler)
+      if (index !== -1) middleware.splice(index, 1)
     }
-
-    return normalised
   }
 
+  // Computed properties
+  const currentUrl = computed(() => state.value.currentUrl)
+  const isLoading = computed(() => state.value.isLoading)
+  const loadProgress = computed(() => state.value.loadProgress)
+  const error = computed(() => state.value.error)
+  const canGoBack = computed(() => state.value.canGoBack)
+  const canGoForward = computed(() => state.value.canGoForward)
+
   /**
-   * Validates a URL string
+   * URL-only view of the history
    */
-  function isValidUrl(url: string): boolean {
-    try {
-      const parsed = new URL(normaliseUrl(url))
-      return ['http:', 'https:'].includes(parsed.protocol)
-    } catch {
-      return false
-    }
-  }
+  const history = computed<NavigationHistory>(() => ({
+    entries: state.value.history.map((entry) => entry.url),
+    currentIndex: state.value.historyIndex
+  }))
 
   /**
    * Navigate to a new URL
    */
-  function navigate(url: string): void {
-    const normalisedUrl = normaliseUrl(url)
-
+  function navigate(url: string, navigateOptions: { replace?: boolean } = {}): void {
     if (!isValidUrl(url)) {
-      error.value = {
-        type: 'invalid-url',
-        message: 'Please enter a valid URL (e.g., https://example.com)'
-      }
+      dispatch({
+        type: 'SET_ERROR',
+        payload: { type: 'invalid-url', message: ERROR_MESSAGES.INVALID_URL, url, timestamp: Date.now() }
+      })
       return
     }
 
-    // Clear any existing error
-    error.value = null
-
-    // Start loading
-    isLoading.value = true
-    loadProgress.value = 0
-
-    // Update current URL
-    currentUrl.value = normalisedUrl
-
-    // Add to history (truncate forward history if navigating from middle)
-    const newEntries = history.value.entries.slice(0, history.value.currentIndex + 1)
-    newEntries.push(normalisedUrl)
-    history.value = {
-      entries: newEntries,
-      currentIndex: newEntries.length - 1
-    }
+    dispatch({
+      type: 'NAVIGATE',
+      payload: {
+        url: normaliseUrl(url),
+        timestamp: Date.now(),
+        ...(navigateOptions.replace ? { replace: true } : {})
+      }
+    })
   }
 
   /**
    * Go back in history
    */
   function goBack(): void {
-    if (!canGoBack.value) return
-
-    history.value.currentIndex--
-    currentUrl.value = history.value.entries[history.value.currentIndex]
-    error.value = null
-    isLoading.value = true
-    loadProgress.value = 0
+    dispatch({ type: 'GO_BACK' })
   }
 
   /**
    * Go forward in history
    */
   function goForward(): void {
-    if (!canGoForward.value) return
-
-    history.value.currentIndex++
-    currentUrl.value = history.value.entries[history.value.currentIndex]
-    error.value = null
-    isLoading.value = true
-    loadProgress.value = 0
+    dispatch({ type: 'GO_FORWARD' })
   }
 
   /**
    * Refresh current page
    */
   function refresh(): void {
-    if (!currentUrl.value) return
-
-    error.value = null
-    isLoading.value = true
-    loadProgress.value = 0
+    dispatch({ type: 'RELOAD' })
   }
 
   /**
    * Stop loading
    */
   function stop(): void {
-    isLoading.value = false
-    loadProgress.value = 100
+    dispatch({ type: 'STOP' })
   }
 
   /**
    * Set loading progress (0-100)
    */
   function setProgress(progress: number): void {
-    loadProgress.value = Math.max(0, Math.min(100, progress))
+    dispatch({ type: 'SET_PROGRESS', payload: { progress } })
   }
 
   /**
-   * Mark loading as complete
+   * Mark loading as complete, optionally recording the page title
    */
-  function onLoadComplete(): void {
-    isLoading.value = false
-    loadProgress.value = 100
-    error.value = null
+  function onLoadComplete(title?: string): void {
+    dispatch({ type: 'LOAD_COMPLETE', payload: title ? { title } : {} })
   }
 
   /**
    * Handle load error
    */
   function onLoadError(err: NavigationError): void {
-    isLoading.value = false
-    loadProgress.value = 0
-    error.value = err
+    dispatch({ type: 'SET_ERROR', payload: err })
+  }
+
+  function clearError(): void {
+    dispatch({ type: 'CLEAR_ERROR' })
+  }
+
+  function updateTitle(title: string): void {
+    dispatch({ type: 'UPDATE_TITLE', payload: { title } })
+  }
+
+  function updateFavicon(favicon: string): void {
+    dispatch({ type: 'UPDATE_FAVICON', payload: { favicon } })
   }
 
   /**
-   * Clear navigation state
+   * Record the scroll position of the current page, restored when
+   * coming back to it
    */
-  function clear(): void {
-    history.value = { entries: [], currentIndex: -1 }
-    currentUrl.value = ''
-    isLoading.value = false
-    loadProgress.value = 0
-    error.value = null
+  function updateScroll(x: number, y: number): void {
+    dispatch({ type: 'UPDATE_SCROLL', payload: { x, y } })
   }
 
   /**
-   * Check if a URL uses HTTPS
+   * Clear navigation state
    */
-  function isSecure(url: string): boolean {
-    try {
-      return new URL(url).protocol === 'https:'
-    } catch {
-      return false
-    }
+  function clear(): void {
+    dispatch({ type: 'RESET' })
   }
 
   /**
-   * Extract hostname from URL
+   * Replace the history stack wholesale (e.g. when switching tabs).
+   * The restored page is assumed to be already loaded.
    */
-  function getHostname(url: string): string {
-    try {
-      return new URL(url).hostname
-    } catch {
-      return url
-    }
+  function restore(entries: NavigationEntry[], index: number): void {
+    dispatch({ type: 'RESTORE', payload: { history: entries, historyIndex: index } })
   }
 
   return {
     // State
-    state: readonly(state),
-    currentUrl: readonly(currentUrl),
-    isLoading: readonly(isLoading),
-    loadProgress: readonly(loadProgress),
-    error: readonly(error),
+    state: computed(() => state.value),
+    currentUrl,
+    isLoading,
+    loadProgress,
+    error,
     canGoBack,
     canGoForward,
-    history: readonly(history),
+    history,
 
     // Actions
+    dispatch,
+    use,
     navigate,
     goBack,
     goForward,
@@ -227,12 +205,17 @@ export function useNavigation() {
     setProgress,
     onLoadComplete,
     onLoadError,
+    clearError,
+    updateTitle,
+    updateFavicon,
+    updateScroll,
     clear,
+    restore,
 
     // Utilities
     isValidUrl,
     normaliseUrl,
-    isSecure,
+    isSecure: isSecureUrl,
     getHostname
   }
 }
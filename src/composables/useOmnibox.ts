@@ -0,0 +1,141 @@
+import { ref, shallowRef, computed, toValue, onScopeDispose, type MaybeRefOrGetter } from 'vue'
+import type { OmniboxSuggestion, UrlBarMode } from '@/types/browser'
+import { OMNIBOX } from '@/config/constants'
+import { generateOmniboxId } from '@/utils/identifiers'
+import { isLikelyUrl } from '@/utils/omnibox'
+import { useOmniboxStore } from '@/stores/omnibox'
+
+/**
+ * Options for an address bar
+ */
+export interface UseOmniboxOptions {
+  /** Offer to switch to open tabs (only the main browser has tabs) */
+  includeTabs?: MaybeRefOrGetter<boolean>
+}
+
+/**
+ * Composable for an address bar's suggestion list
+ * Tracks the typed text, fetches search suggestions a moment after typing
+ * stops (cancelling any request still in flight) and handles moving
+ * through and choosing suggestions from the keyboard
+ */
+export function useOmnibox(options: UseOmniboxOptions = {}) {
+  const omniboxStore = useOmniboxStore()
+
+  // Links the field to its list for assistive technology
+  const listId = generateOmniboxId()
+
+  const text = ref('')
+  const isOpen = ref(false)
+  const highlightedIndex = ref(0)
+  const remote = shallowRef<string[]>([])
+
+  let fetchTimer: number | undefined
+  let controller: AbortController | null = null
+
+  const suggestions = computed<OmniboxSuggestion[]>(() =>
+    isOpen.value
+      ? omniboxStore.getSuggestions(text.value, remote.value, toValue(options.includeTabs) ?? false)
+      : []
+  )
+
+  /**
+   * Whether Enter will open an address or search, for the keyboard's
+   * return key and the field's icon
+   */
+  const mode = computed<UrlBarMode>(() => {
+    if (!text.value.trim()) return 'editing'
+    return suggestions.value[highlightedIndex.value]?.source === 'url' ? 'url' : 'search'
+  })
+
+  function cancelFetch(): void {
+    window.clearTimeout(fetchTimer)
+    controller?.abort()
+    controller = null
+  }
+
+  function scheduleFetch(query: string): void {
+    cancelFetch()
+    remote.value = []
+
+    // Addresses are not worth asking a search engine about
+    if (!query.trim() || isLikelyUrl(query)) return
+
+    fetchTimer = window.setTimeout(async () => {
+      const current = new AbortController()
+      controller = current
+      const phrases = await omniboxStore.fetchSuggestions(query, current.signal)
+      if (!current.signal.aborted) {
+        remote.value = phrases
+      }
+    }, OMNIBOX.FETCH_DELAY)
+  }
+
+  /**
+   * Take new text from the field and show suggestions for it
+   */
+  function update(value: string): void {
+    text.value = value
+    highlightedIndex.value = 0
+    isOpen.value = value.trim().length > 0
+    scheduleFetch(value)
+  }
+
+  /**
+   * Move the highlight up or down, wrapping at either end
+   */
+  function move(delta: number): void {
+    const count = suggestions.value.length
+    if (count === 0) return
+    highlightedIndex.value = (highlightedIndex.value + delta + count) % count
+  }
+
+  function highlight(index: number): void {
+    highlightedIndex.value = index
+  }
+
+  /**
+   * Hide the suggestions and cancel any pending request
+   */
+  function close(): void {
+    cancelFetch()
+    isOpen.value = false
+    remote.value = []
+    highlightedIndex.value = 0
+  }
+
+  /**
+   * Suggestion to act on: the one given, the highlighted one, or
+   * (when the list is closed) whatever the typed text resolves to.
+   * Closes the list.
+   */
+  function choose(index = highlightedIndex.value): OmniboxSuggestion | null {
+    const list = suggestions.value.length > 0
+      ? suggestions.value
+      : omniboxStore.getSuggestions(text.value)
+    const chosen = list[index] ?? list[0] ?? null
+    close()
+    return chosen
+  }
+
+  onScopeDispose(cancelFetch)
+
+  return {
+    listId,
+    // State
+    text,
+    isOpen,
+    highlightedIndex,
+    // Computed
+    suggestions,
+    mode,
+    // Methods
+    update,
+    move,
+    highlight,
+    close,
+    choose
+  }
+}
+
+export type UseOmnibox = ReturnType<typeof useOmnibox>
@@ -4,7 +4,15 @@
  * Contains default settings for the Safari browser emulation
  * including user agent strings and toolbar preferences
  */
-import type { BrowserConfig } from '@/types'
+import type {
+  BrowserConfig,
+  DeviceModel,
+  DeviceOrientation,
+  ToolbarLayout,
+  ToolbarVisibility,
+  UserAgentProfile,
+} from '@/types'
+import { BROWSER_CHROME } from './constants'
 
 /**
  * Safari user agent strings for different iOS versions
@@ -12,11 +20,104 @@ import type { BrowserConfig } from '@/types'
  * These match the actual user agents sent by Safari on iOS devices
  */
 export const USER_AGENTS = {
+  'ios-18': 'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1',
   'ios-17': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
   'ios-16': 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1',
   'ios-15': 'Mozilla/5.0 (iPhone; CPU iPhone OS 15_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.0 Mobile/15E148 Safari/604.1',
 } as const
 
+/**
+ * Safari user agent strings for iPadOS
+ *
+ * iPad Safari is desktop-class: it requests desktop websites by default,
+ * identifying itself as Safari on an Intel Mac
+ */
+export const IPAD_USER_AGENTS = {
+  'ipados-18': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Safari/605.1.15',
+  'ipados-17': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+  'ipados-16': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Safari/605.1.15',
+  'ipados-15': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.0 Safari/605.1.15',
+} as const
+
+export type UserAgentId = keyof typeof USER_AGENTS | keyof typeof IPAD_USER_AGENTS
+
+const ALL_USER_AGENTS: Record<UserAgentId, string> = { ...USER_AGENTS, ...IPAD_USER_AGENTS }
+
+/**
+ * Default emulated Safari version
+ */
+export const DEFAULT_USER_AGENT_ID: UserAgentId = 'ios-17'
+
+/**
+ * Navigator properties shared by every iPhone Safari build.
+ * Safari does not implement User-Agent Client Hints, so pages see no
+ * navigator.userAgentData and no Sec-CH-UA request headers.
+ */
+export const IPHONE_NAVIGATOR = {
+  platform: 'iPhone',
+  vendor: 'Apple Computer, Inc.',
+  maxTouchPoints: 5,
+} as const
+
+/**
+ * Navigator properties of desktop-class iPad Safari. It reports a Mac
+ * platform, so touch support (maxTouchPoints) is the only way pages can
+ * tell an iPad from a Mac.
+ */
+export const IPAD_NAVIGATOR = {
+  platform: 'MacIntel',
+  vendor: 'Apple Computer, Inc.',
+  maxTouchPoints: 5,
+} as const
+
+/**
+ * Check whether a string names a known user agent
+ */
+export function isUserAgentId(id: string): id is UserAgentId {
+  return Object.prototype.hasOwnProperty.call(ALL_USER_AGENTS, id)
+}
+
+/**
+ * Check whether a user agent is a desktop-class iPadOS build
+ */
+export function isDesktopClassUserAgentId(id: UserAgentId): id is keyof typeof IPAD_USER_AGENTS {
+  return Object.prototype.hasOwnProperty.call(IPAD_USER_AGENTS, id)
+}
+
+/**
+ * Get the full navigator profile for a user agent, falling back to the default
+ *
+ * @param id - User agent identifier (e.g., 'ios-17' or 'ipados-17')
+ */
+export function getUserAgentProfile(id: string): UserAgentProfile {
+  const key = isUserAgentId(id) ? id : DEFAULT_USER_AGENT_ID
+  const userAgent = ALL_USER_AGENTS[key]
+  const desktopClass = isDesktopClassUserAgentId(key)
+  const version = key.slice(key.indexOf('-') + 1)
+
+  return {
+    id: key,
+    label: desktopClass ? `Safari – iPadOS ${version}` : `Safari – iOS ${version}`,
+    iosVersion: Number(version),
+    userAgent,
+    appVersion: userAgent.replace(/^Mozilla\//, ''),
+    ...(desktopClass ? IPAD_NAVIGATOR : IPHONE_NAVIGATOR),
+  }
+}
+
+/**
+ * User agents a device can run, newest first. iPads run the desktop-class
+ * iPadOS builds; iPhone and iPod touch share the iOS builds. Devices
+ * without a launch version can run every Safari build.
+ */
+export function getSupportedUserAgents(device: DeviceModel): UserAgentProfile[] {
+  const minimum = device.launchIOSVersion ?? 0
+  const userAgents = device.family === 'ipad' ? IPAD_USER_AGENTS : USER_AGENTS
+  return (Object.keys(userAgents) as UserAgentId[])
+    .map(getUserAgentProfile)
+    .filter((profile) => profile.iosVersion >= minimum)
+}
+
 /**
  * Default browser configuration
  */
@@ -58,10 +159,52 @@ export const SEARCH_ENGINES = {
   },
 } as const
 
+export type SearchEngineId = keyof typeof SEARCH_ENGINES
+
 /**
  * Default search engine
  */
-export const DEFAULT_SEARCH_ENGINE = 'google'
+export const DEFAULT_SEARCH_ENGINE: SearchEngineId = 'google'
+
+/**
+ * Check whether a string names a known search engine
+ */
+export function isSearchEngineId(id: string): id is SearchEngineId {
+  return Object.prototype.hasOwnProperty.call(SEARCH_ENGINES, id)
+}
+
+/**
+ * Network conditions pages can load under, after Apple's Network Link
+ * Conditioner. Latency is added to every request and throughput is in
+ * kilobits per second (0 for no limit).
+ */
+export const NETWORK_PROFILES = {
+  none: { name: 'No Throttling', latency: 0, downloadKbps: 0, uploadKbps: 0 },
+  lte: { name: 'LTE', latency: 50, downloadKbps: 50000, uploadKbps: 10000 },
+  '3g': { name: '3G', latency: 100, downloadKbps: 780, uploadKbps: 330 },
+  edge: { name: 'Edge', latency: 400, downloadKbps: 240, uploadKbps: 200 },
+  offline: { name: 'Offline', latency: 0, downloadKbps: 0, uploadKbps: 0 },
+} as const
+
+export type NetworkProfileId = keyof typeof NETWORK_PROFILES
+
+/**
+ * Network profiles pages can be requested under (offline, they are not
+ * requested at all)
+ */
+export type OnlineNetworkProfileId = Exclude<NetworkProfileId, 'offline'>
+
+/**
+ * Default network conditions (the host's own connection)
+ */
+export const DEFAULT_NETWORK_PROFILE: OnlineNetworkProfileId = 'none'
+
+/**
+ * Check whether a string names a known network profile
+ */
+export function isNetworkProfileId(id: string): id is NetworkProfileId {
+  return Object.prototype.hasOwnProperty.call(NETWORK_PROFILES, id)
+}
 
 /**
  * Safari toolbar button identifiers
@@ -75,3 +218,28 @@ export const TOOLBAR_BUTTONS = [
 ] as const
 
 export type ToolbarButton = (typeof TOOLBAR_BUTTONS)[number]
+
+/**
+ * How Safari arranges its toolbars on a device in an orientation
+ */
+export function getToolbarLayout(device: DeviceModel, orientation: DeviceOrientation): ToolbarLayout {
+  if (orientation === 'landscape') return 'landscape'
+  return device.family === 'ipad' ? 'single-row' : 'split'
+}
+
+/**
+ * Heights of Safari's address bar and toolbar in CSS pixels. Collapsed,
+ * the address bar becomes a small pill and the toolbar goes.
+ */
+export function getToolbarHeights(
+  layout: ToolbarLayout,
+  visibility: ToolbarVisibility
+): { addressBar: number; toolbar: number } {
+  if (visibility === 'hidden') return { addressBar: 0, toolbar: 0 }
+  if (visibility === 'compact') return { addressBar: BROWSER_CHROME.COMPACT_BAR_HEIGHT, toolbar: 0 }
+
+  return {
+    addressBar: layout === 'landscape' ? BROWSER_CHROME.LANDSCAPE_BAR_HEIGHT : BROWSER_CHROME.URL_BAR_HEIGHT,
+    toolbar: layout === 'split' ? BROWSER_CHROME.TOOLBAR_HEIGHT : 0,
+  }
+}
@@ -123,6 +123,14 @@ export const STATUS_BAR = {
   ICON_SIZE: 16,
   /** Gap between status items */
   GAP: 4,
+  /** Time in Apple's product shots */
+  FIXED_TIME: '9:41',
+  /** Battery level at or below which the battery turns red (percent) */
+  LOW_BATTERY_LEVEL: 20,
+  /** Battery fill colours */
+  BATTERY_CHARGING_COLOUR: '#30d158',
+  BATTERY_LOW_POWER_COLOUR: '#ffd60a',
+  BATTERY_LOW_COLOUR: '#ff453a',
 } as const;
 
 /**
@@ -151,6 +159,14 @@ export const BROWSER_CHROME = {
   URL_BAR_HEIGHT: 44,
   /** Height of the bottom toolbar */
   TOOLBAR_HEIGHT: 44,
+  /** Height of the single bar in landscape */
+  LANDSCAPE_BAR_HEIGHT: 36,
+  /** Height of the collapsed address pill */
+  COMPACT_BAR_HEIGHT: 28,
+  /** Scroll distance that collapses or expands the toolbars (CSS px) */
+  COLLAPSE_SCROLL_DISTANCE: 30,
+  /** Time for the page to settle after the toolbars resize (ms) */
+  COLLAPSE_SETTLE_TIME: 400,
   /** Padding around elements */
   PADDING: 8,
   /** Border radius for URL input */
@@ -230,12 +246,54 @@ export const STORAGE_KEYS = {
   THEME: 'ibe-theme',
   /** Device orientation */
   ORIENTATION: 'ibe-orientation',
+  /** Device colour / finish */
+  DEVICE_COLOUR: 'ibe-device-colour',
+  /** User-defined device profiles */
+  CUSTOM_DEVICES: 'ibe-custom-devices',
   /** URL history */
   URL_HISTORY: 'ibe-url-history',
+  /** Global browsing history (visits with metadata) */
+  HISTORY: 'ibe-history',
+  /** Search engine used by the address bar */
+  SEARCH_ENGINE: 'ibe-search-engine',
   /** Scale preference */
   SCALE: 'ibe-scale',
   /** Last visited URL */
   LAST_URL: 'ibe-last-url',
+  /** Saved bookmarks */
+  BOOKMARKS: 'ibe-bookmarks',
+  /** Bookmark folders */
+  BOOKMARK_FOLDERS: 'ibe-bookmark-folders',
+  /** Devices shown in comparison mode */
+  COMPARISON_DEVICES: 'ibe-comparison-devices',
+  /** Whether comparison mode synchronises navigation */
+  COMPARISON_SYNC: 'ibe-comparison-sync',
+  /** Scroll, click and input mirroring between viewports */
+  VIEWPORT_SYNC: 'ibe-viewport-sync',
+  /** Whether pages are loaded through the rewriting proxy */
+  PROXY_ENABLED: 'ibe-proxy-enabled',
+  /** Selected Safari user agent */
+  USER_AGENT: 'ibe-user-agent',
+  /** Screenshot capture options */
+  SCREENSHOT_OPTIONS: 'ibe-screenshot-options',
+  /** Screen recording options */
+  RECORDING_OPTIONS: 'ibe-recording-options',
+  /** Whether mouse input is converted to touch input */
+  TOUCH_EMULATION: 'ibe-touch-emulation',
+  /** What the Action button does */
+  ACTION_BUTTON: 'ibe-action-button',
+  /** Status bar contents (time, carrier, signal, battery, icons) */
+  STATUS_BAR: 'ibe-status-bar',
+  /** Whether pages fill the screen as Home Screen web apps do */
+  FULL_SCREEN: 'ibe-full-screen',
+  /** Safari address bar position (top or bottom) */
+  TOOLBAR_POSITION: 'ibe-toolbar-position',
+  /** Network conditions pages load under */
+  NETWORK_PROFILE: 'ibe-network-profile',
+  /** Saved sessions, keyed by session ID */
+  SESSIONS: 'ibe-sessions',
+  /** ID of this window's session (kept in sessionStorage) */
+  SESSION_ID: 'ibe-session-id',
 } as const;
 
 /**
@@ -243,11 +301,236 @@ export const STORAGE_KEYS = {
  */
 export const MAX_URL_HISTORY = 50;
 
+/**
+ * Maximum visits kept in the global history; the oldest are dropped first.
+ */
+export const MAX_HISTORY_VISITS = 1000;
+
 /**
  * Maximum bookmark entries to store.
  */
 export const MAX_BOOKMARKS = 100;
 
+/**
+ * Maximum user-defined device profiles to store.
+ */
+export const MAX_CUSTOM_DEVICES = 50;
+
+/**
+ * ID of the built-in Favourites folder shown on the start page.
+ */
+export const FAVOURITES_FOLDER_ID = 'favourites';
+
+// =============================================================================
+// SESSIONS
+// =============================================================================
+
+/**
+ * Session restore settings.
+ */
+export const SESSION = {
+  /** Most sessions kept in storage; the least recently saved go first */
+  MAX_SAVED: 10,
+  /** Wait after the last change before saving the session (ms) */
+  SAVE_DELAY: 500,
+} as const;
+
+// =============================================================================
+// DEEP LINKS
+// =============================================================================
+
+/**
+ * Shareable link settings.
+ */
+export const DEEP_LINK = {
+  /** Query string parameter names */
+  PARAMS: {
+    URL: 'url',
+    DEVICE: 'device',
+    ORIENTATION: 'orientation',
+    THEME: 'theme',
+    COLOUR: 'colour',
+  },
+  /** How long the share button shows that the link was copied (ms) */
+  COPIED_DURATION: 2000,
+} as const;
+
+// =============================================================================
+// ADDRESS BAR
+// =============================================================================
+
+/**
+ * Address bar (omnibox) suggestion settings.
+ */
+export const OMNIBOX = {
+  /** Most history, bookmark and tab suggestions shown */
+  MAX_SUGGESTIONS: 6,
+  /** Most search engine suggestions shown */
+  MAX_SEARCH_SUGGESTIONS: 4,
+  /** Wait after the last keystroke before asking the search engine (ms) */
+  FETCH_DELAY: 150,
+} as const;
+
+// =============================================================================
+// COMPARISON MODE
+// =============================================================================
+
+/**
+ * Maximum number of devices shown side by side.
+ */
+export const MAX_COMPARISON_DEVICES = 4;
+
+/**
+ * Devices shown the first time comparison mode is opened.
+ */
+export const DEFAULT_COMPARISON_DEVICES = ['iphone-se', 'iphone-15', 'iphone-15-pro-max'] as const;
+
+// =============================================================================
+// REWRITING PROXY
+// =============================================================================
+
+/**
+ * Rewriting proxy settings, shared by the client and the proxy server.
+ * Proxied URLs take the form `PATH/<profile>/<scheme>/<host>/<network>/<path>`.
+ */
+export const PROXY = {
+  /** Path prefix handled by the proxy */
+  PATH: '/__proxy',
+  /** Health check endpoint used to detect the proxy */
+  HEALTH_PATH: '/__proxy/health',
+  /** Interval between chunks of a throttled response (ms) */
+  THROTTLE_INTERVAL: 100,
+  /** Profile used when no user agent is selected */
+  DEFAULT_PROFILE: 'default',
+  /** Port for the standalone proxy server */
+  STANDALONE_PORT: 8787,
+} as const;
+
+// =============================================================================
+// SCREENSHOTS
+// =============================================================================
+
+/**
+ * Screenshot capture settings.
+ */
+export const SCREENSHOT = {
+  /** Tallest full-page capture in CSS pixels (canvas size limits apply beyond this) */
+  MAX_PAGE_HEIGHT: 16384,
+  /** Wait after each scroll step so lazy content can render (ms) */
+  SCROLL_SETTLE_DELAY: 150,
+} as const;
+
+// =============================================================================
+// TOUCH EMULATION
+// =============================================================================
+
+/**
+ * Mouse-to-touch conversion settings.
+ */
+export const TOUCH_EMULATION = {
+  /** Movement allowed before a touch stops counting as a tap (CSS px) */
+  TAP_SLOP: 10,
+  /** Hold time before a still touch becomes a long press (ms) */
+  LONG_PRESS_DELAY: 500,
+  /** Reported touch radius (CSS px), roughly a fingertip */
+  TOUCH_RADIUS: 11.5,
+  /** Distance between the fingers of a two-finger scroll (CSS px) */
+  TWO_FINGER_SPACING: 40,
+  /** Momentum retained per frame after a flick */
+  MOMENTUM_DECAY: 0.95,
+} as const;
+
+// =============================================================================
+// HARDWARE BUTTONS
+// =============================================================================
+
+/**
+ * Volume, lock screen and button feedback settings.
+ */
+export const HARDWARE_BUTTONS = {
+  /** Steps between silent and full volume, as on iOS */
+  VOLUME_STEPS: 16,
+  /** Volume when the emulator starts (0 to 1) */
+  DEFAULT_VOLUME: 0.5,
+  /** How long the volume HUD or Silent Mode banner stays up (ms) */
+  HUD_DURATION: 1500,
+} as const;
+
+// =============================================================================
+// LIVE ACTIVITIES
+// =============================================================================
+
+/**
+ * Dynamic Island Live Activity layout and timing.
+ */
+export const LIVE_ACTIVITY = {
+  /** Width of the compact leading and trailing areas beside the island */
+  COMPACT_SIDE_WIDTH: 44,
+  /** Gap between the island and the minimal bubble */
+  MINIMAL_GAP: 8,
+  /** Expanded island margin from the screen edges */
+  EXPANDED_MARGIN: 11,
+  /** Expanded island height */
+  EXPANDED_HEIGHT: 160,
+  /** Expanded island corner radius */
+  EXPANDED_RADIUS: 44,
+  /** How long an expand command shows the expanded island (ms) */
+  EXPAND_DURATION: 4000,
+  /** Pause before a looping timeline starts again (ms) */
+  TIMELINE_LOOP_DELAY: 2000,
+  /** Activities kept at once; the island shows the first two */
+  MAX_ACTIVITIES: 4,
+} as const;
+
+// =============================================================================
+// VIRTUAL KEYBOARD
+// =============================================================================
+
+/**
+ * On-screen iOS keyboard dimensions (CSS px).
+ */
+export const KEYBOARD = {
+  /** Bar above the keyboard with the field arrows and Done */
+  ACCESSORY_BAR_HEIGHT: 44,
+  /** Predictive text bar above the letter keyboards */
+  PREDICTIVE_BAR_HEIGHT: 45,
+  /** Keys on iPhone in portrait */
+  KEYS_HEIGHT: 216,
+  /** Keys on iPhone in landscape */
+  LANDSCAPE_KEYS_HEIGHT: 162,
+  /** Keys on iPad in portrait */
+  PAD_KEYS_HEIGHT: 265,
+  /** Keys on iPad in landscape */
+  PAD_LANDSCAPE_KEYS_HEIGHT: 353,
+  /** Row with the emoji and dictation buttons below the keys on Face ID iPhones */
+  BOTTOM_BAR_HEIGHT: 41,
+  /** Space left between a focused field and the keyboard */
+  FIELD_MARGIN: 8,
+} as const;
+
+
+// =============================================================================
+
+/**
+ * Screen recording settings.
+ */
+export const RECORDING = {
+  /** Selectable frame rates */
+  FPS_OPTIONS: [10, 15, 30, 60],
+  /** Default frame rate */
+  DEFAULT_FPS: 30,
+  /** Highest GIF frame rate (GIF delays are in hundredths of a second) */
+  GIF_MAX_FPS: 15,
+  /** Widest GIF frame in pixels, to keep files and memory use small */
+  GIF_MAX_WIDTH: 360,
+  /** WebM video bitrate in bits per second */
+  VIDEO_BITRATE: 5000000,
+  /** Touch indicator radius in CSS pixels */
+  TOUCH_RADIUS: 18,
+  /** Touch indicator fade-out after release (ms) */
+  TOUCH_FADE_DURATION: 300,
+} as const;
+
 // =============================================================================
 // ANIMATIONS
 // =============================================================================
@@ -399,4 +682,6 @@ export const SHORTCUTS = {
   DEVICE_SELECTOR: 'Mod+D',
   /** Toggle theme */
   TOGGLE_THEME: 'Mod+Shift+T',
+  /** Show history */
+  HISTORY: 'Mod+Y',
 } as const;
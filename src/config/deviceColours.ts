@@ -0,0 +1,274 @@
+/**
+ * Device Finishes
+ *
+ * Colour variants and frame materials for rendering the device housing.
+ * Kept apart from the device catalogue so the catalogue schema can check
+ * finish IDs.
+ *
+ * @module config/deviceColours
+ */
+
+import type { DeviceMaterial, DeviceModel } from '../types';
+
+/**
+ * Device colour variants for bezel rendering, covering the finishes the
+ * catalogue models shipped in. Gradients suggest the housing colour; the
+ * button colour is used for the side buttons and the ring colour for the
+ * Camera Control surround and the iPad camera ring.
+ */
+export const DEVICE_COLOURS = {
+  'space-black': {
+    name: 'Space Black',
+    swatch: '#2e2c2e',
+    bezelGradient: 'linear-gradient(135deg, #1d1d1f 0%, #2d2d2f 50%, #1d1d1f 100%)',
+    buttonColour: '#3d3d3f',
+    ringColour: '#2d2d2f',
+  },
+  'silver': {
+    name: 'Silver',
+    swatch: '#e3e4e5',
+    bezelGradient: 'linear-gradient(135deg, #e3e3e8 0%, #f5f5f7 50%, #e3e3e8 100%)',
+    buttonColour: '#d1d1d6',
+    ringColour: '#c7c7cc',
+  },
+  'gold': {
+    name: 'Gold',
+    swatch: '#f4e8ce',
+    bezelGradient: 'linear-gradient(135deg, #f5e6d3 0%, #fdf8f3 50%, #f5e6d3 100%)',
+    buttonColour: '#e5d4c3',
+    ringColour: '#d9c3a8',
+  },
+  'deep-purple': {
+    name: 'Deep Purple',
+    swatch: '#594f63',
+    bezelGradient: 'linear-gradient(135deg, #4d4255 0%, #5d526a 50%, #4d4255 100%)',
+    buttonColour: '#5d526a',
+    ringColour: '#453a4d',
+  },
+  'blue': {
+    name: 'Blue',
+    swatch: '#a7c1d9',
+    bezelGradient: 'linear-gradient(135deg, #a7c1d9 0%, #b8d0e6 50%, #a7c1d9 100%)',
+    buttonColour: '#97b1c9',
+    ringColour: '#8aa5be',
+  },
+  'natural-titanium': {
+    name: 'Natural Titanium',
+    swatch: '#bab4a9',
+    bezelGradient: 'linear-gradient(135deg, #9a9a9c 0%, #b8b8ba 50%, #9a9a9c 100%)',
+    buttonColour: '#8a8a8c',
+    ringColour: '#8a8a8c',
+  },
+  'blue-titanium': {
+    name: 'Blue Titanium',
+    swatch: '#3f4a58',
+    bezelGradient: 'linear-gradient(135deg, #3d4753 0%, #4d5763 50%, #3d4753 100%)',
+    buttonColour: '#4d5763',
+    ringColour: '#3d4753',
+  },
+  'white-titanium': {
+    name: 'White Titanium',
+    swatch: '#f2f1ed',
+    bezelGradient: 'linear-gradient(135deg, #f0f0f2 0%, #fafafa 50%, #f0f0f2 100%)',
+    buttonColour: '#e0e0e2',
+    ringColour: '#d6d6d8',
+  },
+  'black-titanium': {
+    name: 'Black Titanium',
+    swatch: '#3c3c3d',
+    bezelGradient: 'linear-gradient(135deg, #1f1f21 0%, #2f2f31 50%, #1f1f21 100%)',
+    buttonColour: '#3f3f41',
+    ringColour: '#2f2f31',
+  },
+  'desert-titanium': {
+    name: 'Desert Titanium',
+    swatch: '#bfa48f',
+    bezelGradient: 'linear-gradient(135deg, #b89f8a 0%, #cdb7a3 50%, #b89f8a 100%)',
+    buttonColour: '#a8907c',
+    ringColour: '#9c8571',
+  },
+  'graphite': {
+    name: 'Graphite',
+    swatch: '#54524f',
+    bezelGradient: 'linear-gradient(135deg, #4a4845 0%, #5c5a57 50%, #4a4845 100%)',
+    buttonColour: '#5c5a57',
+    ringColour: '#43413e',
+  },
+  'sierra-blue': {
+    name: 'Sierra Blue',
+    swatch: '#a7c1d9',
+    bezelGradient: 'linear-gradient(135deg, #9bb5ce 0%, #b1c8de 50%, #9bb5ce 100%)',
+    buttonColour: '#8ea8c1',
+    ringColour: '#819bb4',
+  },
+  'alpine-green': {
+    name: 'Alpine Green',
+    swatch: '#576856',
+    bezelGradient: 'linear-gradient(135deg, #4d5e4c 0%, #5f705e 50%, #4d5e4c 100%)',
+    buttonColour: '#5f705e',
+    ringColour: '#465645',
+  },
+  'black': {
+    name: 'Black',
+    swatch: '#2f3033',
+    bezelGradient: 'linear-gradient(135deg, #232426 0%, #35363a 50%, #232426 100%)',
+    buttonColour: '#3a3b3e',
+    ringColour: '#2a2b2d',
+  },
+  'white': {
+    name: 'White',
+    swatch: '#f5f5f0',
+    bezelGradient: 'linear-gradient(135deg, #eeeee9 0%, #fafaf7 50%, #eeeee9 100%)',
+    buttonColour: '#e2e2dc',
+    ringColour: '#d8d8d2',
+  },
+  'midnight': {
+    name: 'Midnight',
+    swatch: '#232a31',
+    bezelGradient: 'linear-gradient(135deg, #1e242c 0%, #2e3641 50%, #1e242c 100%)',
+    buttonColour: '#343c46',
+    ringColour: '#252c35',
+  },
+  'starlight': {
+    name: 'Starlight',
+    swatch: '#f0e8df',
+    bezelGradient: 'linear-gradient(135deg, #ece6dd 0%, #f8f4ee 50%, #ece6dd 100%)',
+    buttonColour: '#ddd6cb',
+    ringColour: '#d2cabf',
+  },
+  'product-red': {
+    name: '(PRODUCT)RED',
+    swatch: '#bf0013',
+    bezelGradient: 'linear-gradient(135deg, #a50011 0%, #c8001a 50%, #a50011 100%)',
+    buttonColour: '#b3001b',
+    ringColour: '#96000f',
+  },
+  'pink': {
+    name: 'Pink',
+    swatch: '#f4d6d8',
+    bezelGradient: 'linear-gradient(135deg, #f1d4d6 0%, #fbe7e8 50%, #f1d4d6 100%)',
+    buttonColour: '#e8c6c9',
+    ringColour: '#dcb8bb',
+  },
+  'purple': {
+    name: 'Purple',
+    swatch: '#dcd2e8',
+    bezelGradient: 'linear-gradient(135deg, #d3c8e0 0%, #e6dcf1 50%, #d3c8e0 100%)',
+    buttonColour: '#c7bbd6',
+    ringColour: '#b9adc9',
+  },
+  'green': {
+    name: 'Green',
+    swatch: '#cad4c5',
+    bezelGradient: 'linear-gradient(135deg, #c4d0bf 0%, #d9e3d5 50%, #c4d0bf 100%)',
+    buttonColour: '#b8c5b3',
+    ringColour: '#aab8a5',
+  },
+  'yellow': {
+    name: 'Yellow',
+    swatch: '#f6e8a6',
+    bezelGradient: 'linear-gradient(135deg, #f2e2a4 0%, #faefc6 50%, #f2e2a4 100%)',
+    buttonColour: '#e8d795',
+    ringColour: '#dccb87',
+  },
+  'teal': {
+    name: 'Teal',
+    swatch: '#b0d4d2',
+    bezelGradient: 'linear-gradient(135deg, #a3c9c6 0%, #bcdcd9 50%, #a3c9c6 100%)',
+    buttonColour: '#97bdba',
+    ringColour: '#8ab1ae',
+  },
+  'ultramarine': {
+    name: 'Ultramarine',
+    swatch: '#9aadf6',
+    bezelGradient: 'linear-gradient(135deg, #8a9ef0 0%, #a6b6f8 50%, #8a9ef0 100%)',
+    buttonColour: '#7e92e4',
+    ringColour: '#7084d6',
+  },
+  'space-grey': {
+    name: 'Space Grey',
+    swatch: '#7d7e80',
+    bezelGradient: 'linear-gradient(135deg, #6e6f71 0%, #8a8b8d 50%, #6e6f71 100%)',
+    buttonColour: '#7d7e80',
+    ringColour: '#646567',
+  },
+} as const;
+
+export type DeviceColourId = keyof typeof DEVICE_COLOURS;
+
+/**
+ * Default colour for new devices.
+ */
+export const DEFAULT_COLOUR: DeviceColourId = 'space-black';
+
+/**
+ * Check whether a string names a known finish.
+ */
+export function isDeviceColourId(id: string): id is DeviceColourId {
+  return Object.prototype.hasOwnProperty.call(DEVICE_COLOURS, id);
+}
+
+/**
+ * Get colour configuration by ID.
+ */
+export function getDeviceColour(colourId: DeviceColourId) {
+  return DEVICE_COLOURS[colourId] ?? DEVICE_COLOURS[DEFAULT_COLOUR];
+}
+
+/**
+ * Finishes a device is offered in, in the catalogue's order. Devices
+ * without a list (such as custom devices) are offered every finish.
+ */
+export function getDeviceColourIds(device: DeviceModel): DeviceColourId[] {
+  const colours = (device.colours ?? []).filter(isDeviceColourId);
+  return colours.length > 0 ? colours : (Object.keys(DEVICE_COLOURS) as DeviceColourId[]);
+}
+
+/**
+ * Resolve a preferred finish against a device: the preference if the
+ * device shipped in it, otherwise the device's first finish.
+ */
+export function resolveDeviceColourId(device: DeviceModel, colourId: DeviceColourId): DeviceColourId {
+  const colours = getDeviceColourIds(device);
+  return colours.includes(colourId) ? colourId : colours[0] ?? DEFAULT_COLOUR;
+}
+
+// ============================================================================
+// Frame Materials
+// ============================================================================
+
+/**
+ * Lighting for each frame material. `highlight` is layered over the
+ * bezel and `buttonHighlight` lights the top edge of the buttons:
+ * polished stainless steel catches bright reflections, brushed titanium
+ * stays matte and anodised aluminium has a soft satin sheen.
+ */
+export const DEVICE_MATERIALS: Record<DeviceMaterial, { name: string; highlight: string; buttonHighlight: string }> = {
+  'aluminium': {
+    name: 'Aluminium',
+    highlight: 'linear-gradient(135deg, rgba(255, 255, 255, 0.08) 0%, transparent 50%, rgba(0, 0, 0, 0.05) 100%)',
+    buttonHighlight: 'rgba(255, 255, 255, 0.15)',
+  },
+  'stainless-steel': {
+    name: 'Stainless Steel',
+    highlight: 'linear-gradient(135deg, rgba(255, 255, 255, 0.24) 0%, rgba(255, 255, 255, 0.04) 28%, transparent 50%, rgba(255, 255, 255, 0.1) 76%, rgba(0, 0, 0, 0.08) 100%)',
+    buttonHighlight: 'rgba(255, 255, 255, 0.4)',
+  },
+  'titanium': {
+    name: 'Titanium',
+    highlight: 'repeating-linear-gradient(90deg, rgba(255, 255, 255, 0.02) 0 1px, transparent 1px 3px), linear-gradient(135deg, rgba(255, 255, 255, 0.05) 0%, transparent 45%, rgba(0, 0, 0, 0.06) 100%)',
+    buttonHighlight: 'rgba(255, 255, 255, 0.08)',
+  },
+};
+
+/**
+ * Material for devices that do not specify one.
+ */
+export const DEFAULT_MATERIAL: DeviceMaterial = 'aluminium';
+
+/**
+ * Get the frame material lighting for a device.
+ */
+export function getDeviceMaterial(device: DeviceModel) {
+  return DEVICE_MATERIALS[device.material ?? DEFAULT_MATERIAL];
+}
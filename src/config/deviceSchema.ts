@@ -0,0 +1,187 @@
+/**
+ * Device Model Schema
+ *
+ * Validates device models, both the preset catalogue in devices.json,
+ * which is checked when it loads, and user-defined profiles from storage
+ * or imported files.
+ *
+ * @module config/deviceSchema
+ */
+
+import type { DeviceFamily, DeviceMaterial, DeviceModel, NotchType, SafeAreaInsets } from '../types';
+import { DEVICE_MATERIALS, isDeviceColourId } from './deviceColours';
+
+/**
+ * Schema version of devices.json understood by this build.
+ */
+export const DEVICE_CATALOGUE_VERSION = 1;
+
+/**
+ * Known device families.
+ */
+export const DEVICE_FAMILIES: readonly DeviceFamily[] = ['iphone', 'ipad', 'ipod'];
+
+/**
+ * Known screen cutouts.
+ */
+export const NOTCH_TYPES: readonly NotchType[] = ['dynamic-island', 'notch', 'none'];
+
+/**
+ * Accepted ranges for device profile measurements. Screen sizes are in
+ * CSS pixels; generous enough for iPads and pre-release sizes.
+ */
+export const DEVICE_PROFILE_LIMITS = {
+  screenWidth: { min: 240, max: 1400 },
+  screenHeight: { min: 240, max: 1400 },
+  devicePixelRatio: { min: 1, max: 4 },
+  bezelRadius: { min: 0, max: 80 },
+  safeAreaInset: { min: 0, max: 120 },
+  launchIOSVersion: { min: 12, max: 30 },
+} as const;
+
+const INSET_SIDES: (keyof SafeAreaInsets)[] = ['top', 'bottom', 'left', 'right'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isInRange(value: number, range: { min: number; max: number }): boolean {
+  return Number.isFinite(value) && value >= range.min && value <= range.max;
+}
+
+/**
+ * Problems with a device profile, as messages for the editor. An empty
+ * list means the profile can be used.
+ */
+export function getDeviceModelErrors(model: DeviceModel): string[] {
+  const errors: string[] = [];
+  const limits = DEVICE_PROFILE_LIMITS;
+
+  if (!model.name.trim()) {
+    errors.push('Enter a name.');
+  }
+  if (!DEVICE_FAMILIES.includes(model.family)) {
+    errors.push('Choose a device family.');
+  }
+  if (!isInRange(model.screenWidth, limits.screenWidth) || !isInRange(model.screenHeight, limits.screenHeight)) {
+    errors.push(`Screen size must be between ${limits.screenWidth.min} and ${limits.screenWidth.max} points.`);
+  } else if (model.screenWidth > model.screenHeight) {
+    errors.push('Enter the screen size in portrait (width no greater than height).');
+  }
+  if (!isInRange(model.devicePixelRatio, limits.devicePixelRatio)) {
+    errors.push(`Pixel ratio must be between ${limits.devicePixelRatio.min} and ${limits.devicePixelRatio.max}.`);
+  }
+  if (!isInRange(model.bezelRadius, limits.bezelRadius)) {
+    errors.push(`Corner radius must be between ${limits.bezelRadius.min} and ${limits.bezelRadius.max}.`);
+  }
+  if (!NOTCH_TYPES.includes(model.notchType)) {
+    errors.push('Choose a screen cutout.');
+  }
+  if (model.material !== undefined && !Object.prototype.hasOwnProperty.call(DEVICE_MATERIALS, model.material)) {
+    errors.push('Choose a frame material.');
+  }
+  if (INSET_SIDES.some((side) => !isInRange(model.safeAreaInsets[side], limits.safeAreaInset))) {
+    errors.push(`Safe area insets must be between ${limits.safeAreaInset.min} and ${limits.safeAreaInset.max}.`);
+  }
+  if (
+    model.launchIOSVersion !== undefined &&
+    (!Number.isInteger(model.launchIOSVersion) || !isInRange(model.launchIOSVersion, limits.launchIOSVersion))
+  ) {
+    errors.push(`Launch iOS version must be between ${limits.launchIOSVersion.min} and ${limits.launchIOSVersion.max}.`);
+  }
+
+  return errors;
+}
+
+/**
+ * Read a device model from untrusted data, such as an imported file.
+ * Unknown finishes are dropped, and profiles saved before device
+ * families existed are treated as iPhones.
+ *
+ * @returns The model, or null if it is incomplete or invalid
+ */
+export function parseDeviceModel(data: unknown): DeviceModel | null {
+  if (!isRecord(data) || !isRecord(data['safeAreaInsets'])) return null;
+
+  const insets = data['safeAreaInsets'];
+  const numbers = [
+    data['screenWidth'],
+    data['screenHeight'],
+    data['devicePixelRatio'],
+    data['bezelRadius'],
+    ...INSET_SIDES.map((side) => insets[side]),
+  ];
+  if (
+    typeof data['id'] !== 'string' ||
+    typeof data['name'] !== 'string' ||
+    typeof data['notchType'] !== 'string' ||
+    typeof data['hasHomeButton'] !== 'boolean' ||
+    (data['family'] !== undefined && typeof data['family'] !== 'string') ||
+    (data['material'] !== undefined && typeof data['material'] !== 'string') ||
+    numbers.some((value) => typeof value !== 'number')
+  ) {
+    return null;
+  }
+
+  const colours = Array.isArray(data['colours'])
+    ? data['colours'].filter((id): id is string => typeof id === 'string' && isDeviceColourId(id))
+    : [];
+
+  const model: DeviceModel = {
+    id: data['id'],
+    family: (data['family'] ?? 'iphone') as DeviceFamily,
+    name: data['name'].trim(),
+    screenWidth: data['screenWidth'] as number,
+    screenHeight: data['screenHeight'] as number,
+    devicePixelRatio: data['devicePixelRatio'] as number,
+    bezelRadius: data['bezelRadius'] as number,
+    notchType: data['notchType'] as NotchType,
+    hasHomeButton: data['hasHomeButton'],
+    safeAreaInsets: {
+      top: insets['top'] as number,
+      bottom: insets['bottom'] as number,
+      left: insets['left'] as number,
+      right: insets['right'] as number,
+    },
+    ...(data['hasCameraControl'] === true ? { hasCameraControl: true } : {}),
+    ...(data['hasActionButton'] === true ? { hasActionButton: true } : {}),
+    ...(typeof data['launchIOSVersion'] === 'number' ? { launchIOSVersion: data['launchIOSVersion'] } : {}),
+    ...(colours.length > 0 ? { colours } : {}),
+    ...(data['material'] !== undefined ? { material: data['material'] as DeviceMaterial } : {}),
+  };
+
+  return getDeviceModelErrors(model).length === 0 ? model : null;
+}
+
+/**
+ * Validate the preset catalogue. A catalogue that fails validation is a
+ * build error rather than something to recover from, so this throws.
+ *
+ * @throws Error naming the version mismatch or the first invalid entry
+ * @returns The preset device models, in display order
+ */
+export function loadDeviceCatalogue(data: unknown): DeviceModel[] {
+  if (!isRecord(data) || data['version'] !== DEVICE_CATALOGUE_VERSION || !Array.isArray(data['devices'])) {
+    const version = isRecord(data) ? String(data['version']) : 'unknown';
+    throw new Error(`Device catalogue version ${version} is not supported (expected ${DEVICE_CATALOGUE_VERSION}).`);
+  }
+
+  const ids = new Set<string>();
+  return data['devices'].map((entry, index) => {
+    const device = parseDeviceModel(entry);
+    const label = isRecord(entry) && typeof entry['id'] === 'string' ? `"${entry['id']}"` : `at index ${index}`;
+
+    if (!device || !isRecord(entry) || !DEVICE_FAMILIES.includes(entry['family'] as DeviceFamily)) {
+      throw new Error(`Device catalogue entry ${label} is invalid.`);
+    }
+    if (Array.isArray(entry['colours']) && entry['colours'].length !== (device.colours ?? []).length) {
+      throw new Error(`Device catalogue entry ${label} lists an unknown finish.`);
+    }
+    if (ids.has(device.id)) {
+      throw new Error(`Device catalogue entry ${label} is listed twice.`);
+    }
+
+    ids.add(device.id);
+    return device;
+  });
+}
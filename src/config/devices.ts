@@ -1,304 +1,140 @@
 /**
- * iPhone Device Model Configurations
+ * Device Model Configurations
  *
- * Contains accurate specifications for each supported iPhone model.
- * Dimensions are in CSS pixels (logical pixels).
+ * Builds the device catalogue from the versioned data file devices.json,
+ * which is validated when it loads, and holds the rendering constants
+ * for each kind of device. Dimensions are in CSS pixels (logical pixels).
  *
  * @module config/devices
  */
 
-import type { DeviceModel, DeviceOption } from '../types';
+import { shallowReactive } from 'vue';
+import type { ActionButtonAction, DeviceFamily, DeviceModel, DeviceOption, SafeAreaInsets } from '../types';
+import { loadDeviceCatalogue } from './deviceSchema';
+import catalogue from './devices.json';
 
-/**
- * iPhone 15 Pro Max - Largest current iPhone
- *
- * Features: Dynamic Island, ProMotion 120Hz display, titanium frame
- * Released: September 2023
- */
-export const iPhone15ProMax: DeviceModel = {
-  id: 'iphone-15-pro-max',
-  name: 'iPhone 15 Pro Max',
-  screenWidth: 430,
-  screenHeight: 932,
-  devicePixelRatio: 3,
-  bezelRadius: 55,
-  notchType: 'dynamic-island',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 59, bottom: 34, left: 0, right: 0 },
-};
-
-/**
- * iPhone 15 Pro - Flagship model (default)
- *
- * Features: Dynamic Island, ProMotion 120Hz display, titanium frame
- * Released: September 2023
- */
-export const iPhone15Pro: DeviceModel = {
-  id: 'iphone-15-pro',
-  name: 'iPhone 15 Pro',
-  screenWidth: 393,
-  screenHeight: 852,
-  devicePixelRatio: 3,
-  bezelRadius: 55,
-  notchType: 'dynamic-island',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 59, bottom: 34, left: 0, right: 0 },
-};
+export * from './deviceColours';
 
 /**
- * iPhone 15 Plus - Larger standard model
- *
- * Features: Dynamic Island, Super Retina XDR display
- * Released: September 2023
- */
-export const iPhone15Plus: DeviceModel = {
-  id: 'iphone-15-plus',
-  name: 'iPhone 15 Plus',
-  screenWidth: 430,
-  screenHeight: 932,
-  devicePixelRatio: 3,
-  bezelRadius: 55,
-  notchType: 'dynamic-island',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 59, bottom: 34, left: 0, right: 0 },
-};
+ * All preset device models, grouped by family and ordered by release
+ * date (newest first) within each family.
+ */
+export const deviceModels: DeviceModel[] = loadDeviceCatalogue(catalogue);
 
 /**
- * iPhone 15 - Standard model
- *
- * Features: Dynamic Island, Super Retina XDR display
- * Released: September 2023
- */
-export const iPhone15: DeviceModel = {
-  id: 'iphone-15',
-  name: 'iPhone 15',
-  screenWidth: 393,
-  screenHeight: 852,
-  devicePixelRatio: 3,
-  bezelRadius: 55,
-  notchType: 'dynamic-island',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 59, bottom: 34, left: 0, right: 0 },
-};
+ * Device lookup map for quick access by ID, including any registered
+ * custom devices. Shallowly reactive, so lookups in computed properties
+ * update when custom devices change.
+ */
+export const deviceModelMap: Map<string, DeviceModel> = shallowReactive(new Map(
+  deviceModels.map((device) => [device.id, device])
+));
 
 /**
- * iPhone 14 Pro Max - Previous generation flagship
- *
- * Features: Dynamic Island, ProMotion 120Hz display
- * Released: September 2022
- */
-export const iPhone14ProMax: DeviceModel = {
-  id: 'iphone-14-pro-max',
-  name: 'iPhone 14 Pro Max',
-  screenWidth: 430,
-  screenHeight: 932,
-  devicePixelRatio: 3,
-  bezelRadius: 55,
-  notchType: 'dynamic-island',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 59, bottom: 34, left: 0, right: 0 },
-};
+ * ID of the default device (iPhone 15 Pro).
+ */
+export const DEFAULT_DEVICE_ID = 'iphone-15-pro';
 
 /**
- * iPhone 14 Pro - Previous generation Pro
- *
- * Features: First iPhone with Dynamic Island
- * Released: September 2022
- */
-export const iPhone14Pro: DeviceModel = {
-  id: 'iphone-14-pro',
-  name: 'iPhone 14 Pro',
-  screenWidth: 393,
-  screenHeight: 852,
-  devicePixelRatio: 3,
-  bezelRadius: 55,
-  notchType: 'dynamic-island',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 59, bottom: 34, left: 0, right: 0 },
-};
+ * Default device model for initial state.
+ */
+export const defaultDevice: DeviceModel = deviceModels.find((device) => device.id === DEFAULT_DEVICE_ID) ?? deviceModels[0];
 
 /**
- * iPhone 14 Plus - Larger standard model with notch
+ * Get a device model by ID, with fallback to default.
  *
- * Features: Traditional notch, 6.7" display
- * Released: September 2022
- */
-export const iPhone14Plus: DeviceModel = {
-  id: 'iphone-14-plus',
-  name: 'iPhone 14 Plus',
-  screenWidth: 428,
-  screenHeight: 926,
-  devicePixelRatio: 3,
-  bezelRadius: 47.33,
-  notchType: 'notch',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 47, bottom: 34, left: 0, right: 0 },
-};
+ * @param id - Device identifier (e.g., 'iphone-15-pro')
+ * @returns The device model or the default device if not found
+ */
+export function getDeviceById(id: string): DeviceModel {
+  return deviceModelMap.get(id) ?? defaultDevice;
+}
 
 /**
- * iPhone 14 - Standard model with notch
+ * Check if a device ID is valid.
  *
- * Features: Traditional notch design, A15 Bionic chip
- * Released: September 2022
- */
-export const iPhone14: DeviceModel = {
-  id: 'iphone-14',
-  name: 'iPhone 14',
-  screenWidth: 390,
-  screenHeight: 844,
-  devicePixelRatio: 3,
-  bezelRadius: 47.33,
-  notchType: 'notch',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 47, bottom: 34, left: 0, right: 0 },
-};
+ * @param id - Device identifier to check
+ * @returns True if the device exists in the presets or custom devices
+ */
+export function isValidDeviceId(id: string): boolean {
+  return deviceModelMap.has(id);
+}
 
 /**
- * iPhone 13 Pro Max - Older Pro Max model
- *
- * Features: Traditional notch, ProMotion display
- * Released: September 2021
- */
-export const iPhone13ProMax: DeviceModel = {
-  id: 'iphone-13-pro-max',
-  name: 'iPhone 13 Pro Max',
-  screenWidth: 428,
-  screenHeight: 926,
-  devicePixelRatio: 3,
-  bezelRadius: 47.33,
-  notchType: 'notch',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 47, bottom: 34, left: 0, right: 0 },
+ * Selector group labels for each device family.
+ */
+export const DEVICE_FAMILY_LABELS: Record<DeviceFamily, string> = {
+  iphone: 'iPhone',
+  ipad: 'iPad',
+  ipod: 'iPod touch',
 };
 
 /**
- * iPhone 13 - Previous generation standard
- *
- * Features: Smaller notch than iPhone 12, A15 Bionic
- * Released: September 2021
- */
-export const iPhone13: DeviceModel = {
-  id: 'iphone-13',
-  name: 'iPhone 13',
-  screenWidth: 390,
-  screenHeight: 844,
-  devicePixelRatio: 3,
-  bezelRadius: 47.33,
-  notchType: 'notch',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 47, bottom: 34, left: 0, right: 0 },
-};
+ * Selector group for user-defined devices.
+ */
+export const CUSTOM_DEVICE_GROUP = 'Custom';
 
 /**
- * iPhone 12 - First flat-edge modern iPhone
- *
- * Features: Ceramic Shield front, 5G support
- * Released: October 2020
- */
-export const iPhone12: DeviceModel = {
-  id: 'iphone-12',
-  name: 'iPhone 12',
-  screenWidth: 390,
-  screenHeight: 844,
-  devicePixelRatio: 3,
-  bezelRadius: 47.33,
-  notchType: 'notch',
-  hasHomeButton: false,
-  safeAreaInsets: { top: 47, bottom: 34, left: 0, right: 0 },
-};
+ * Prefix for user-defined device IDs, keeping them apart from the presets.
+ */
+export const CUSTOM_DEVICE_ID_PREFIX = 'custom-';
 
 /**
- * iPhone SE (3rd generation) - Compact model with home button
- *
- * Features: Touch ID, A15 Bionic chip, classic design
- * Released: March 2022
- */
-export const iPhoneSE: DeviceModel = {
-  id: 'iphone-se',
-  name: 'iPhone SE',
-  screenWidth: 375,
-  screenHeight: 667,
-  devicePixelRatio: 2,
-  bezelRadius: 0,
-  notchType: 'none',
-  hasHomeButton: true,
-  safeAreaInsets: { top: 20, bottom: 0, left: 0, right: 0 },
-};
+ * Selector option for a device, grouped by family, or under
+ * CUSTOM_DEVICE_GROUP for user-defined devices.
+ */
+function toDeviceOption(device: DeviceModel): DeviceOption {
+  return {
+    value: device.id,
+    label: `${device.name} (${device.screenWidth} x ${device.screenHeight})`,
+    group: isCustomDeviceId(device.id) ? CUSTOM_DEVICE_GROUP : DEVICE_FAMILY_LABELS[device.family],
+  };
+}
 
 /**
- * All available device models, ordered by release date (newest first).
+ * Device options for selector dropdown, grouped by family, followed by
+ * any registered custom devices.
  */
-export const deviceModels: DeviceModel[] = [
-  // iPhone 15 series
-  iPhone15ProMax,
-  iPhone15Pro,
-  iPhone15Plus,
-  iPhone15,
-  // iPhone 14 series
-  iPhone14ProMax,
-  iPhone14Pro,
-  iPhone14Plus,
-  iPhone14,
-  // iPhone 13 series
-  iPhone13ProMax,
-  iPhone13,
-  // Older models
-  iPhone12,
-  iPhoneSE,
-];
+export const deviceOptions: DeviceOption[] = shallowReactive(deviceModels.map(toDeviceOption));
 
 /**
- * Device lookup map for quick access by ID.
+ * IDs of the custom devices currently registered.
  */
-export const deviceModelMap: Map<string, DeviceModel> = new Map(
-  deviceModels.map((device) => [device.id, device])
-);
+const customDeviceIds = new Set<string>();
 
 /**
- * Get a device model by ID, with fallback to default.
- *
- * @param id - Device identifier (e.g., 'iphone-15-pro')
- * @returns The device model or iPhone15Pro if not found
+ * Check if a device ID belongs to a user-defined device.
  */
-export function getDeviceById(id: string): DeviceModel {
-  return deviceModelMap.get(id) ?? iPhone15Pro;
+export function isCustomDeviceId(id: string): boolean {
+  return id.startsWith(CUSTOM_DEVICE_ID_PREFIX);
 }
 
 /**
- * Check if a device ID is valid.
+ * Replace the registered custom devices, making them available to
+ * getDeviceById() and the device selectors. Devices whose IDs lack the
+ * custom prefix are ignored so presets cannot be overridden.
  *
- * @param id - Device identifier to check
- * @returns True if the device exists in the presets
+ * @param devices - Every custom device, in display order
  */
-export function isValidDeviceId(id: string): boolean {
-  return deviceModelMap.has(id);
-}
+export function registerCustomDevices(devices: DeviceModel[]): void {
+  for (const id of customDeviceIds) {
+    deviceModelMap.delete(id);
+  }
+  for (let i = deviceOptions.length - 1; i >= 0; i--) {
+    if (customDeviceIds.has(deviceOptions[i].value)) {
+      deviceOptions.splice(i, 1);
+    }
+  }
+  customDeviceIds.clear();
 
-/**
- * Default device model for initial state.
- */
-export const defaultDevice: DeviceModel = iPhone15Pro;
+  for (const device of devices) {
+    if (!isCustomDeviceId(device.id) || customDeviceIds.has(device.id)) continue;
 
-/**
- * Device options for selector dropdown, grouped by generation.
- */
-export const deviceOptions: DeviceOption[] = [
-  // iPhone 15 series
-  { value: 'iphone-15-pro-max', label: 'iPhone 15 Pro Max (430 x 932)', group: 'iPhone 15' },
-  { value: 'iphone-15-pro', label: 'iPhone 15 Pro (393 x 852)', group: 'iPhone 15' },
-  { value: 'iphone-15-plus', label: 'iPhone 15 Plus (430 x 932)', group: 'iPhone 15' },
-  { value: 'iphone-15', label: 'iPhone 15 (393 x 852)', group: 'iPhone 15' },
-  // iPhone 14 series
-  { value: 'iphone-14-pro-max', label: 'iPhone 14 Pro Max (430 x 932)', group: 'iPhone 14' },
-  { value: 'iphone-14-pro', label: 'iPhone 14 Pro (393 x 852)', group: 'iPhone 14' },
-  { value: 'iphone-14-plus', label: 'iPhone 14 Plus (428 x 926)', group: 'iPhone 14' },
-  { value: 'iphone-14', label: 'iPhone 14 (390 x 844)', group: 'iPhone 14' },
-  // Older models
-  { value: 'iphone-13-pro-max', label: 'iPhone 13 Pro Max (428 x 926)', group: 'Older Models' },
-  { value: 'iphone-13', label: 'iPhone 13 (390 x 844)', group: 'Older Models' },
-  { value: 'iphone-12', label: 'iPhone 12 (390 x 844)', group: 'Older Models' },
-  { value: 'iphone-se', label: 'iPhone SE (375 x 667)', group: 'Classic' },
-];
+    customDeviceIds.add(device.id);
+    deviceModelMap.set(device.id, device);
+    deviceOptions.push(toDeviceOption(device));
+  }
+}
 
 /**
  * Get device options filtered by notch type.
@@ -336,13 +172,18 @@ export function getGroupedDeviceOptions(): Map<string, DeviceOption[]> {
 
 /**
  * Physical button positions for device bezel rendering.
- * Values represent percentage positions along the device edge.
+ * Values represent percentage positions along the device edge: down the
+ * sides from the top, or along the top edge from the left for the top
+ * button on iPad.
  */
 export interface DeviceButtonPositions {
   power: { top: number; height: number };
   volumeUp: { top: number; height: number };
   volumeDown: { top: number; height: number };
+  /** Silent switch, or the Action button that replaced it */
   silentSwitch: { top: number; height: number };
+  /** Camera Control, below the side button (iPhone 16 and later) */
+  cameraControl: { top: number; height: number };
 }
 
 /**
@@ -353,25 +194,60 @@ export const FACE_ID_BUTTON_POSITIONS: DeviceButtonPositions = {
   volumeUp: { top: 18, height: 5 },
   volumeDown: { top: 25, height: 5 },
   silentSwitch: { top: 12, height: 3 },
+  cameraControl: { top: 55, height: 7 },
 };
 
 /**
- * Button positions for Touch ID devices (iPhone SE).
+ * Button positions for Touch ID devices (iPhone SE, iPod touch).
  */
 export const TOUCH_ID_BUTTON_POSITIONS: DeviceButtonPositions = {
   power: { top: 15, height: 6 },
   volumeUp: { top: 18, height: 5 },
   volumeDown: { top: 25, height: 5 },
   silentSwitch: { top: 10, height: 3 },
+  cameraControl: { top: 0, height: 0 },
+};
+
+/**
+ * Button positions for iPad: the top button sits on the top edge near
+ * the right corner and the volume buttons at the top of the right side.
+ * iPad has no silent switch.
+ */
+export const IPAD_BUTTON_POSITIONS: DeviceButtonPositions = {
+  power: { top: 82, height: 6 },
+  volumeUp: { top: 6, height: 4 },
+  volumeDown: { top: 11, height: 4 },
+  silentSwitch: { top: 0, height: 0 },
+  cameraControl: { top: 0, height: 0 },
 };
 
 /**
  * Get button positions for a device model.
  */
 export function getButtonPositions(device: DeviceModel): DeviceButtonPositions {
+  if (device.family === 'ipad') {
+    return IPAD_BUTTON_POSITIONS;
+  }
   return device.hasHomeButton ? TOUCH_ID_BUTTON_POSITIONS : FACE_ID_BUTTON_POSITIONS;
 }
 
+/**
+ * Action button choices, in the order the selector lists them.
+ */
+export const ACTION_BUTTON_ACTIONS: Record<ActionButtonAction, string> = {
+  'silent-mode': 'Silent Mode',
+  'play-pause': 'Play/Pause',
+  screenshot: 'Screenshot',
+  none: 'No Action',
+};
+
+/**
+ * Check whether a string names an Action button choice.
+ */
+export function isActionButtonAction(value: string): value is ActionButtonAction {
+  return Object.prototype.hasOwnProperty.call(ACTION_BUTTON_ACTIONS, value);
+}
+
 /**
  * Dynamic Island dimensions for supported devices (iPhone 14 Pro and later).
  * All values in CSS pixels.
@@ -405,6 +281,34 @@ export const HOME_INDICATOR = {
   bottomOffset: 8,
 } as const;
 
+/**
+ * Bottom safe area inset in landscape on devices with a home indicator.
+ * All values in CSS pixels.
+ */
+export const LANDSCAPE_HOME_INDICATOR_INSET = 21;
+
+/**
+ * Get safe area insets for a device held in landscape.
+ *
+ * iOS hides the status bar in landscape and insets both sides by the
+ * portrait top inset, so content stays symmetrical whichever side the
+ * Dynamic Island or notch is on. iPadOS keeps the status bar and home
+ * indicator insets and adds none at the sides.
+ */
+export function getLandscapeSafeAreaInsets(device: DeviceModel): SafeAreaInsets {
+  if (device.family === 'ipad') {
+    return { ...device.safeAreaInsets, left: 0, right: 0 };
+  }
+
+  const side = device.notchType === 'none' ? 0 : device.safeAreaInsets.top;
+  return {
+    top: 0,
+    bottom: device.hasHomeButton ? 0 : LANDSCAPE_HOME_INDICATOR_INSET,
+    left: side,
+    right: side,
+  };
+}
+
 /**
  * Status bar heights for different device types.
  * All values in CSS pixels.
@@ -413,12 +317,16 @@ export const STATUS_BAR_HEIGHT = {
   dynamicIsland: 54,
   notch: 44,
   standard: 20,
+  tablet: 24,
 } as const;
 
 /**
  * Get status bar height for a device.
  */
 export function getStatusBarHeight(device: DeviceModel): number {
+  if (device.family === 'ipad') {
+    return STATUS_BAR_HEIGHT.tablet;
+  }
   if (device.notchType === 'dynamic-island') {
     return STATUS_BAR_HEIGHT.dynamicIsland;
   }
@@ -436,77 +344,16 @@ export const BEZEL_THICKNESS = {
   faceId: 12,
   touchId: 16,
   seSides: 4,
+  tablet: 24,
 } as const;
 
 /**
- * Get bezel thickness for a device.
+ * Get bezel thickness for a device. iPads have an even bezel all round.
  */
 export function getBezelThickness(device: DeviceModel): number {
+  if (device.family === 'ipad') {
+    return BEZEL_THICKNESS.tablet;
+  }
   return device.hasHomeButton ? BEZEL_THICKNESS.touchId : BEZEL_THICKNESS.faceId;
 }
 
-/**
- * Device colour variants for bezel rendering.
- * Gradients suggest realistic titanium/aluminium finishes.
- */
-export const DEVICE_COLOURS = {
-  'space-black': {
-    name: 'Space Black',
-    bezelGradient: 'linear-gradient(135deg, #1d1d1f 0%, #2d2d2f 50%, #1d1d1f 100%)',
-    buttonColour: '#3d3d3f',
-  },
-  'silver': {
-    name: 'Silver',
-    bezelGradient: 'linear-gradient(135deg, #e3e3e8 0%, #f5f5f7 50%, #e3e3e8 100%)',
-    buttonColour: '#d1d1d6',
-  },
-  'gold': {
-    name: 'Gold',
-    bezelGradient: 'linear-gradient(135deg, #f5e6d3 0%, #fdf8f3 50%, #f5e6d3 100%)',
-    buttonColour: '#e5d4c3',
-  },
-  'deep-purple': {
-    name: 'Deep Purple',
-    bezelGradient: 'linear-gradient(135deg, #4d4255 0%, #5d526a 50%, #4d4255 100%)',
-    buttonColour: '#5d526a',
-  },
-  'blue': {
-    name: 'Blue',
-    bezelGradient: 'linear-gradient(135deg, #a7c1d9 0%, #b8d0e6 50%, #a7c1d9 100%)',
-    buttonColour: '#97b1c9',
-  },
-  'natural-titanium': {
-    name: 'Natural Titanium',
-    bezelGradient: 'linear-gradient(135deg, #9a9a9c 0%, #b8b8ba 50%, #9a9a9c 100%)',
-    buttonColour: '#8a8a8c',
-  },
-  'blue-titanium': {
-    name: 'Blue Titanium',
-    bezelGradient: 'linear-gradient(135deg, #3d4753 0%, #4d5763 50%, #3d4753 100%)',
-    buttonColour: '#4d5763',
-  },
-  'white-titanium': {
-    name: 'White Titanium',
-    bezelGradient: 'linear-gradient(135deg, #f0f0f2 0%, #fafafa 50%, #f0f0f2 100%)',
-    buttonColour: '#e0e0e2',
-  },
-  'black-titanium': {
-    name: 'Black Titanium',
-    bezelGradient: 'linear-gradient(135deg, #1f1f21 0%, #2f2f31 50%, #1f1f21 100%)',
-    buttonColour: '#3f3f41',
-  },
-} as const;
-
-export type DeviceColourId = keyof typeof DEVICE_COLOURS;
-
-/**
- * Default colour for new devices.
- */
-export const DEFAULT_COLOUR: DeviceColourId = 'space-black';
-
-/**
- * Get colour configuration by ID.
- */
-export function getDeviceColour(colourId: DeviceColourId) {
-  return DEVICE_COLOURS[colourId] ?? DEVICE_COLOURS[DEFAULT_COLOUR];
-}
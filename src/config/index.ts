@@ -11,9 +11,12 @@
  * @module config
  */
 
-// Device configurations (all exports)
+// Device configurations (all exports, including finishes)
 export * from './devices';
 
+// Device model schema and catalogue validation
+export * from './deviceSchema';
+
 // Browser configurations (all exports)
 export * from './browser';
 
@@ -41,7 +44,31 @@ export {
   // Storage
   STORAGE_KEYS,
   MAX_URL_HISTORY,
+  MAX_HISTORY_VISITS,
   MAX_BOOKMARKS,
+  MAX_CUSTOM_DEVICES,
+  FAVOURITES_FOLDER_ID,
+  // Session restore
+  SESSION,
+  // Deep links
+  DEEP_LINK,
+  // Address bar
+  OMNIBOX,
+  // Comparison mode
+  MAX_COMPARISON_DEVICES,
+  DEFAULT_COMPARISON_DEVICES,
+  // Rewriting proxy
+  PROXY,
+  // Screenshots
+  SCREENSHOT,
+  // Touch emulation
+  TOUCH_EMULATION,
+  // Hardware buttons
+  HARDWARE_BUTTONS,
+  // Live Activities
+  LIVE_ACTIVITY,
+  // Screen recording
+  RECORDING,
   // Animations
   ANIMATION,
   EASING,
@@ -0,0 +1,322 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { Bookmark, BookmarkCollection, BookmarkFolder } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { MAX_BOOKMARKS, FAVOURITES_FOLDER_ID } from '@/config/constants'
+import { generateBookmarkId, generateFolderId } from '@/utils/identifiers'
+import { getDisplayDomain } from '@/utils/url'
+import {
+  serialiseBookmarksJson,
+  serialiseBookmarksHtml,
+  parseBookmarkFile
+} from '@/utils/bookmarks'
+
+/**
+ * Built-in folder whose contents appear on the start page
+ */
+const FAVOURITES_FOLDER: BookmarkFolder = {
+  id: FAVOURITES_FOLDER_ID,
+  name: 'Favourites',
+  parentId: null,
+  createdAt: 0
+}
+
+/**
+ * Bookmarks store
+ *
+ * Manages saved bookmarks and folders, including the built-in
+ * Favourites folder shown on the start page. Bookmarks are persisted
+ * to localStorage and capped at MAX_BOOKMARKS.
+ *
+ * @example
+ * ```typescript
+ * const bookmarksStore = useBookmarksStore()
+ * bookmarksStore.addBookmark('https://example.com', 'Example')
+ * ```
+ */
+export const useBookmarksStore = defineStore('bookmarks', () => {
+  // Persisted state
+  const bookmarks = useLocalStorage<Bookmark[]>(STORAGE_KEYS.BOOKMARKS, [])
+  const storedFolders = useLocalStorage<BookmarkFolder[]>(STORAGE_KEYS.BOOKMARK_FOLDERS, [])
+
+  // UI state
+  const isPanelOpen = ref(false)
+
+  /**
+   * All folders, always including the built-in Favourites folder
+   */
+  const folders = computed<BookmarkFolder[]>(() => [
+    FAVOURITES_FOLDER,
+    ...storedFolders.value.filter((folder) => folder.id !== FAVOURITES_FOLDER_ID)
+  ])
+
+  /**
+   * Bookmarks in the Favourites folder
+   */
+  const favourites = computed(() =>
+    bookmarks.value.filter((bookmark) => bookmark.folderId === FAVOURITES_FOLDER_ID)
+  )
+
+  /**
+   * Whether the bookmark limit has been reached
+   */
+  const isFull = computed(() => bookmarks.value.length >= MAX_BOOKMARKS)
+
+  /**
+   * Get bookmarks directly inside a folder (null for the top level)
+   */
+  function getBookmarksInFolder(folderId: string | null): Bookmark[] {
+    return bookmarks.value.filter((bookmark) => bookmark.folderId === folderId)
+  }
+
+  /**
+   * Get folders directly inside a folder (null for the top level)
+   */
+  function getSubfolders(parentId: string | null): BookmarkFolder[] {
+    return folders.value.filter((folder) => folder.parentId === parentId)
+  }
+
+  /**
+   * Find a folder by ID
+   */
+  function getFolder(id: string): BookmarkFolder | undefined {
+    return folders.value.find((folder) => folder.id === id)
+  }
+
+  /**
+   * Find the first bookmark for a URL
+   */
+  function findByUrl(url: string): Bookmark | undefined {
+    return bookmarks.value.find((bookmark) => bookmark.url === url)
+  }
+
+  /**
+   * Check whether a URL has been bookmarked
+   */
+  function isBookmarked(url: string): boolean {
+    return findByUrl(url) !== undefined
+  }
+
+  /**
+   * Add a bookmark
+   *
+   * @returns The new bookmark, or null if the limit has been reached
+   */
+  function addBookmark(
+    url: string,
+    title?: string,
+    folderId: string | null = FAVOURITES_FOLDER_ID
+  ): Bookmark | null {
+    if (!url || isFull.value) return null
+
+    const bookmark: Bookmark = {
+      id: generateBookmarkId(),
+      url,
+      title: title?.trim() || getDisplayDomain(url),
+      folderId,
+      createdAt: Date.now()
+    }
+
+    bookmarks.value = [...bookmarks.value, bookmark]
+    return bookmark
+  }
+
+  /**
+   * Update a bookmark's title, URL or folder
+   */
+  function updateBookmark(
+    id: string,
+    changes: Partial<Pick<Bookmark, 'url' | 'title' | 'folderId'>>
+  ): void {
+    bookmarks.value = bookmarks.value.map((bookmark) =>
+      bookmark.id === id ? { ...bookmark, ...changes } : bookmark
+    )
+  }
+
+  /**
+   * Remove a bookmark
+   */
+  function removeBookmark(id: string): void {
+    bookmarks.value = bookmarks.value.filter((bookmark) => bookmark.id !== id)
+  }
+
+  /**
+   * Create a folder
+   */
+  function addFolder(name: string, parentId: string | null = null): BookmarkFolder {
+    const folder: BookmarkFolder = {
+      id: generateFolderId(),
+      name: name.trim() || 'Untitled Folder',
+      parentId,
+      createdAt: Date.now()
+    }
+
+    storedFolders.value = [...storedFolders.value, folder]
+    return folder
+  }
+
+  /**
+   * Rename a folder. The Favourites folder cannot be renamed.
+   */
+  function renameFolder(id: string, name: string): void {
+    if (id === FAVOURITES_FOLDER_ID || !name.trim()) return
+
+    storedFolders.value = storedFolders.value.map((folder) =>
+      folder.id === id ? { ...folder, name: name.trim() } : folder
+    )
+  }
+
+  /**
+   * Remove a folder along with its subfolders and bookmarks.
+   * The Favourites folder cannot be removed.
+   */
+  function removeFolder(id: string): void {
+    if (id === FAVOURITES_FOLDER_ID) return
+
+    // Collect the folder and all of its descendants
+    const doomed = new Set<string>([id])
+    let added = true
+    while (added) {
+      added = false
+      for (const folder of storedFolders.value) {
+        if (folder.parentId !== null && doomed.has(folder.parentId) && !doomed.has(folder.id)) {
+          doomed.add(folder.id)
+          added = true
+        }
+      }
+    }
+
+    storedFolders.value = storedFolders.value.filter((folder) => !doomed.has(folder.id))
+    bookmarks.value = bookmarks.value.filter(
+      (bookmark) => bookmark.folderId === null || !doomed.has(bookmark.folderId)
+    )
+  }
+
+  /**
+   * Merge an imported collection into the existing bookmarks.
+   * Folders are matched by name within the same parent and bookmarks
+   * already present in the same folder are skipped.
+   *
+   * @returns Number of bookmarks imported
+   */
+  function importCollection(collection: BookmarkCollection): number {
+    const folderIdMap = new Map<string, string>([[FAVOURITES_FOLDER_ID, FAVOURITES_FOLDER_ID]])
+
+    // Parents must be mapped before their children
+    const pending = [...collection.folders]
+    let progressed = true
+    while (pending.length > 0 && progressed) {
+      progressed = false
+      for (let i = pending.length - 1; i >= 0; i--) {
+        const folder = pending[i]
+        if (folder.parentId !== null && !folderIdMap.has(folder.parentId)) continue
+
+        const parentId = folder.parentId === null ? null : folderIdMap.get(folder.parentId) ?? null
+        const existing = folders.value.find(
+          (candidate) => candidate.name === folder.name && candidate.parentId === parentId
+        )
+
+        folderIdMap.set(folder.id, existing ? existing.id : addFolder(folder.name, parentId).id)
+        pending.splice(i, 1)
+        progressed = true
+      }
+    }
+
+    let imported = 0
+    for (const bookmark of collection.bookmarks) {
+      if (isFull.value) break
+
+      const folderId = bookmark.folderId === null ? null : folderIdMap.get(bookmark.folderId) ?? null
+      const duplicate = bookmarks.value.some(
+        (candidate) => candidate.url === bookmark.url && candidate.folderId === folderId
+      )
+      if (duplicate) continue
+
+      bookmarks.value = [
+        ...bookmarks.value,
+        { ...bookmark, id: generateBookmarkId(), folderId }
+      ]
+      imported++
+    }
+
+    return imported
+  }
+
+  /**
+   * Parse and import a JSON or Netscape HTML bookmark file
+   *
+   * @throws Error if the file cannot be parsed
+   * @returns Number of bookmarks imported
+   */
+  function importFromFile(content: string): number {
+    return importCollection(parseBookmarkFile(content))
+  }
+
+  /**
+   * Export all bookmarks as JSON
+   */
+  function exportJson(): string {
+    return serialiseBookmarksJson(folders.value, bookmarks.value)
+  }
+
+  /**
+   * Export all bookmarks as a Netscape bookmark file
+   */
+  function exportHtml(): string {
+    return serialiseBookmarksHtml(folders.value, bookmarks.value)
+  }
+
+  /**
+   * Remove every bookmark and folder
+   */
+  function clearBookmarks(): void {
+    bookmarks.value = []
+    storedFolders.value = []
+  }
+
+  function openPanel(): void {
+    isPanelOpen.value = true
+  }
+
+  function closePanel(): void {
+    isPanelOpen.value = false
+  }
+
+  function togglePanel(): void {
+    isPanelOpen.value = !isPanelOpen.value
+  }
+
+  return {
+    // State
+    bookmarks,
+    folders,
+    favourites,
+    isFull,
+    isPanelOpen,
+
+    // Queries
+    getBookmarksInFolder,
+    getSubfolders,
+    getFolder,
+    findByUrl,
+    isBookmarked,
+
+    // Actions
+    addBookmark,
+    updateBookmark,
+    removeBookmark,
+    addFolder,
+    renameFolder,
+    removeFolder,
+    importCollection,
+    importFromFile,
+    exportJson,
+    exportHtml,
+    clearBookmarks,
+    openPanel,
+    closePanel,
+    togglePanel
+  }
+})
+
+export type BookmarksStore = ReturnType<typeof useBookmarksStore>
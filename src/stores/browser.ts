@@ -1,12 +1,22 @@
 /**
  * Browser state management store
  *
- * Manages Safari browser state including navigation,
- * loading status, and viewport configuration
+ * Manages Safari browser UI state (toolbar, URL bar and viewport) and
+ * exposes navigation in the browser's own terms. Navigation itself is
+ * delegated to the navigation store, so both share one state machine.
+ *
+ * The toolbars collapse to a compact address pill when the page scrolls
+ * down and expand again when it scrolls back up (or reaches the top), as
+ * Safari's do. They expand for every new page. The address bar position
+ * (top or bottom) is saved between visits.
  */
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { NavigationState, NavigationEntry, NavigationError } from '@/types'
+import { ref, computed, watch } from 'vue'
+import type { NavigationEntry, NavigationError, ToolbarPosition } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { DEFAULT_BROWSER_CONFIG } from '@/config/browser'
+import { BROWSER_CHROME } from '@/config/constants'
+import { useNavigationStore } from './navigation'
 
 /**
  * URL bar display modes
@@ -29,17 +39,13 @@ interface ViewportState {
 }
 
 export const useBrowserStore = defineStore('browser', () => {
-  // Navigation state
-  const navigationState = ref<NavigationState>({
-    currentUrl: 'about:blank',
-    history: [],
-    historyIndex: -1,
-    isLoading: false,
-    loadProgress: 0,
-    error: null,
-    canGoBack: false,
-    canGoForward: false,
-  })
+  const navigationStore = useNavigationStore()
+
+  // Persisted settings
+  const toolbarPosition = useLocalStorage<ToolbarPosition>(
+    STORAGE_KEYS.TOOLBAR_POSITION,
+    DEFAULT_BROWSER_CONFIG.toolbarPosition
+  )
 
   // UI state
   const toolbarVisibility = ref<ToolbarVisibility>('visible')
@@ -51,168 +57,146 @@ export const useBrowserStore = defineStore('browser', () => {
     isScrolling: false,
   })
 
+  // Scroll position the toolbars last changed at, and when reports settle
+  // again after the resize that follows (it can move the scroll position)
+  let scrollAnchor = 0
+  let settleUntil = 0
+
   // Getters
-  const currentUrl = computed(() => navigationState.value.currentUrl)
-  const isLoading = computed(() => navigationState.value.isLoading)
-  const loadProgress = computed(() => navigationState.value.loadProgress)
-  const canGoBack = computed(() => navigationState.value.canGoBack)
-  const canGoForward = computed(() => navigationState.value.canGoForward)
-  const currentError = computed(() => navigationState.value.error)
-  const history = computed(() => navigationState.value.history)
+  const navigationState = computed(() => navigationStore.state)
+  const currentUrl = computed(() => navigationStore.currentUrl)
+  const isLoading = computed(() => navigationStore.isLoading)
+  const loadProgress = computed(() => navigationStore.loadProgress)
+  const canGoBack = computed(() => navigationStore.canGoBack)
+  const canGoForward = computed(() => navigationStore.canGoForward)
+  const currentError = computed(() => navigationStore.error)
+  const history = computed(() => navigationStore.state.history)
 
   const currentEntry = computed<NavigationEntry | null>(() => {
-    const { history, historyIndex } = navigationState.value
-    if (historyIndex >= 0 && historyIndex < history.length) {
-      return history[historyIndex]
-    }
-    return null
+    const { history, historyIndex } = navigationStore.state
+    return history[historyIndex] ?? null
   })
 
   const currentTitle = computed(() => currentEntry.value?.title ?? '')
 
   // Actions
   function navigate(url: string, options?: { replace?: boolean }): void {
-    const state = navigationState.value
-    const entry: NavigationEntry = {
-      url,
-      timestamp: Date.now(),
-    }
-
-    if (options?.replace && state.historyIndex >= 0) {
-      // Replace current entry
-      state.history[state.historyIndex] = entry
-    } else {
-      // Add new entry, truncating forward history
-      state.history = state.history.slice(0, state.historyIndex + 1)
-      state.history.push(entry)
-      state.historyIndex = state.history.length - 1
-    }
-
-    state.currentUrl = url
-    state.isLoading = true
-    state.loadProgress = 0
-    state.error = null
-    state.canGoBack = state.historyIndex > 0
-    state.canGoForward = false
+    navigationStore.navigate(url, options)
   }
 
   function goBack(): void {
-    const state = navigationState.value
-    if (state.historyIndex > 0) {
-      state.historyIndex -= 1
-      state.currentUrl = state.history[state.historyIndex].url
-      state.canGoBack = state.historyIndex > 0
-      state.canGoForward = true
-      state.isLoading = true
-      state.loadProgress = 0
-      state.error = null
-    }
+    navigationStore.goBack()
   }
 
   function goForward(): void {
-    const state = navigationState.value
-    if (state.historyIndex < state.history.length - 1) {
-      state.historyIndex += 1
-      state.currentUrl = state.history[state.historyIndex].url
-      state.canGoBack = true
-      state.canGoForward = state.historyIndex < state.history.length - 1
-      state.isLoading = true
-      state.loadProgress = 0
-      state.error = null
-    }
+    navigationStore.goForward()
   }
 
   function reload(): void {
-    const state = navigationState.value
-    state.isLoading = true
-    state.loadProgress = 0
-    state.error = null
+    navigationStore.refresh()
   }
 
   function stopLoading(): void {
-    navigationState.value.isLoading = false
+    navigationStore.stop()
   }
 
   function setLoadProgress(progress: number): void {
-    navigationState.value.loadProgress = Math.max(0, Math.min(100, progress))
+    navigationStore.setProgress(progress)
   }
 
   function setLoadComplete(title?: string): void {
-    const state = navigationState.value
-    state.isLoading = false
-    state.loadProgress = 100
-
-    // Update current history entry with title
-    if (title && state.historyIndex >= 0) {
-      state.history[state.historyIndex] = {
-        ...state.history[state.historyIndex],
-        title,
-      }
-    }
+    navigationStore.onLoadComplete(title)
   }
 
   function setLoadError(error: NavigationError): void {
-    const state = navigationState.value
-    state.isLoading = false
-    state.error = error
+    navigationStore.onLoadError(error)
   }
 
   function clearError(): void {
-    navigationState.value.error = null
+    navigationStore.clearError()
   }
 
   function updateTitle(title: string): void {
-    const state = navigationState.value
-    if (state.historyIndex >= 0) {
-      state.history[state.historyIndex] = {
-        ...state.history[state.historyIndex],
-        title,
-      }
-    }
+    navigationStore.updateTitle(title)
   }
 
   function updateFavicon(favicon: string): void {
-    const state = navigationState.value
-    if (state.historyIndex >= 0) {
-      state.history[state.historyIndex] = {
-        ...state.history[state.historyIndex],
-        favicon,
-      }
-    }
+    navigationStore.updateFavicon(favicon)
   }
 
   function setToolbarVisibility(visibility: ToolbarVisibility): void {
     toolbarVisibility.value = visibility
   }
 
+  function setToolbarPosition(position: ToolbarPosition): void {
+    toolbarPosition.value = position
+  }
+
+  /**
+   * Collapse the toolbars after scrolling down far enough and expand them
+   * after scrolling up, or at the top of the page
+   */
+  function followScroll(scrollY: number): void {
+    const visibility = toolbarVisibility.value
+    if (visibility === 'hidden') return
+
+    if (Date.now() < settleUntil) {
+      scrollAnchor = scrollY
+      return
+    }
+
+    let next = visibility
+    if (scrollY <= 0) {
+      next = 'visible'
+    } else if (visibility === 'visible') {
+      scrollAnchor = Math.min(scrollAnchor, scrollY)
+      if (scrollY - scrollAnchor > BROWSER_CHROME.COLLAPSE_SCROLL_DISTANCE) next = 'compact'
+    } else {
+      scrollAnchor = Math.max(scrollAnchor, scrollY)
+      if (scrollAnchor - scrollY > BROWSER_CHROME.COLLAPSE_SCROLL_DISTANCE) next = 'visible'
+    }
+
+    if (next !== visibility) {
+      toolbarVisibility.value = next
+      scrollAnchor = scrollY
+      settleUntil = Date.now() + BROWSER_CHROME.COLLAPSE_SETTLE_TIME
+    }
+  }
+
   function setUrlBarMode(mode: UrlBarMode): void {
     urlBarMode.value = mode
   }
 
   function updateViewport(state: Partial<ViewportState>): void {
     viewport.value = { ...viewport.value, ...state }
+    if (state.scrollY !== undefined) {
+      followScroll(state.scrollY)
+    }
   }
 
-  function reset(): void {
-    navigationState.value = {
-      currentUrl: 'about:blank',
-      history: [],
-      historyIndex: -1,
-      isLoading: false,
-      loadProgress: 0,
-      error: null,
-      canGoBack: false,
-      canGoForward: false,
+  // Each new page starts with the toolbars expanded
+  watch(
+    () => navigationStore.currentUrl,
+    () => {
+      if (toolbarVisibility.value === 'compact') {
+        toolbarVisibility.value = 'visible'
+      }
+      scrollAnchor = 0
     }
+  )
+
+  function reset(): void {
+    navigationStore.clear()
   }
 
   return {
     // State
-    navigationState,
+    toolbarPosition,
     toolbarVisibility,
     urlBarMode,
     viewport,
     // Getters
+    navigationState,
     currentUrl,
     currentTitle,
     currentEntry,
@@ -235,6 +219,7 @@ export const useBrowserStore = defineStore('browser', () => {
     updateTitle,
     updateFavicon,
     setToolbarVisibility,
+    setToolbarPosition,
     setUrlBarMode,
     updateViewport,
     reset,
@@ -0,0 +1,208 @@
+/**
+ * Comparison mode state management store
+ *
+ * Manages the side-by-side multi-device layout. Each slot shows one
+ * device with its own navigation state; when navigation is synchronised,
+ * navigating in any slot is replayed in every other slot.
+ */
+import { defineStore } from 'pinia'
+import { ref, reactive, computed } from 'vue'
+import type { ComparisonSlot } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { useNavigation, type UseNavigation } from '@/composables/useNavigation'
+import { MAX_COMPARISON_DEVICES, DEFAULT_COMPARISON_DEVICES } from '@/config/constants'
+import { generateSlotId } from '@/utils/identifiers'
+import { useNavigationStore } from './navigation'
+
+function createSlot(deviceId: string): ComparisonSlot {
+  return { id: generateSlotId(), deviceId }
+}
+
+export const useComparisonStore = defineStore('comparison', () => {
+  const navigationStore = useNavigationStore()
+
+  // State
+  const isEnabled = ref(false)
+  const slots = useLocalStorage<ComparisonSlot[]>(
+    STORAGE_KEYS.COMPARISON_DEVICES,
+    DEFAULT_COMPARISON_DEVICES.map(createSlot)
+  )
+  const syncNavigation = useLocalStorage(STORAGE_KEYS.COMPARISON_SYNC, true)
+
+  // Per-slot refresh keys for forcing an iframe reload
+  const reloadKeys = reactive<Record<string, number>>({})
+
+  // Per-slot navigation state, created on first use
+  const navigations = new Map<string, UseNavigation>()
+
+  // Getters
+  const slotCount = computed(() => slots.value.length)
+  const isFull = computed(() => slots.value.length >= MAX_COMPARISON_DEVICES)
+
+  /**
+   * Get the navigation state for a slot
+   */
+  function getNavigation(slotId: string): UseNavigation {
+    let navigation = navigations.get(slotId)
+    if (!navigation) {
+      navigation = useNavigation()
+      navigations.set(slotId, navigation)
+    }
+    return navigation
+  }
+
+  /**
+   * Slots affected by an action started in the given slot
+   */
+  function getTargets(slotId: string): string[] {
+    return syncNavigation.value ? slots.value.map((slot) => slot.id) : [slotId]
+  }
+
+  /**
+   * Navigate a slot to a URL (every slot when synchronised)
+   */
+  function navigate(slotId: string, url: string): void {
+    for (const id of getTargets(slotId)) {
+      getNavigation(id).navigate(url)
+    }
+  }
+
+  /**
+   * Navigate every slot to a URL, regardless of synchronisation
+   */
+  function navigateAll(url: string): void {
+    for (const slot of slots.value) {
+      getNavigation(slot.id).navigate(url)
+    }
+  }
+
+  function goBack(slotId: string): void {
+    for (const id of getTargets(slotId)) {
+      getNavigation(id).goBack()
+    }
+  }
+
+  function goForward(slotId: string): void {
+    for (const id of getTargets(slotId)) {
+      getNavigation(id).goForward()
+    }
+  }
+
+  function refresh(slotId: string): void {
+    for (const id of getTargets(slotId)) {
+      reloadKeys[id] = (reloadKeys[id] ?? 0) + 1
+      getNavigation(id).refresh()
+    }
+  }
+
+  function stop(slotId: string): void {
+    for (const id of getTargets(slotId)) {
+      getNavigation(id).stop()
+    }
+  }
+
+  /**
+   * Add a device to the comparison, seeded with the current page
+   *
+   * @returns The new slot, or null if the layout is full
+   */
+  function addSlot(deviceId: string): ComparisonSlot | null {
+    if (isFull.value) return null
+
+    const slot = createSlot(deviceId)
+    const url = slots.value.length > 0
+      ? getNavigation(slots.value[0].id).currentUrl.value
+      : navigationStore.currentUrl
+
+    slots.value = [...slots.value, slot]
+    if (url) {
+      getNavigation(slot.id).navigate(url)
+    }
+    return slot
+  }
+
+  /**
+   * Remove a device from the comparison. The last device cannot be removed.
+   */
+  function removeSlot(slotId: string): void {
+    if (slots.value.length <= 1) return
+
+    slots.value = slots.value.filter((slot) => slot.id !== slotId)
+    navigations.delete(slotId)
+    delete reloadKeys[slotId]
+  }
+
+  /**
+   * Change the device shown in a slot
+   */
+  function setSlotDevice(slotId: string, deviceId: string): void {
+    slots.value = slots.value.map((slot) =>
+      slot.id === slotId ? { ...slot, deviceId } : slot
+    )
+  }
+
+  function setSyncNavigation(value: boolean): void {
+    syncNavigation.value = value
+  }
+
+  /**
+   * Enter comparison mode. Slots without a page load the current URL.
+   */
+  function enable(): void {
+    isEnabled.value = true
+
+    const url = navigationStore.currentUrl
+    if (!url) return
+
+    for (const slot of slots.value) {
+      const navigation = getNavigation(slot.id)
+      if (!navigation.currentUrl.value) {
+        navigation.navigate(url)
+      }
+    }
+  }
+
+  function disable(): void {
+    isEnabled.value = false
+  }
+
+  function toggle(): void {
+    if (isEnabled.value) {
+      disable()
+    } else {
+      enable()
+    }
+  }
+
+  return {
+    // State
+    isEnabled,
+    slots,
+    syncNavigation,
+    reloadKeys,
+
+    // Getters
+    slotCount,
+    isFull,
+    getNavigation,
+
+    // Navigation
+    navigate,
+    navigateAll,
+    goBack,
+    goForward,
+    refresh,
+    stop,
+
+    // Actions
+    addSlot,
+    removeSlot,
+    setSlotDevice,
+    setSyncNavigation,
+    enable,
+    disable,
+    toggle
+  }
+})
+
+export type ComparisonStore = ReturnType<typeof useComparisonStore>
@@ -0,0 +1,94 @@
+/**
+ * Custom devices store import tests
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import type { DeviceModel } from '@/types'
+import { MAX_CUSTOM_DEVICES } from '@/config/constants'
+import { getDeviceById, registerCustomDevices } from '@/config/devices'
+import { serialiseDeviceProfiles } from '@/utils/deviceProfiles'
+import { useCustomDevicesStore } from './customDevices'
+
+const preset = getDeviceById('iphone-15-pro')
+
+function profile(name: string, changes: Partial<DeviceModel> = {}): DeviceModel {
+  return { ...preset, id: `custom-${name.toLowerCase().replace(/\s+/g, '-')}`, name, ...changes }
+}
+
+beforeEach(() => {
+  // The device catalogue is shared by every store instance
+  registerCustomDevices([])
+  setActivePinia(createPinia())
+})
+
+describe('importJson', () => {
+  it('adds imported profiles under IDs derived from their names', () => {
+    const store = useCustomDevicesStore()
+
+    const imported = store.importJson(JSON.stringify([profile('Test Phone', { id: 'custom-from-elsewhere' })]))
+
+    expect(imported).toBe(1)
+    expect(store.devices.map((device) => device.id)).toEqual(['custom-test-phone'])
+  })
+
+  it('replaces a custom device with the same ID', () => {
+    const store = useCustomDevicesStore()
+    const existing = store.addDevice(profile('Test Phone'))
+
+    const imported = store.importJson(JSON.stringify(profile('Test Phone', { id: existing?.id ?? '', screenWidth: 400 })))
+
+    expect(imported).toBe(1)
+    expect(store.devices).toHaveLength(1)
+    expect(store.devices[0]).toMatchObject({ id: 'custom-test-phone', screenWidth: 400 })
+  })
+
+  it('adds profiles with preset IDs as new custom devices, leaving the preset alone', () => {
+    const store = useCustomDevicesStore()
+
+    store.importJson(JSON.stringify({ ...preset, screenWidth: 400 }))
+
+    expect(store.devices.map((device) => device.id)).toEqual(['custom-iphone-15-pro'])
+    expect(getDeviceById('iphone-15-pro').screenWidth).toBe(preset.screenWidth)
+  })
+
+  it('gives profiles that share a name different IDs', () => {
+    const store = useCustomDevicesStore()
+    store.addDevice(profile('Test Phone'))
+
+    store.importJson(JSON.stringify([profile('Test Phone', { id: 'custom-a' }), profile('Test Phone', { id: 'custom-b' })]))
+
+    expect(store.devices.map((device) => device.id)).toEqual([
+      'custom-test-phone',
+      'custom-test-phone-2',
+      'custom-test-phone-3'
+    ])
+  })
+
+  it('skips invalid profiles', () => {
+    const store = useCustomDevicesStore()
+
+    const imported = store.importJson(JSON.stringify([{ name: 'Incomplete' }, profile('Test Phone')]))
+
+    expect(imported).toBe(1)
+    expect(store.devices).toHaveLength(1)
+  })
+
+  it('stops importing once the custom device limit is reached', () => {
+    const store = useCustomDevicesStore()
+    for (let i = 1; i < MAX_CUSTOM_DEVICES; i++) {
+      store.addDevice(profile(`Phone ${i}`))
+    }
+
+    const imported = store.importJson(serialiseDeviceProfiles([
+      profile('Extra One'),
+      profile('Extra Two'),
+      profile('Extra Three')
+    ]))
+
+    expect(imported).toBe(1)
+    expect(store.devices).toHaveLength(MAX_CUSTOM_DEVICES)
+    expect(store.devices.at(-1)?.name).toBe('Extra One')
+    expect(store.isFull).toBe(true)
+  })
+})
@@ -0,0 +1,169 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { DeviceModel } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { MAX_CUSTOM_DEVICES } from '@/config/constants'
+import { defaultDevice, deviceModelMap, isCustomDeviceId, registerCustomDevices } from '@/config/devices'
+import { parseDeviceModel } from '@/config/deviceSchema'
+import { createCustomDeviceId, parseDeviceProfilesJson, serialiseDeviceProfiles } from '@/utils/deviceProfiles'
+import { usePreferencesStore } from './preferences'
+
+/**
+ * Custom devices store
+ *
+ * Manages user-defined device profiles for models the presets do not
+ * cover, such as older managed iPhones or pre-release screen sizes.
+ * Profiles are persisted to localStorage and registered with the device
+ * catalogue, so they appear in every device selector and resolve through
+ * getDeviceById() like the presets.
+ *
+ * @example
+ * ```typescript
+ * const customDevicesStore = useCustomDevicesStore()
+ * const device = customDevicesStore.addDevice({ ...getDeviceById('iphone-15-pro'), name: 'iPhone 17 Air', screenWidth: 420 })
+ * preferencesStore.setDeviceId(device.id)
+ * ```
+ */
+export const useCustomDevicesStore = defineStore('customDevices', () => {
+  const preferencesStore = usePreferencesStore()
+
+  // Persisted state. Stored profiles are validated again in case the
+  // storage was edited by hand or written by an older version.
+  const storedDevices = useLocalStorage<DeviceModel[]>(STORAGE_KEYS.CUSTOM_DEVICES, [])
+
+  // UI state
+  const isEditorOpen = ref(false)
+  const editingId = ref<string | null>(null)
+
+  const devices = computed(() =>
+    storedDevices.value
+      .map(parseDeviceModel)
+      .filter((device): device is DeviceModel => device !== null && isCustomDeviceId(device.id))
+  )
+
+  const isFull = computed(() => devices.value.length >= MAX_CUSTOM_DEVICES)
+
+  /**
+   * Look up a custom device by ID
+   */
+  function getDevice(id: string): DeviceModel | undefined {
+    return devices.value.find((device) => device.id === id)
+  }
+
+  /**
+   * Add a device profile under a new ID derived from its name
+   *
+   * @returns The saved device, or null if the profile is invalid or the limit is reached
+   */
+  function addDevice(profile: Omit<DeviceModel, 'id'>): DeviceModel | null {
+    if (isFull.value) return null
+
+    // The catalogue is only updated once the watcher below runs, so IDs
+    // added earlier in the same tick (as by importJson) are checked too
+    const takenIds = [...deviceModelMap.keys(), ...devices.value.map((device) => device.id)]
+    const device = parseDeviceModel({
+      ...profile,
+      id: createCustomDeviceId(profile.name, takenIds)
+    })
+    if (!device) return null
+
+    storedDevices.value = [...devices.value, device]
+    return device
+  }
+
+  /**
+   * Replace a custom device's profile, keeping its ID
+   *
+   * @returns Whether the profile was valid and saved
+   */
+  function updateDevice(id: string, profile: Omit<DeviceModel, 'id'>): boolean {
+    const device = parseDeviceModel({ ...profile, id })
+    if (!device || !getDevice(id)) return false
+
+    storedDevices.value = devices.value.map((candidate) => (candidate.id === id ? device : candidate))
+    return true
+  }
+
+  /**
+   * Remove a custom device. If it is the selected device, the default
+   * device is selected instead.
+   */
+  function removeDevice(id: string): void {
+    storedDevices.value = devices.value.filter((device) => device.id !== id)
+
+    if (preferencesStore.deviceId === id) {
+      preferencesStore.setDeviceId(defaultDevice.id)
+    }
+    if (editingId.value === id) {
+      editingId.value = null
+    }
+  }
+
+  /**
+   * Merge profiles from a JSON export. A profile with the ID of an
+   * existing custom device replaces it; others are added under new IDs.
+   *
+   * @throws Error if the file contains no valid profiles
+   * @returns Number of profiles imported
+   */
+  function importJson(json: string): number {
+    let imported = 0
+
+    for (const device of parseDeviceProfilesJson(json)) {
+      if (isCustomDeviceId(device.id) && getDevice(device.id)) {
+        updateDevice(device.id, device)
+        imported++
+      } else {
+        const { id: _id, ...profile } = device
+        if (!addDevice(profile)) break
+        imported++
+      }
+    }
+
+    return imported
+  }
+
+  /**
+   * Export custom devices (all of them by default) as JSON
+   */
+  function exportJson(selection: DeviceModel[] = devices.value): string {
+    return serialiseDeviceProfiles(selection)
+  }
+
+  /**
+   * Open the editor, optionally on a particular custom device
+   */
+  function openEditor(id: string | null = null): void {
+    editingId.value = id
+    isEditorOpen.value = true
+  }
+
+  function closeEditor(): void {
+    isEditorOpen.value = false
+  }
+
+  // Keep the device catalogue in step with the saved profiles
+  watch(devices, registerCustomDevices, { immediate: true })
+
+  return {
+    // State
+    devices,
+    isFull,
+    isEditorOpen,
+    editingId,
+
+    // Queries
+    getDevice,
+
+    // Actions
+    addDevice,
+    updateDevice,
+    removeDevice,
+    importJson,
+    exportJson,
+    openEditor,
+    closeEditor
+  }
+})
+
+export type CustomDevicesStore = ReturnType<typeof useCustomDevicesStore>
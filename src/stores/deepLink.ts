@@ -0,0 +1,134 @@
+/**
+ * Deep link store
+ *
+ * Opens the emulator at the page, device, orientation, theme and colour
+ * given in its address, keeps the address in step as they change, and
+ * copies it so a preview can be shared as a single link.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import { DEEP_LINK } from '@/config/constants'
+import { buildDeepLink, parseDeepLink, type DeepLinkParams } from '@/utils/deepLink'
+import { useNavigationStore } from './navigation'
+import { usePreferencesStore } from './preferences'
+import { useTabsStore } from './tabs'
+
+export const useDeepLinkStore = defineStore('deepLink', () => {
+  const navigationStore = useNavigationStore()
+  const preferencesStore = usePreferencesStore()
+  const tabsStore = useTabsStore()
+
+  // State
+  const isApplied = ref(false)
+  const isCopied = ref(false)
+
+  let copiedTimer: number | undefined
+
+  function syncAddress(url: string): void {
+    if (url !== window.location.href) {
+      window.history.replaceState(window.history.state, '', url)
+    }
+  }
+
+  // Getters
+
+  /**
+   * Settings describing the preview currently shown
+   */
+  const params = computed<DeepLinkParams>(() => ({
+    ...(navigationStore.currentUrl ? { url: navigationStore.currentUrl } : {}),
+    device: preferencesStore.deviceId,
+    orientation: preferencesStore.orientation,
+    // Following the system is the default, so it is left out of the link
+    ...(preferencesStore.theme !== 'system' ? { theme: preferencesStore.theme } : {}),
+    colour: preferencesStore.colourId
+  }))
+
+  /**
+   * Link that reopens the current preview
+   */
+  const shareUrl = computed(() => buildDeepLink(window.location.href, params.value))
+
+  // Actions
+
+  /**
+   * Apply the settings in the page address. A page that is already open
+   * (as after a reload) is left alone; otherwise it opens in the blank
+   * active tab or a new one, as Safari does for links from other apps.
+   * The address follows the emulator from then on.
+   */
+  function apply(): void {
+    if (isApplied.value) return
+
+    const link = parseDeepLink(window.location.search)
+
+    if (link.device) preferencesStore.setDeviceId(link.device)
+    if (link.orientation) preferencesStore.setOrientation(link.orientation)
+    if (link.theme) preferencesStore.setTheme(link.theme)
+    if (link.colour) preferencesStore.setColourId(link.colour)
+
+    if (link.url && link.url !== navigationStore.currentUrl) {
+      if (navigationStore.currentUrl) {
+        tabsStore.openTab(link.url)
+      } else {
+        navigationStore.navigate(link.url)
+      }
+    }
+
+    isApplied.value = true
+    syncAddress(shareUrl.value)
+  }
+
+  /**
+   * Copy a link to the current preview, optionally for a different page or
+   * device (as from a comparison pane). Falls back to the share sheet where
+   * the clipboard is unavailable.
+   *
+   * @returns Whether the link was copied or shared
+   */
+  async function copy(overrides: DeepLinkParams = {}): Promise<boolean> {
+    const link = buildDeepLink(window.location.href, { ...params.value, ...overrides })
+
+    try {
+      await navigator.clipboard.writeText(link)
+    } catch {
+      if (typeof navigator.share !== 'function') return false
+      try {
+        await navigator.share({ url: link })
+      } catch {
+        // User cancelled or share failed
+        return false
+      }
+      return true
+    }
+
+    isCopied.value = true
+    window.clearTimeout(copiedTimer)
+    copiedTimer = window.setTimeout(() => {
+      isCopied.value = false
+    }, DEEP_LINK.COPIED_DURATION)
+    return true
+  }
+
+  // Keep the address bar showing the current preview, without adding
+  // browser history entries
+  watch(shareUrl, (url) => {
+    if (isApplied.value) {
+      syncAddress(url)
+    }
+  })
+
+  return {
+    // State
+    isApplied,
+    isCopied,
+    // Getters
+    params,
+    shareUrl,
+    // Actions
+    apply,
+    copy
+  }
+})
+
+export type DeepLinkStore = ReturnType<typeof useDeepLinkStore>
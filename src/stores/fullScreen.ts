@@ -0,0 +1,33 @@
+/**
+ * Full-screen store
+ *
+ * Whether pages fill the whole screen as a Home Screen web app does,
+ * without Safari's toolbars. Pages that ask for `viewport-fit=cover` draw
+ * under the status bar, Dynamic Island and home indicator and see the
+ * device's safe area insets; others are kept inside the safe area.
+ */
+import { defineStore } from 'pinia'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+
+export const useFullScreenStore = defineStore('fullScreen', () => {
+  // State
+  const enabled = useLocalStorage(STORAGE_KEYS.FULL_SCREEN, false)
+
+  function setEnabled(value: boolean): void {
+    enabled.value = value
+  }
+
+  function toggle(): void {
+    enabled.value = !enabled.value
+  }
+
+  return {
+    // State
+    enabled,
+    // Actions
+    setEnabled,
+    toggle
+  }
+})
+
+export type FullScreenStore = ReturnType<typeof useFullScreenStore>
@@ -0,0 +1,202 @@
+/**
+ * Hardware buttons store
+ *
+ * Makes the device's physical buttons work. The volume buttons step the
+ * volume, show the volume HUD and send media keys to the page; the side
+ * button locks and unlocks the screen, hiding the page whilst locked; the
+ * Action button runs the configured action; and the home button leaves
+ * Safari for the Home Screen, hiding the page until Safari is reopened.
+ *
+ * Keeps a registry of viewport iframes so presses reach the pages. Media
+ * keys go to the visible viewports only, whilst locking or going home
+ * hides every page, background tabs included. Cross-origin pages see
+ * neither.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { ActionButtonAction, HardwareButtonHud } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { HARDWARE_BUTTONS } from '@/config/constants'
+import { applyFrameVisibility, sendMediaKey, type MediaKey } from '@/utils/hardwareButtons'
+import { useScreenshotStore } from './screenshot'
+
+export const useHardwareButtonsStore = defineStore('hardwareButtons', () => {
+  const screenshotStore = useScreenshotStore()
+
+  // Persisted settings
+  const actionButton = useLocalStorage<ActionButtonAction>(STORAGE_KEYS.ACTION_BUTTON, 'silent-mode')
+
+  // State
+  const volumeStep = ref(Math.round(HARDWARE_BUTTONS.DEFAULT_VOLUME * HARDWARE_BUTTONS.VOLUME_STEPS))
+  const isSilent = ref(false)
+  const isLocked = ref(false)
+  const isAtHomeScreen = ref(false)
+  const hud = ref<HardwareButtonHud | null>(null)
+
+  // Registered frames by viewport ID (DOM handles are not reactive state)
+  const frames = new Map<string, HTMLIFrameElement>()
+  let hudTimeout: ReturnType<typeof setTimeout> | null = null
+
+  // Getters
+  const volume = computed(() => volumeStep.value / HARDWARE_BUTTONS.VOLUME_STEPS)
+  const isPageHidden = computed(() => isLocked.value || isAtHomeScreen.value)
+
+  function showHud(value: HardwareButtonHud): void {
+    hud.value = value
+    if (hudTimeout) clearTimeout(hudTimeout)
+    hudTimeout = setTimeout(() => {
+      hud.value = null
+      hudTimeout = null
+    }, HARDWARE_BUTTONS.HUD_DURATION)
+  }
+
+  /**
+   * Tell every page it has been hidden or shown, if the lock screen or
+   * Home Screen coming or going changed that
+   */
+  function updateVisibility(wasHidden: boolean): void {
+    if (isPageHidden.value === wasHidden) return
+
+    for (const iframe of frames.values()) {
+      applyFrameVisibility(iframe, isPageHidden.value)
+    }
+  }
+
+  /**
+   * Send a media key to the pages on screen (background tabs are hidden)
+   */
+  function sendKey(key: MediaKey): void {
+    for (const iframe of frames.values()) {
+      if (iframe.offsetParent !== null) {
+        sendMediaKey(iframe, key)
+      }
+    }
+  }
+
+  // Actions
+
+  /**
+   * Track a viewport iframe, bringing a newly loaded page in line with
+   * the lock screen and Home Screen
+   */
+  function register(id: string, iframe: HTMLIFrameElement): void {
+    frames.set(id, iframe)
+    if (isPageHidden.value) {
+      applyFrameVisibility(iframe, true)
+    }
+  }
+
+  function unregister(id: string): void {
+    frames.delete(id)
+  }
+
+  function changeVolume(steps: number): void {
+    volumeStep.value = Math.min(HARDWARE_BUTTONS.VOLUME_STEPS, Math.max(0, volumeStep.value + steps))
+    showHud({ kind: 'volume', level: volume.value })
+    sendKey(steps > 0 ? 'AudioVolumeUp' : 'AudioVolumeDown')
+  }
+
+  function volumeUp(): void {
+    changeVolume(1)
+  }
+
+  function volumeDown(): void {
+    changeVolume(-1)
+  }
+
+  function setLocked(locked: boolean): void {
+    if (isLocked.value === locked) return
+
+    const wasHidden = isPageHidden.value
+    isLocked.value = locked
+    updateVisibility(wasHidden)
+  }
+
+  function setAtHomeScreen(atHomeScreen: boolean): void {
+    if (isAtHomeScreen.value === atHomeScreen) return
+
+    const wasHidden = isPageHidden.value
+    isAtHomeScreen.value = atHomeScreen
+    updateVisibility(wasHidden)
+  }
+
+  /**
+   * Side button: lock, or wake and unlock
+   */
+  function toggleLock(): void {
+    setLocked(!isLocked.value)
+  }
+
+  function toggleSilent(): void {
+    isSilent.value = !isSilent.value
+    showHud({ kind: 'silent', silent: isSilent.value })
+  }
+
+  function setActionButton(action: ActionButtonAction): void {
+    actionButton.value = action
+  }
+
+  /**
+   * Action button: run the configured action
+   */
+  function pressAction(): void {
+    switch (actionButton.value) {
+      case 'silent-mode':
+        toggleSilent()
+        break
+      case 'play-pause':
+        sendKey('MediaPlayPause')
+        break
+      case 'screenshot':
+        void screenshotStore.capture()
+        break
+      case 'none':
+        break
+    }
+  }
+
+  /**
+   * Home button: unlock the screen, or leave Safari for the Home Screen
+   */
+  function pressHome(): void {
+    if (isLocked.value) {
+      setLocked(false)
+      return
+    }
+    setAtHomeScreen(true)
+  }
+
+  /**
+   * Return to Safari from the Home Screen, showing the page again
+   */
+  function openSafari(): void {
+    setAtHomeScreen(false)
+  }
+
+  return {
+    // State
+    actionButton,
+    isSilent,
+    isLocked,
+    isAtHomeScreen,
+    hud,
+    // Getters
+    volume,
+    isPageHidden,
+    // Actions
+    register,
+    unregister,
+    volumeUp,
+    volumeDown,
+    setLocked,
+    setAtHomeScreen,
+    toggleLock,
+    toggleSilent,
+    setActionButton,
+    pressAction,
+    pressHome,
+    openSafari
+  }
+})
+
+export type HardwareButtonsStore = ReturnType<typeof useHardwareButtonsStore>
@@ -0,0 +1,80 @@
+/**
+ * History store tests
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { useHistoryStore } from './history'
+import { useNavigationStore } from './navigation'
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+})
+
+function setup() {
+  const historyStore = useHistoryStore()
+  const navigationStore = useNavigationStore()
+  return { historyStore, navigationStore, urls: () => historyStore.visits.map((visit) => visit.url) }
+}
+
+describe('visit recording', () => {
+  it('records each page navigated to, newest first', () => {
+    const { navigationStore, urls } = setup()
+
+    navigationStore.navigate('https://a.example.com/')
+    navigationStore.navigate('https://b.example.com/')
+
+    expect(urls()).toEqual(['https://b.example.com/', 'https://a.example.com/'])
+  })
+
+  it('records going back and forward as visits, but not reloads', () => {
+    const { navigationStore, urls } = setup()
+
+    navigationStore.navigate('https://a.example.com/')
+    navigationStore.navigate('https://b.example.com/')
+    navigationStore.goBack()
+    navigationStore.refresh()
+    navigationStore.goForward()
+
+    expect(urls()).toEqual([
+      'https://b.example.com/',
+      'https://a.example.com/',
+      'https://b.example.com/',
+      'https://a.example.com/'
+    ])
+  })
+
+  it('does not record actions that change nothing', () => {
+    const { navigationStore, historyStore } = setup()
+
+    navigationStore.goBack()
+    navigationStore.navigate('https://a.example.com/')
+    navigationStore.goForward()
+
+    expect(historyStore.visitCount).toBe(1)
+  })
+
+  it('fills in the visit\'s title and favicon as they arrive', () => {
+    const { navigationStore, historyStore } = setup()
+
+    navigationStore.navigate('https://a.example.com/')
+    expect(historyStore.visits[0]?.title).toBe('a.example.com')
+
+    navigationStore.updateTitle('Page A')
+    navigationStore.updateFavicon('https://a.example.com/favicon.ico')
+
+    expect(historyStore.visits).toHaveLength(1)
+    expect(historyStore.visits[0]).toMatchObject({ title: 'Page A', favicon: 'https://a.example.com/favicon.ico' })
+  })
+
+  it('does not record restored pages, or update their earlier visits', () => {
+    const { navigationStore, historyStore, urls } = setup()
+
+    navigationStore.navigate('https://a.example.com/')
+    navigationStore.restore([{ url: 'https://a.example.com/', timestamp: 1 }], 0)
+    navigationStore.updateTitle('Restored')
+
+    expect(urls()).toEqual(['https://a.example.com/'])
+    expect(historyStore.visits[0]?.title).toBe('a.example.com')
+  })
+})
@@ -0,0 +1,192 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { HistoryClearRange, HistoryVisit, NavigationAction, NavigationEntry } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { MAX_HISTORY_VISITS } from '@/config/constants'
+import { generateHistoryId } from '@/utils/identifiers'
+import { getDisplayDomain } from '@/utils/url'
+import {
+  getClearRangeStart,
+  getDayBounds,
+  serialiseHistoryCsv,
+  serialiseHistoryJson
+} from '@/utils/history'
+import { useNavigationStore } from './navigation'
+import { usePreferencesStore } from './preferences'
+
+/**
+ * Navigation actions that show the user a page, and so count as a visit
+ */
+const VISIT_ACTIONS = new Set<NavigationAction['type']>(['NAVIGATE', 'GO_BACK', 'GO_FORWARD'])
+
+/**
+ * History store
+ *
+ * Records every page visit in the main browser with its title, favicon and
+ * the device and orientation it was viewed on, newest first. Visits are
+ * persisted to localStorage and capped at MAX_HISTORY_VISITS.
+ *
+ * @example
+ * ```typescript
+ * const historyStore = useHistoryStore()
+ * historyStore.removeRange('hour')
+ * ```
+ */
+export const useHistoryStore = defineStore('history', () => {
+  const navigationStore = useNavigationStore()
+  const preferencesStore = usePreferencesStore()
+
+  // Persisted state
+  const visits = useLocalStorage<HistoryVisit[]>(STORAGE_KEYS.HISTORY, [])
+
+  // UI state
+  const isPanelOpen = ref(false)
+
+  // Visit for the page currently shown, updated as its title and icon arrive
+  let currentVisitId: string | null = null
+
+  const visitCount = computed(() => visits.value.length)
+
+  /**
+   * Record a visit to a URL on the current device
+   */
+  function recordVisit(url: string, details: { title?: string; favicon?: string } = {}): HistoryVisit {
+    const visit: HistoryVisit = {
+      id: generateHistoryId(),
+      url,
+      title: details.title?.trim() || getDisplayDomain(url),
+      ...(details.favicon ? { favicon: details.favicon } : {}),
+      visitedAt: Date.now(),
+      deviceId: preferencesStore.deviceId,
+      orientation: preferencesStore.orientation
+    }
+
+    visits.value = [visit, ...visits.value].slice(0, MAX_HISTORY_VISITS)
+    return visit
+  }
+
+  /**
+   * Copy a page's title and favicon into its visit once they are known
+   */
+  function updateVisit(id: string, entry: NavigationEntry): void {
+    const visit = visits.value.find((candidate) => candidate.id === id)
+    if (!visit || visit.url !== entry.url) return
+
+    const title = entry.title?.trim() || visit.title
+    const favicon = entry.favicon ?? visit.favicon
+    if (title === visit.title && favicon === visit.favicon) return
+
+    visits.value = visits.value.map((candidate) =>
+      candidate.id === id ? { ...candidate, title, ...(favicon ? { favicon } : {}) } : candidate
+    )
+  }
+
+  /**
+   * Remove a single visit
+   */
+  function removeVisit(id: string): void {
+    visits.value = visits.value.filter((visit) => visit.id !== id)
+  }
+
+  /**
+   * Remove visits made from `start` up to (but not including) `end`
+   */
+  function removeBetween(start: number, end = Infinity): void {
+    visits.value = visits.value.filter((visit) => visit.visitedAt < start || visit.visitedAt >= end)
+  }
+
+  /**
+   * Remove every visit on the day starting at `dayStart`
+   */
+  function removeDay(dayStart: number): void {
+    const { start, end } = getDayBounds(dayStart)
+    removeBetween(start, end)
+  }
+
+  /**
+   * Clear the last hour, today, today and yesterday, or all history
+   */
+  function removeRange(range: HistoryClearRange): void {
+    if (range === 'all') {
+      clearHistory()
+    } else {
+      removeBetween(getClearRangeStart(range))
+    }
+  }
+
+  function clearHistory(): void {
+    visits.value = []
+    currentVisitId = null
+  }
+
+  /**
+   * Export visits (all of them by default) as JSON
+   */
+  function exportJson(selection: HistoryVisit[] = visits.value): string {
+    return serialiseHistoryJson(selection)
+  }
+
+  /**
+   * Export visits (all of them by default) as CSV
+   */
+  function exportCsv(selection: HistoryVisit[] = visits.value): string {
+    return serialiseHistoryCsv(selection)
+  }
+
+  function openPanel(): void {
+    isPanelOpen.value = true
+  }
+
+  function closePanel(): void {
+    isPanelOpen.value = false
+  }
+
+  function togglePanel(): void {
+    isPanelOpen.value = !isPanelOpen.value
+  }
+
+  // Record pages as the main browser shows them. Restoring a tab or
+  // session shows a page that was already recorded, so is not a visit.
+  navigationStore.use((action, next, getState) => {
+    const previous = getState()
+    const state = next(action)
+    if (state === previous) return state
+
+    const entry = state.history[state.historyIndex]
+    if (!entry) {
+      currentVisitId = null
+    } else if (VISIT_ACTIONS.has(action.type)) {
+      currentVisitId = recordVisit(entry.url, {
+        ...(entry.title ? { title: entry.title } : {}),
+        ...(entry.favicon ? { favicon: entry.favicon } : {})
+      }).id
+    } else if (action.type === 'RESTORE') {
+      currentVisitId = null
+    } else if (currentVisitId && state.history !== previous.history) {
+      updateVisit(currentVisitId, entry)
+    }
+    return state
+  })
+
+  return {
+    // State
+    visits,
+    visitCount,
+    isPanelOpen,
+
+    // Actions
+    recordVisit,
+    removeVisit,
+    removeBetween,
+    removeDay,
+    removeRange,
+    clearHistory,
+    exportJson,
+    exportCsv,
+    openPanel,
+    closePanel,
+    togglePanel
+  }
+})
+
+export type HistoryStore = ReturnType<typeof useHistoryStore>
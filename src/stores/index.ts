@@ -9,3 +9,23 @@ export { useDeviceStore } from './device'
 export { useBrowserStore } from './browser'
 export { useNavigationStore, type NavigationStore } from './navigation'
 export { usePreferencesStore, type PreferencesStore } from './preferences'
+export { useTabsStore, type TabsStore } from './tabs'
+export { useBookmarksStore, type BookmarksStore } from './bookmarks'
+export { useComparisonStore, type ComparisonStore } from './comparison'
+export { useViewportSyncStore, type ViewportSyncStore } from './viewportSync'
+export { useProxyStore, type ProxyStore } from './proxy'
+export { useUserAgentStore, type UserAgentStore } from './userAgent'
+export { useScreenshotStore, type ScreenshotStore } from './screenshot'
+export { useRecordingStore, type RecordingStore } from './recording'
+export { useTouchEmulationStore, type TouchEmulationStore } from './touchEmulation'
+export { useSessionStore, type SessionStore } from './session'
+export { useDeepLinkStore, type DeepLinkStore } from './deepLink'
+export { useHistoryStore, type HistoryStore } from './history'
+export { useOmniboxStore, type OmniboxStore } from './omnibox'
+export { useCustomDevicesStore, type CustomDevicesStore } from './customDevices'
+export { useHardwareButtonsStore, type HardwareButtonsStore } from './hardwareButtons'
+export { useStatusBarStore, type StatusBarStore } from './statusBar'
+export { useLiveActivitiesStore, type LiveActivitiesStore } from './liveActivities'
+export { useFullScreenStore, type FullScreenStore } from './fullScreen'
+export { useKeyboardStore, type KeyboardStore } from './keyboard'
+export { useNetworkStore, type NetworkStore } from './network'
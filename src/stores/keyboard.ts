@@ -0,0 +1,171 @@
+/**
+ * Keyboard store
+ *
+ * The on-screen iOS keyboard. A script in same-origin viewport iframes
+ * reports text fields gaining focus; the keyboard then comes up on the
+ * screen holding that viewport, in the layout the field asks for, and
+ * its keys type into the field. The page's visual viewport shrinks by the
+ * keyboard's height whilst it is up. Cross-origin pages get no keyboard.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { KeyboardLayout, KeyboardMessage, KeyboardPlane, KeyboardShift, ReturnKeyType } from '@/types'
+import { isLetterLayout, sendKeyboardCommand, type KeyboardCommand } from '@/utils/keyboard'
+
+export const useKeyboardStore = defineStore('keyboard', () => {
+  // State
+  const targetId = ref<string | null>(null)
+  const layout = ref<KeyboardLayout>('text')
+  const returnKey = ref<ReturnKeyType>('return')
+  const plane = ref<KeyboardPlane>('letters')
+  const shift = ref<KeyboardShift>('off')
+  const hasPrevious = ref(false)
+  const hasNext = ref(false)
+
+  // Frame with the focused field (DOM handles are not reactive state)
+  let targetFrame: HTMLIFrameElement | null = null
+
+  // Getters
+  const isVisible = computed(() => targetId.value !== null)
+
+  function send(command: KeyboardCommand): void {
+    if (targetFrame) {
+      sendKeyboardCommand(targetFrame, command)
+    }
+  }
+
+  // Actions
+
+  /**
+   * Handle a message from the keyboard script in a viewport's page
+   */
+  function receive(id: string, iframe: HTMLIFrameElement, message: KeyboardMessage): void {
+    if (message.type === 'blur') {
+      hide(id)
+      return
+    }
+
+    // A field in another viewport takes the keyboard
+    if (targetFrame && targetFrame !== iframe) {
+      send({ type: 'height', height: 0 })
+    }
+
+    targetId.value = id
+    targetFrame = iframe
+    layout.value = message.layout
+    returnKey.value = message.returnKey
+    hasPrevious.value = message.hasPrevious
+    hasNext.value = message.hasNext
+    plane.value = message.layout === 'number' ? 'numbers' : 'letters'
+    shift.value = 'off'
+  }
+
+  /**
+   * Put the keyboard away, giving the page its full visual viewport back.
+   * With a viewport ID, only if that viewport has the keyboard.
+   */
+  function hide(id?: string): void {
+    if (id !== undefined && id !== targetId.value) return
+
+    send({ type: 'height', height: 0 })
+    targetId.value = null
+    targetFrame = null
+  }
+
+  /**
+   * Whether the keyboard belongs to a viewport inside an element (the
+   * screen it should appear on)
+   */
+  function isTargetIn(element: HTMLElement): boolean {
+    return targetId.value !== null && targetFrame !== null && element.contains(targetFrame)
+  }
+
+  /**
+   * Tell the page how much of the screen the keyboard covers
+   */
+  function setHeight(height: number): void {
+    send({ type: 'height', height })
+  }
+
+  /**
+   * Type a key's text, capitalised whilst shift is on (single letters only,
+   * not keys such as .com)
+   */
+  function type(text: string): void {
+    const shifted = shift.value !== 'off' && text.length === 1
+    send({ type: 'key', key: shifted ? text.toUpperCase() : text })
+
+    if (shift.value === 'on') {
+      shift.value = 'off'
+    }
+    // As on iOS, a space after numbers or symbols returns to the letters
+    if (text === ' ' && plane.value !== 'letters' && layout.value !== 'number') {
+      plane.value = 'letters'
+    }
+  }
+
+  function backspace(): void {
+    send({ type: 'key', key: 'Backspace' })
+  }
+
+  function enter(): void {
+    send({ type: 'key', key: 'Enter' })
+  }
+
+  function toggleShift(): void {
+    shift.value = shift.value === 'off' ? 'on' : 'off'
+  }
+
+  function lockShift(): void {
+    shift.value = 'locked'
+  }
+
+  function setPlane(value: KeyboardPlane): void {
+    if (!isLetterLayout(layout.value)) return
+    plane.value = value
+    shift.value = 'off'
+  }
+
+  /**
+   * Focus the previous or next field (the accessory bar's arrows)
+   */
+  function moveFocus(step: 1 | -1): void {
+    send({ type: 'move', step })
+  }
+
+  /**
+   * Done: leave the field, which puts the keyboard away
+   */
+  function dismiss(): void {
+    send({ type: 'dismiss' })
+    hide()
+  }
+
+  return {
+    // State
+    targetId,
+    layout,
+    returnKey,
+    plane,
+    shift,
+    hasPrevious,
+    hasNext,
+    // Getters
+    isVisible,
+    // Actions
+    receive,
+    hide,
+    isTargetIn,
+    setHeight,
+    type,
+    backspace,
+    enter,
+    toggleShift,
+    lockShift,
+    setPlane,
+    moveFocus,
+    dismiss
+  }
+})
+
+export type KeyboardStore = ReturnType<typeof useKeyboardStore>
@@ -0,0 +1,246 @@
+/**
+ * Live Activities store
+ *
+ * The Live Activities shown in the Dynamic Island and how the island
+ * presents them. The newest activity is the primary one, shown compact
+ * either side of the island; the next sits beside it as a minimal bubble.
+ * Any activity can be expanded into the full card for a while.
+ *
+ * Activities come from the control panel, from pages posting messages
+ * (see utils/liveActivity) and from timelines that script a sequence of
+ * commands for demos. Activities are not saved between visits.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type {
+  IslandState,
+  LiveActivity,
+  LiveActivityChanges,
+  LiveActivityCommand,
+  LiveActivityMessage,
+  LiveActivityTimeline
+} from '@/types'
+import { LIVE_ACTIVITY } from '@/config/constants'
+import { parseLiveActivity } from '@/utils/liveActivity'
+
+/**
+ * Timers start, and answered calls connect, when they reach the island
+ * unless a start time was given
+ */
+function stamp(activity: LiveActivity): LiveActivity {
+  if (activity.kind === 'timer' && activity.startedAt === undefined) {
+    return { ...activity, startedAt: Date.now() }
+  }
+  if (activity.kind === 'call' && activity.connected && activity.startedAt === undefined) {
+    return { ...activity, startedAt: Date.now() }
+  }
+  return activity
+}
+
+export const useLiveActivitiesStore = defineStore('liveActivities', () => {
+  // State
+  const activities = ref<LiveActivity[]>([])
+  const presentation = ref<'compact' | 'minimal'>('compact')
+  const expandedId = ref<string | null>(null)
+  const isTimelineRunning = ref(false)
+
+  let collapseTimeout: ReturnType<typeof setTimeout> | null = null
+  let timelineTimeouts: ReturnType<typeof setTimeout>[] = []
+
+  // Getters
+  const primary = computed(() => activities.value[0] ?? null)
+
+  const secondary = computed(() => activities.value[1] ?? null)
+
+  const expandedActivity = computed(() =>
+    activities.value.find((activity) => activity.id === expandedId.value) ?? null
+  )
+
+  const islandState = computed<IslandState>(() => {
+    if (expandedActivity.value) return 'expanded'
+    if (!primary.value) return 'idle'
+    return presentation.value
+  })
+
+  // Actions
+
+  /**
+   * Show an activity, replacing any with the same ID
+   *
+   * @returns The activity's ID
+   */
+  function start(activity: LiveActivity): string {
+    const others = activities.value.filter((existing) => existing.id !== activity.id)
+    activities.value = [stamp(activity), ...others].slice(0, LIVE_ACTIVITY.MAX_ACTIVITIES)
+    return activity.id
+  }
+
+  /**
+   * Change fields of an activity. Its kind and ID cannot change.
+   *
+   * @returns Whether the activity exists and the changes are valid
+   */
+  function update(id: string, changes: LiveActivityChanges): boolean {
+    const index = activities.value.findIndex((activity) => activity.id === id)
+    const current = activities.value[index]
+    if (!current) return false
+
+    const updated = parseLiveActivity({ ...current, ...changes, kind: current.kind, id })
+    if (!updated) return false
+
+    activities.value = activities.value.map((activity, i) => (i === index ? stamp(updated) : activity))
+    return true
+  }
+
+  function end(id: string): void {
+    activities.value = activities.value.filter((activity) => activity.id !== id)
+    if (expandedId.value === id) {
+      collapse()
+    }
+  }
+
+  /**
+   * Expand an activity (the primary one by default) for `duration`
+   * milliseconds, or until collapsed when the duration is 0
+   */
+  function expand(id?: string, duration: number = LIVE_ACTIVITY.EXPAND_DURATION): void {
+    const target = id ?? primary.value?.id
+    if (!target || !activities.value.some((activity) => activity.id === target)) return
+
+    collapse()
+    expandedId.value = target
+    if (duration > 0) {
+      collapseTimeout = setTimeout(collapse, duration)
+    }
+  }
+
+  function collapse(): void {
+    expandedId.value = null
+    if (collapseTimeout) {
+      clearTimeout(collapseTimeout)
+      collapseTimeout = null
+    }
+  }
+
+  /**
+   * Tap on the island: expand the activity until tapped again
+   */
+  function toggleExpanded(id?: string): void {
+    if (expandedId.value) {
+      collapse()
+    } else {
+      expand(id, 0)
+    }
+  }
+
+  function setPresentation(state: 'compact' | 'minimal'): void {
+    presentation.value = state
+  }
+
+  function clear(): void {
+    collapse()
+    activities.value = []
+  }
+
+  function run(command: LiveActivityCommand): void {
+    switch (command.type) {
+      case 'start':
+        start(command.activity)
+        break
+      case 'update':
+        update(command.id, command.changes)
+        break
+      case 'end':
+        end(command.id)
+        break
+      case 'expand':
+        expand(command.id, command.duration)
+        break
+      case 'collapse':
+        collapse()
+        break
+      case 'present':
+        setPresentation(command.state)
+        break
+      case 'clear':
+        clear()
+        break
+    }
+  }
+
+  function stopTimeline(): void {
+    timelineTimeouts.forEach(clearTimeout)
+    timelineTimeouts = []
+    isTimelineRunning.value = false
+  }
+
+  /**
+   * Run a timeline's steps at their times, replacing any running
+   * timeline. A looping timeline clears the island and starts again
+   * after its last step.
+   */
+  function runTimeline(timeline: LiveActivityTimeline): void {
+    stopTimeline()
+    isTimelineRunning.value = true
+
+    const schedule = () => {
+      timelineTimeouts = timeline.steps.map((step) => setTimeout(() => run(step), step.at))
+
+      const lastAt = timeline.steps[timeline.steps.length - 1]?.at ?? 0
+      timelineTimeouts.push(
+        timeline.loop
+          ? setTimeout(() => {
+            clear()
+            schedule()
+          }, lastAt + LIVE_ACTIVITY.TIMELINE_LOOP_DELAY)
+          : setTimeout(() => {
+            timelineTimeouts = []
+            isTimelineRunning.value = false
+          }, lastAt)
+      )
+    }
+
+    schedule()
+  }
+
+  /**
+   * Handle a message posted by a page
+   */
+  function receive(message: LiveActivityMessage): void {
+    if (message.type === 'timeline') {
+      runTimeline(message.timeline)
+    } else if (message.type === 'stop-timeline') {
+      stopTimeline()
+    } else {
+      run(message)
+    }
+  }
+
+  return {
+    // State
+    activities,
+    presentation,
+    expandedId,
+    isTimelineRunning,
+    // Getters
+    primary,
+    secondary,
+    expandedActivity,
+    islandState,
+    // Actions
+    start,
+    update,
+    end,
+    expand,
+    collapse,
+    toggleExpanded,
+    setPresentation,
+    clear,
+    run,
+    runTimeline,
+    stopTimeline,
+    receive
+  }
+})
+
+export type LiveActivitiesStore = ReturnType<typeof useLiveActivitiesStore>
@@ -0,0 +1,43 @@
+/**
+ * Network store
+ *
+ * The network conditions pages load under. The rewriting proxy throttles
+ * the pages it serves to the chosen profile's latency and throughput (the
+ * profile is part of each viewport's proxy URL). Offline, new pages fail
+ * to load with a network error and same-origin pages are told they are
+ * offline, with or without the proxy.
+ */
+import { defineStore } from 'pinia'
+import { computed } from 'vue'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { DEFAULT_NETWORK_PROFILE, isNetworkProfileId, NETWORK_PROFILES, type NetworkProfileId } from '@/config/browser'
+
+export const useNetworkStore = defineStore('network', () => {
+  // Persisted settings
+  const profileId = useLocalStorage<NetworkProfileId>(STORAGE_KEYS.NETWORK_PROFILE, DEFAULT_NETWORK_PROFILE)
+
+  // Getters
+  const profile = computed(() => NETWORK_PROFILES[profileId.value] ?? NETWORK_PROFILES[DEFAULT_NETWORK_PROFILE])
+  const isOffline = computed(() => profileId.value === 'offline')
+  const isThrottled = computed(() => profileId.value !== DEFAULT_NETWORK_PROFILE && !isOffline.value)
+
+  // Actions
+  function setProfile(id: string): void {
+    if (isNetworkProfileId(id)) {
+      profileId.value = id
+    }
+  }
+
+  return {
+    // State
+    profileId,
+    // Getters
+    profile,
+    isOffline,
+    isThrottled,
+    // Actions
+    setProfile
+  }
+})
+
+export type NetworkStore = ReturnType<typeof useNetworkStore>
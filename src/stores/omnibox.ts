@@ -0,0 +1,144 @@
+/**
+ * Address bar (omnibox) store
+ *
+ * Turns typed text into an address or a search on the chosen engine and
+ * suggests pages from history, bookmarks and open tabs alongside the
+ * engine's own search suggestions. The engines do not allow cross-origin
+ * requests, so by default their suggestions are fetched through the
+ * rewriting proxy when it is available; setSuggestionFetcher() swaps in
+ * another source.
+ */
+import { defineStore } from 'pinia'
+import { computed } from 'vue'
+import type { OmniboxSuggestion } from '@/types/browser'
+import { SEARCH_ENGINES } from '@/config/browser'
+import { OMNIBOX } from '@/config/constants'
+import { toProxyUrl } from '@/utils/proxy'
+import {
+  collectHistoryCandidates,
+  createSearchSuggestionFetcher,
+  getSearchUrl,
+  rankSuggestions,
+  resolveOmniboxInput,
+  type OmniboxCandidate,
+  type OmniboxTarget,
+  type SearchSuggestionFetcher
+} from '@/utils/omnibox'
+import { useBookmarksStore } from './bookmarks'
+import { useHistoryStore } from './history'
+import { usePreferencesStore } from './preferences'
+import { useProxyStore } from './proxy'
+import { useTabsStore } from './tabs'
+
+export const useOmniboxStore = defineStore('omnibox', () => {
+  const bookmarksStore = useBookmarksStore()
+  const historyStore = useHistoryStore()
+  const preferencesStore = usePreferencesStore()
+  const proxyStore = useProxyStore()
+  const tabsStore = useTabsStore()
+
+  const defaultFetcher = createSearchSuggestionFetcher((url) =>
+    proxyStore.isAvailable ? toProxyUrl(url) : null
+  )
+  let fetcher: SearchSuggestionFetcher = defaultFetcher
+
+  // Getters
+
+  /**
+   * Display name of the chosen search engine
+   */
+  const engineName = computed(() => SEARCH_ENGINES[preferencesStore.searchEngine].name)
+
+  /**
+   * History is aggregated once per change rather than on every keystroke
+   */
+  const historyCandidates = computed(() => collectHistoryCandidates(historyStore.visits))
+
+  // Queries
+
+  /**
+   * Page to open for typed text, or null when there is nothing to open
+   */
+  function resolveInput(text: string): OmniboxTarget | null {
+    return resolveOmniboxInput(text, preferencesStore.searchEngine)
+  }
+
+  /**
+   * Ask the search engine for suggestions. Resolves with an empty list when
+   * they are unavailable or the request is aborted.
+   */
+  async function fetchSuggestions(query: string, signal: AbortSignal): Promise<string[]> {
+    const trimmed = query.trim()
+    if (!trimmed) return []
+
+    const phrases = await fetcher(trimmed, preferencesStore.searchEngine, signal)
+    return phrases.slice(0, OMNIBOX.MAX_SEARCH_SUGGESTIONS)
+  }
+
+  /**
+   * Suggestions for typed text: what was typed first (as an address or a
+   * search), then matching pages, then the engine's search suggestions
+   *
+   * @param remote - Search phrases from fetchSuggestions()
+   * @param includeTabs - Offer to switch to open tabs other than the active one
+   */
+  function getSuggestions(text: string, remote: string[] = [], includeTabs = false): OmniboxSuggestion[] {
+    const target = resolveInput(text)
+    if (!target) return []
+
+    const typed = text.trim()
+    const candidates: OmniboxCandidate[] = [
+      ...(includeTabs
+        ? tabsStore.tabs
+          .filter((tab) => tab.id !== tabsStore.activeTabId && tab.url)
+          .map((tab): OmniboxCandidate => ({ source: 'tab', url: tab.url, title: tab.title, tabId: tab.id }))
+        : []),
+      ...bookmarksStore.bookmarks.map((bookmark): OmniboxCandidate => ({
+        source: 'bookmark',
+        url: bookmark.url,
+        title: bookmark.title
+      })),
+      ...historyCandidates.value
+    ]
+
+    const pages = rankSuggestions(typed, candidates, OMNIBOX.MAX_SUGGESTIONS)
+      .filter((suggestion) => suggestion.url !== target.url || suggestion.tabId)
+
+    const searches = remote
+      .filter((phrase) => phrase.toLowerCase() !== typed.toLowerCase())
+      .map((phrase): OmniboxSuggestion => ({
+        id: `search:${phrase}`,
+        source: 'search',
+        title: phrase,
+        url: getSearchUrl(preferencesStore.searchEngine, phrase)
+      }))
+
+    return [
+      { id: 'typed', source: target.kind, title: typed, url: target.url },
+      ...pages,
+      ...searches
+    ]
+  }
+
+  // Actions
+
+  /**
+   * Replace the search suggestion source, or pass null to restore the default
+   */
+  function setSuggestionFetcher(next: SearchSuggestionFetcher | null): void {
+    fetcher = next ?? defaultFetcher
+  }
+
+  return {
+    // Getters
+    engineName,
+    // Queries
+    resolveInput,
+    fetchSuggestions,
+    getSuggestions,
+    // Actions
+    setSuggestionFetcher
+  }
+})
+
+export type OmniboxStore = ReturnType<typeof useOmniboxStore>
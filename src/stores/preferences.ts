@@ -3,12 +3,14 @@ import { ref, computed, watch } from 'vue'
 import type { DeviceOrientation } from '@/types/device'
 import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
 import type { Theme } from '@/config/constants'
+import { DEFAULT_COLOUR, isDeviceColourId, type DeviceColourId } from '@/config/devices'
+import { DEFAULT_SEARCH_ENGINE, isSearchEngineId, type SearchEngineId } from '@/config/browser'
 
 /**
  * User preferences store
  *
  * Manages user preferences including theme, device selection,
- * and orientation. Preferences are persisted to localStorage.
+ * colour and orientation. Preferences are persisted to localStorage.
  *
  * @example
  * ```typescript
@@ -21,8 +23,10 @@ export const usePreferencesStore = defineStore('preferences', () => {
   // Persisted preferences
   const deviceId = useLocalStorage(STORAGE_KEYS.DEVICE_ID, 'iphone-15-pro')
   const orientation = useLocalStorage<DeviceOrientation>(STORAGE_KEYS.ORIENTATION, 'portrait')
+  const colourId = useLocalStorage<DeviceColourId>(STORAGE_KEYS.DEVICE_COLOUR, DEFAULT_COLOUR)
   const theme = useLocalStorage<Theme>(STORAGE_KEYS.THEME, 'system')
   const urlHistory = useLocalStorage<string[]>(STORAGE_KEYS.URL_HISTORY, [])
+  const searchEngine = useLocalStorage<SearchEngineId>(STORAGE_KEYS.SEARCH_ENGINE, DEFAULT_SEARCH_ENGINE)
 
   // Resolved theme (system preference resolved to actual theme)
   const resolvedTheme = ref<'light' | 'dark'>('light')
@@ -78,6 +82,24 @@ export const usePreferencesStore = defineStore('preferences', () => {
     deviceId.value = id
   }
 
+  /**
+   * Set the device colour, ignoring unknown finishes
+   */
+  function setColourId(id: DeviceColourId): void {
+    if (isDeviceColourId(id)) {
+      colourId.value = id
+    }
+  }
+
+  /**
+   * Set the address bar search engine, ignoring unknown engines
+   */
+  function setSearchEngine(id: string): void {
+    if (isSearchEngineId(id)) {
+      searchEngine.value = id
+    }
+  }
+
   /**
    * Set the orientation
    */
@@ -151,7 +173,9 @@ export const usePreferencesStore = defineStore('preferences', () => {
     // State
     deviceId,
     orientation,
+    colourId,
     theme,
+    searchEngine,
     resolvedTheme,
     isDarkMode,
     urlHistory,
@@ -161,6 +185,8 @@ export const usePreferencesStore = defineStore('preferences', () => {
     setTheme,
     toggleTheme,
     setDeviceId,
+    setColourId,
+    setSearchEngine,
     setOrientation,
     toggleOrientation,
     addToUrlHistory,
@@ -0,0 +1,69 @@
+/**
+ * Rewriting proxy store
+ *
+ * Tracks whether the rewriting proxy is available (it is only served by
+ * the Vite dev/preview servers and the standalone server) and whether
+ * the user has chosen to load pages through it.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { PROXY } from '@/config/constants'
+import { isProxiableUrl, toProxyUrl, DEFAULT_PROXY_ROUTE, type ProxyRoute } from '@/utils/proxy'
+
+export const useProxyStore = defineStore('proxy', () => {
+  // State
+  const enabled = useLocalStorage(STORAGE_KEYS.PROXY_ENABLED, false)
+  const isAvailable = ref(false)
+
+  // Getters
+  const isActive = computed(() => enabled.value && isAvailable.value)
+
+  /**
+   * Probe the health endpoint. Static hosts answer with the app's
+   * index.html, so the JSON body is checked rather than the status alone.
+   */
+  async function checkAvailability(): Promise<boolean> {
+    try {
+      const response = await fetch(PROXY.HEALTH_PATH, { cache: 'no-store' })
+      const body = (response.ok ? await response.json() : null) as Record<string, unknown> | null
+      isAvailable.value = body?.['ok'] === true && body['service'] === 'ibe-proxy'
+    } catch {
+      isAvailable.value = false
+    }
+    return isAvailable.value
+  }
+
+  /**
+   * URL to load in the viewport iframe for a page URL
+   *
+   * @param route - User agent and network profiles the proxy emulates
+   */
+  function resolveFrameUrl(url: string, route: ProxyRoute = DEFAULT_PROXY_ROUTE): string {
+    if (!isActive.value || !isProxiableUrl(url)) return url
+    return toProxyUrl(url, route)
+  }
+
+  function setEnabled(value: boolean): void {
+    enabled.value = value
+  }
+
+  function toggle(): void {
+    enabled.value = !enabled.value
+  }
+
+  return {
+    // State
+    enabled,
+    isAvailable,
+    // Getters
+    isActive,
+    // Actions
+    checkAvailability,
+    resolveFrameUrl,
+    setEnabled,
+    toggle
+  }
+})
+
+export type ProxyStore = ReturnType<typeof useProxyStore>
@@ -0,0 +1,147 @@
+/**
+ * Recording store
+ *
+ * Records the single-device view to WebM, or to an animated GIF where WebM
+ * is unavailable or chosen, and downloads it. The element to record is
+ * registered by the app shell.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { RecordingFormat, RecordingOptions } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { usePreferencesStore } from './preferences'
+import { getDeviceById } from '@/config/devices'
+import { RECORDING } from '@/config/constants'
+import { downloadBlob, timestampedFilename } from '@/utils/download'
+import {
+  startRecording,
+  getWebmMimeType,
+  isScreenRecordingSupported,
+  type RecordingSession
+} from '@/utils/recording'
+
+export const useRecordingStore = defineStore('recording', () => {
+  const preferencesStore = usePreferencesStore()
+
+  // Persisted options
+  const options = useLocalStorage<RecordingOptions>(STORAGE_KEYS.RECORDING_OPTIONS, {
+    format: 'webm',
+    fps: RECORDING.DEFAULT_FPS,
+    includeFrame: true,
+    showTouches: true
+  })
+
+  // Recording state
+  const isStarting = ref(false)
+  const isRecording = ref(false)
+  const elapsed = ref(0)
+  const message = ref<string | null>(null)
+
+  // Element containing the device frame and the running session
+  // (DOM and media handles, not reactive state)
+  let target: HTMLElement | null = null
+  let session: RecordingSession | null = null
+  let startedAt = 0
+  let clock: number | undefined
+
+  const isSupported = computed(() => isScreenRecordingSupported())
+
+  // WebM falls back to GIF where MediaRecorder cannot produce it
+  const effectiveFormat = computed<RecordingFormat>(() =>
+    options.value.format === 'webm' && !getWebmMimeType() ? 'gif' : options.value.format
+  )
+
+  function setTarget(element: HTMLElement | null): void {
+    target = element
+  }
+
+  function updateOptions(changes: Partial<RecordingOptions>): void {
+    options.value = { ...options.value, ...changes }
+  }
+
+  function getRecordedElement(): HTMLElement | null {
+    return target?.querySelector<HTMLElement>(
+      options.value.includeFrame ? '.device-frame' : '.device-screen'
+    ) ?? null
+  }
+
+  /**
+   * Start recording; the browser asks the user to share this tab
+   */
+  async function start(): Promise<void> {
+    if (session || isStarting.value || !isSupported.value) return
+
+    const format = effectiveFormat.value
+    isStarting.value = true
+    message.value = format !== options.value.format
+      ? 'WebM recording is not supported in this browser, so a GIF will be saved.'
+      : null
+
+    try {
+      session = await startRecording(getRecordedElement, {
+        format,
+        fps: options.value.fps,
+        showTouches: options.value.showTouches,
+        onEnded: () => void stop()
+      })
+      isRecording.value = true
+      startedAt = Date.now()
+      elapsed.value = 0
+      clock = window.setInterval(() => {
+        elapsed.value = Math.floor((Date.now() - startedAt) / 1000)
+      }, 1000)
+    } catch (error) {
+      // Dismissing the share prompt is not an error worth reporting
+      if (!(error instanceof DOMException && error.name === 'NotAllowedError')) {
+        message.value = error instanceof Error ? error.message : 'Recording failed'
+      }
+    } finally {
+      isStarting.value = false
+    }
+  }
+
+  /**
+   * Stop recording and download the file
+   */
+  async function stop(): Promise<void> {
+    const active = session
+    if (!active) return
+
+    session = null
+    window.clearInterval(clock)
+    isRecording.value = false
+
+    try {
+      const blob = await active.stop()
+      const device = getDeviceById(preferencesStore.deviceId)
+      const extension = blob.type === 'image/gif' ? 'gif' : 'webm'
+      downloadBlob(blob, timestampedFilename(`${device.id}-recording`, extension))
+    } catch (error) {
+      message.value = error instanceof Error ? error.message : 'Recording failed'
+    }
+  }
+
+  function toggle(): Promise<void> {
+    return isRecording.value ? stop() : start()
+  }
+
+  return {
+    // State
+    options,
+    isStarting,
+    isRecording,
+    elapsed,
+    message,
+    // Getters
+    isSupported,
+    effectiveFormat,
+    // Actions
+    setTarget,
+    updateOptions,
+    start,
+    stop,
+    toggle
+  }
+})
+
+export type RecordingStore = ReturnType<typeof useRecordingStore>
@@ -0,0 +1,117 @@
+/**
+ * Screenshot store
+ *
+ * Captures the single-device view to PNG at the device's pixel ratio and
+ * downloads it. The element to capture is registered by the app shell.
+ */
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { ScreenshotOptions } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { usePreferencesStore } from './preferences'
+import { getDeviceById } from '@/config/devices'
+import { LIGHT_THEME, DARK_THEME } from '@/config/constants'
+import { downloadBlob, timestampedFilename } from '@/utils/download'
+import {
+  captureDevice,
+  captureFullPage,
+  canvasToPng,
+  findVisibleFrame
+} from '@/utils/screenshot'
+
+export const useScreenshotStore = defineStore('screenshot', () => {
+  const preferencesStore = usePreferencesStore()
+
+  // Persisted options
+  const options = useLocalStorage<ScreenshotOptions>(STORAGE_KEYS.SCREENSHOT_OPTIONS, {
+    mode: 'viewport',
+    includeFrame: true,
+    transparent: false
+  })
+
+  // Capture state
+  const isCapturing = ref(false)
+  const message = ref<string | null>(null)
+
+  // Element containing the device frame (a DOM handle, not reactive state)
+  let target: HTMLElement | null = null
+
+  function setTarget(element: HTMLElement | null): void {
+    target = element
+  }
+
+  function updateOptions(changes: Partial<ScreenshotOptions>): void {
+    options.value = { ...options.value, ...changes }
+  }
+
+  /**
+   * Render the current capture to a canvas
+   */
+  async function render(root: HTMLElement, pixelRatio: number): Promise<HTMLCanvasElement | null> {
+    const iframe = findVisibleFrame(root)
+
+    if (options.value.mode === 'full-page') {
+      const canvas = iframe ? await captureFullPage(iframe, pixelRatio) : null
+      if (!canvas) {
+        message.value = 'Full-page capture needs a same-origin page. Turn on the proxy to capture other sites.'
+      }
+      return canvas
+    }
+
+    const element = root.querySelector<HTMLElement>(
+      options.value.includeFrame ? '.device-frame' : '.device-screen'
+    )
+    if (!element) return null
+
+    const background = preferencesStore.isDarkMode ? DARK_THEME.background : LIGHT_THEME.background
+    const capture = await captureDevice(element, iframe, {
+      pixelRatio,
+      ...(options.value.transparent ? {} : { backgroundColor: background })
+    })
+
+    if (!capture.pageCaptured) {
+      message.value = 'The page is cross-origin, so it was left blank. Turn on the proxy to include it.'
+    }
+    return capture.canvas
+  }
+
+  /**
+   * Capture the device and download the PNG
+   *
+   * @returns True if a file was saved
+   */
+  async function capture(): Promise<boolean> {
+    if (!target || isCapturing.value) return false
+
+    const device = getDeviceById(preferencesStore.deviceId)
+    isCapturing.value = true
+    message.value = null
+
+    try {
+      const canvas = await render(target, device.devicePixelRatio)
+      if (!canvas) return false
+
+      const blob = await canvasToPng(canvas)
+      downloadBlob(blob, timestampedFilename(`${device.id}-${options.value.mode}`, 'png'))
+      return true
+    } catch (error) {
+      message.value = error instanceof Error ? error.message : 'Screenshot failed'
+      return false
+    } finally {
+      isCapturing.value = false
+    }
+  }
+
+  return {
+    // State
+    options,
+    isCapturing,
+    message,
+    // Actions
+    setTarget,
+    updateOptions,
+    capture
+  }
+})
+
+export type ScreenshotStore = ReturnType<typeof useScreenshotStore>
@@ -0,0 +1,212 @@
+/**
+ * Session store
+ *
+ * Saves the emulator session (device, orientation and every tab's history
+ * with titles, favicons and scroll positions) and restores it on startup.
+ * Each window keeps its session ID in sessionStorage, so reloading picks up
+ * the same session whilst a new window starts from the most recently saved
+ * one. Scroll positions are put back when a page is returned to with back,
+ * forward or reload.
+ */
+import { defineStore } from 'pinia'
+import { ref, watch } from 'vue'
+import type { ScrollPosition, SessionSnapshot } from '@/types'
+import { read, write, remove, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { SESSION } from '@/config/constants'
+import { isValidDeviceId } from '@/config/devices'
+import { generateSessionId } from '@/utils/identifiers'
+import { createPersistenceMiddleware } from '@/utils/navigation'
+import { useNavigationStore } from './navigation'
+import { usePreferencesStore } from './preferences'
+import { useTabsStore } from './tabs'
+
+/**
+ * Saved sessions keyed by session ID
+ */
+type SessionMap = Record<string, SessionSnapshot>
+
+function readSessionId(): string | null {
+  try {
+    return window.sessionStorage.getItem(STORAGE_KEYS.SESSION_ID)
+  } catch {
+    return null
+  }
+}
+
+function writeSessionId(id: string): void {
+  try {
+    window.sessionStorage.setItem(STORAGE_KEYS.SESSION_ID, id)
+  } catch {
+    // Without sessionStorage every load starts a new session
+  }
+}
+
+/**
+ * Check that stored data still looks like a session worth restoring
+ */
+function isRestorable(snapshot: SessionSnapshot | undefined): snapshot is SessionSnapshot {
+  return Boolean(
+    snapshot &&
+    Array.isArray(snapshot.tabs) &&
+    snapshot.tabs.length > 0 &&
+    snapshot.tabs.every((tab) => typeof tab.id === 'string' && Array.isArray(tab.history))
+  )
+}
+
+function getNewest(sessions: SessionMap): SessionSnapshot | undefined {
+  return Object.values(sessions).reduce<SessionSnapshot | undefined>(
+    (newest, snapshot) => (!newest || snapshot.savedAt > newest.savedAt ? snapshot : newest),
+    undefined
+  )
+}
+
+export const useSessionStore = defineStore('session', () => {
+  const navigationStore = useNavigationStore()
+  const preferencesStore = usePreferencesStore()
+  const tabsStore = useTabsStore()
+
+  // State
+  const sessionId = ref('')
+  // Scroll positions waiting to be applied when each tab's page loads
+  const pendingScroll = ref<Record<string, ScrollPosition>>({})
+
+  let saveTimer: number | undefined
+
+  function readSessions(): SessionMap {
+    const sessions = read<SessionMap>(STORAGE_KEYS.SESSIONS)
+    return sessions && typeof sessions === 'object' ? sessions : {}
+  }
+
+  function setPendingScroll(tabId: string, position: ScrollPosition | undefined): void {
+    if (position) {
+      pendingScroll.value = { ...pendingScroll.value, [tabId]: position }
+    } else {
+      clearPendingScroll(tabId)
+    }
+  }
+
+  // Actions
+
+  /**
+   * Forget a tab's pending scroll position (once applied, or when the
+   * tab moves on to a new page)
+   */
+  function clearPendingScroll(tabId: string): void {
+    if (!(tabId in pendingScroll.value)) return
+    const { [tabId]: _applied, ...rest } = pendingScroll.value
+    pendingScroll.value = rest
+  }
+
+  /**
+   * Write this window's session to storage now, dropping the oldest
+   * sessions beyond the limit
+   */
+  function save(): void {
+    window.clearTimeout(saveTimer)
+    saveTimer = undefined
+    if (!sessionId.value) return
+
+    const snapshot: SessionSnapshot = {
+      id: sessionId.value,
+      savedAt: Date.now(),
+      deviceId: preferencesStore.deviceId,
+      orientation: preferencesStore.orientation,
+      tabs: tabsStore.tabs,
+      activeTabId: tabsStore.activeTabId
+    }
+
+    const kept = Object.values({ ...readSessions(), [snapshot.id]: snapshot })
+      .sort((a, b) => b.savedAt - a.savedAt)
+      .slice(0, SESSION.MAX_SAVED)
+    write<SessionMap>(STORAGE_KEYS.SESSIONS, Object.fromEntries(kept.map((session) => [session.id, session])))
+  }
+
+  function scheduleSave(): void {
+    if (!sessionId.value) return
+    window.clearTimeout(saveTimer)
+    saveTimer = window.setTimeout(save, SESSION.SAVE_DELAY)
+  }
+
+  function flush(): void {
+    if (saveTimer !== undefined) save()
+  }
+
+  /**
+   * Restore this window's session, or the most recently saved one in a new
+   * window, falling back to the last visited URL. Saving starts afterwards.
+   */
+  function restore(): void {
+    if (sessionId.value) return
+
+    const sessions = readSessions()
+    const existingId = readSessionId()
+    const own = existingId ? sessions[existingId] : undefined
+    const snapshot = isRestorable(own) ? own : getNewest(sessions)
+
+    sessionId.value = existingId ?? generateSessionId()
+    writeSessionId(sessionId.value)
+
+    if (isRestorable(snapshot)) {
+      if (isValidDeviceId(snapshot.deviceId)) {
+        preferencesStore.setDeviceId(snapshot.deviceId)
+      }
+      if (snapshot.orientation === 'portrait' || snapshot.orientation === 'landscape') {
+        preferencesStore.setOrientation(snapshot.orientation)
+      }
+
+      tabsStore.restoreTabs(snapshot.tabs, snapshot.activeTabId)
+      for (const tab of tabsStore.tabs) {
+        setPendingScroll(tab.id, tab.history[tab.historyIndex]?.scrollPosition)
+      }
+    } else {
+      const lastUrl = read<string>(STORAGE_KEYS.LAST_URL)
+      if (lastUrl) {
+        navigationStore.navigate(lastUrl)
+      }
+    }
+
+    window.addEventListener('pagehide', flush)
+  }
+
+  // Remember the active page as a fallback should the sessions be lost
+  navigationStore.use(createPersistenceMiddleware((state) => {
+    if (state.currentUrl) {
+      write(STORAGE_KEYS.LAST_URL, state.currentUrl)
+    } else {
+      remove(STORAGE_KEYS.LAST_URL)
+    }
+  }))
+
+  // Going back, forward or reloading returns to the entry's scroll position;
+  // a new page starts at the top
+  navigationStore.use((action, next, getState) => {
+    const previous = getState()
+    const state = next(action)
+    if (state === previous) return state
+
+    const tabId = tabsStore.activeTabId
+    if (action.type === 'GO_BACK' || action.type === 'GO_FORWARD' || action.type === 'RELOAD') {
+      setPendingScroll(tabId, state.history[state.historyIndex]?.scrollPosition)
+    } else if (action.type === 'NAVIGATE') {
+      clearPendingScroll(tabId)
+    }
+    return state
+  })
+
+  watch(
+    () => [tabsStore.tabs, tabsStore.activeTabId, preferencesStore.deviceId, preferencesStore.orientation],
+    scheduleSave
+  )
+
+  return {
+    // State
+    sessionId,
+    pendingScroll,
+    // Actions
+    restore,
+    save,
+    clearPendingScroll
+  }
+})
+
+export type SessionStore = ReturnType<typeof useSessionStore>
@@ -0,0 +1,82 @@
+/**
+ * Status bar store
+ *
+ * What the device status bar shows: a fixed time, the carrier, signal
+ * and battery, Focus and Location icons, and whether the content is
+ * light, dark or follows the page's theme colour. Saved between visits
+ * and passed to every device frame through the device context.
+ */
+import { defineStore } from 'pinia'
+import { computed } from 'vue'
+import type { StatusBarConfig } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { STATUS_BAR } from '@/config/constants'
+
+/**
+ * A full-strength, fully charged status bar showing the live time
+ */
+const DEFAULT_STATUS_BAR_CONFIG: StatusBarConfig = {
+  fixedTime: false,
+  time: STATUS_BAR.FIXED_TIME,
+  carrier: 'Carrier',
+  cellularBars: 4,
+  wifiBars: 3,
+  batteryLevel: 100,
+  charging: false,
+  lowPowerMode: false,
+  focus: false,
+  location: false,
+  style: 'auto'
+}
+
+export const useStatusBarStore = defineStore('statusBar', () => {
+  // Persisted settings (may predate newer fields)
+  const stored = useLocalStorage<Partial<StatusBarConfig>>(STORAGE_KEYS.STATUS_BAR, {})
+
+  // Getters
+  const config = computed<StatusBarConfig>(() => ({ ...DEFAULT_STATUS_BAR_CONFIG, ...stored.value }))
+
+  const isCustomised = computed(() =>
+    (Object.keys(DEFAULT_STATUS_BAR_CONFIG) as (keyof StatusBarConfig)[]).some(
+      (key) => config.value[key] !== DEFAULT_STATUS_BAR_CONFIG[key]
+    )
+  )
+
+  // Actions
+  function update(changes: Partial<StatusBarConfig>): void {
+    stored.value = { ...config.value, ...changes }
+  }
+
+  /**
+   * Apple's product-shot status bar: 9:41, full signal and battery
+   */
+  function applyProductShotPreset(): void {
+    update({
+      fixedTime: true,
+      time: STATUS_BAR.FIXED_TIME,
+      cellularBars: 4,
+      wifiBars: 3,
+      batteryLevel: 100,
+      charging: false,
+      lowPowerMode: false,
+      focus: false,
+      location: false
+    })
+  }
+
+  function reset(): void {
+    stored.value = {}
+  }
+
+  return {
+    // Getters
+    config,
+    isCustomised,
+    // Actions
+    update,
+    applyProductShotPreset,
+    reset
+  }
+})
+
+export type StatusBarStore = ReturnType<typeof useStatusBarStore>
@@ -0,0 +1,265 @@
+/**
+ * Tabs state management store
+ *
+ * Manages the set of open browser tabs, the active tab and the
+ * tab overview. The active tab mirrors the navigation store, whilst
+ * background tabs keep their last known state so their iframes can
+ * stay alive without reloading.
+ */
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { BrowserTab, HistoryEntry, NavigationState } from '@/types'
+import { useNavigationStore } from './navigation'
+import { generateTabId } from '@/utils/identifiers'
+import { getDisplayDomain } from '@/utils/url'
+
+/**
+ * Create a new tab, optionally seeded with a single history entry
+ */
+function createTab(url = ''): BrowserTab {
+  const history: HistoryEntry[] = url
+    ? [{ url, title: getDisplayDomain(url), timestamp: Date.now() }]
+    : []
+
+  return {
+    id: generateTabId(),
+    url,
+    title: url ? getDisplayDomain(url) : 'Start Page',
+    isLoading: false,
+    canGoBack: false,
+    canGoForward: false,
+    history,
+    historyIndex: history.length - 1
+  }
+}
+
+export const useTabsStore = defineStore('tabs', () => {
+  const navigationStore = useNavigationStore()
+
+  // State
+  const initialTab = createTab()
+  const tabs = ref<BrowserTab[]>([initialTab])
+  const activeTabId = ref<string>(initialTab.id)
+  const isOverviewOpen = ref(false)
+
+  // Getters
+  const activeTab = computed<BrowserTab | null>(
+    () => tabs.value.find((tab) => tab.id === activeTabId.value) ?? null
+  )
+
+  const activeTabIndex = computed(() =>
+    tabs.value.findIndex((tab) => tab.id === activeTabId.value)
+  )
+
+  const tabCount = computed(() => tabs.value.length)
+
+  /**
+   * Replace a tab by ID with an updated copy
+   */
+  function updateTab(id: string, changes: Partial<BrowserTab>): void {
+    tabs.value = tabs.value.map((tab) => (tab.id === id ? { ...tab, ...changes } : tab))
+  }
+
+  /**
+   * Copy the navigation store state into the active tab
+   */
+  function syncActiveTab(state: NavigationState): void {
+    const tab = activeTab.value
+    if (!tab) return
+
+    const history: HistoryEntry[] = state.history.map((entry) => ({
+      url: entry.url,
+      title: entry.title ?? getDisplayDomain(entry.url),
+      timestamp: entry.timestamp,
+      ...(entry.favicon ? { favicon: entry.favicon } : {}),
+      ...(entry.scrollPosition ? { scrollPosition: entry.scrollPosition } : {})
+    }))
+    const current = history[state.historyIndex]
+
+    updateTab(tab.id, {
+      url: state.currentUrl,
+      title: current?.title ?? 'Start Page',
+      isLoading: state.isLoading,
+      canGoBack: state.canGoBack,
+      canGoForward: state.canGoForward,
+      history,
+      historyIndex: state.historyIndex
+    })
+  }
+
+  // Keep the active tab in step with the navigation store
+  watch(() => navigationStore.state, syncActiveTab)
+
+  // Actions
+
+  /**
+   * Make a tab the active tab and load its history into the navigation store
+   */
+  function switchTab(id: string): void {
+    const target = tabs.value.find((tab) => tab.id === id)
+    if (!target) return
+
+    isOverviewOpen.value = false
+    if (id === activeTabId.value) return
+
+    // Flush the outgoing tab before handing the navigation store over
+    syncActiveTab(navigationStore.state)
+
+    activeTabId.value = id
+    navigationStore.restore(target.history, target.historyIndex)
+  }
+
+  /**
+   * Open a new tab at the end of the tab list
+   */
+  function openTab(url = '', options: { activate?: boolean } = {}): BrowserTab {
+    const tab = createTab()
+    tabs.value = [...tabs.value, tab]
+
+    if (options.activate ?? true) {
+      switchTab(tab.id)
+      if (url) {
+        navigationStore.navigate(url)
+      }
+    } else if (url) {
+      const normalised = navigationStore.normaliseUrl(url)
+      updateTab(tab.id, {
+        url: normalised,
+        title: getDisplayDomain(normalised),
+        history: [{ url: normalised, title: getDisplayDomain(normalised), timestamp: Date.now() }],
+        historyIndex: 0
+      })
+    }
+
+    return tab
+  }
+
+  /**
+   * Close a tab. Closing the last tab leaves a fresh blank tab behind.
+   */
+  function closeTab(id: string): void {
+    const index = tabs.value.findIndex((tab) => tab.id === id)
+    if (index === -1) return
+
+    const remaining = tabs.value.filter((tab) => tab.id !== id)
+
+    if (remaining.length === 0) {
+      const replacement = createTab()
+      tabs.value = [replacement]
+      activeTabId.value = replacement.id
+      navigationStore.clear()
+      return
+    }
+
+    tabs.value = remaining
+
+    if (id === activeTabId.value) {
+      const neighbour = remaining[Math.min(index, remaining.length - 1)]
+      // The closed tab's state is discarded, so skip the outgoing sync
+      activeTabId.value = neighbour.id
+      navigationStore.restore(neighbour.history, neighbour.historyIndex)
+    }
+  }
+
+  /**
+   * Move a tab from one position to another
+   */
+  function reorderTab(fromIndex: number, toIndex: number): void {
+    const count = tabs.value.length
+    if (fromIndex < 0 || fromIndex >= count || toIndex < 0 || toIndex >= count) return
+    if (fromIndex === toIndex) return
+
+    const reordered = [...tabs.value]
+    const [moved] = reordered.splice(fromIndex, 1)
+    reordered.splice(toIndex, 0, moved)
+    tabs.value = reordered
+  }
+
+  /**
+   * Duplicate a tab (including its history) next to the original and activate it
+   */
+  function duplicateTab(id: string): BrowserTab | null {
+    if (id === activeTabId.value) {
+      syncActiveTab(navigationStore.state)
+    }
+
+    const index = tabs.value.findIndex((tab) => tab.id === id)
+    if (index === -1) return null
+
+    const copy: BrowserTab = {
+      ...tabs.value[index],
+      id: generateTabId(),
+      isLoading: false,
+      history: [...tabs.value[index].history]
+    }
+
+    const updated = [...tabs.value]
+    updated.splice(index + 1, 0, copy)
+    tabs.value = updated
+
+    switchTab(copy.id)
+    return copy
+  }
+
+  /**
+   * Replace every tab with a saved set (e.g. a restored session) and
+   * load the active one into the navigation store
+   */
+  function restoreTabs(saved: BrowserTab[], activeId: string): void {
+    if (saved.length === 0) return
+
+    tabs.value = saved.map((tab) => ({ ...tab, isLoading: false }))
+    const active = tabs.value.find((tab) => tab.id === activeId) ?? tabs.value[0]
+    isOverviewOpen.value = false
+    activeTabId.value = active.id
+    navigationStore.restore(active.history, active.historyIndex)
+  }
+
+  /**
+   * Update the loading flag for a background tab
+   */
+  function setTabLoading(id: string, isLoading: boolean): void {
+    updateTab(id, { isLoading })
+  }
+
+  function openOverview(): void {
+    syncActiveTab(navigationStore.state)
+    isOverviewOpen.value = true
+  }
+
+  function closeOverview(): void {
+    isOverviewOpen.value = false
+  }
+
+  function toggleOverview(): void {
+    if (isOverviewOpen.value) {
+      closeOverview()
+    } else {
+      openOverview()
+    }
+  }
+
+  return {
+    // State
+    tabs,
+    activeTabId,
+    isOverviewOpen,
+    // Getters
+    activeTab,
+    activeTabIndex,
+    tabCount,
+    // Actions
+    openTab,
+    closeTab,
+    switchTab,
+    reorderTab,
+    duplicateTab,
+    restoreTabs,
+    setTabLoading,
+    openOverview,
+    closeOverview,
+    toggleOverview
+  }
+})
+
+export type TabsStore = ReturnType<typeof useTabsStore>
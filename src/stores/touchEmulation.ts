@@ -0,0 +1,31 @@
+/**
+ * Touch emulation store
+ *
+ * Whether mouse input in the viewport is converted to touch input. The
+ * conversion runs inside same-origin (or proxied) pages only.
+ */
+import { defineStore } from 'pinia'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+
+export const useTouchEmulationStore = defineStore('touchEmulation', () => {
+  // State
+  const enabled = useLocalStorage(STORAGE_KEYS.TOUCH_EMULATION, true)
+
+  function setEnabled(value: boolean): void {
+    enabled.value = value
+  }
+
+  function toggle(): void {
+    enabled.value = !enabled.value
+  }
+
+  return {
+    // State
+    enabled,
+    // Actions
+    setEnabled,
+    toggle
+  }
+})
+
+export type TouchEmulationStore = ReturnType<typeof useTouchEmulationStore>
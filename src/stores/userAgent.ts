@@ -0,0 +1,61 @@
+/**
+ * User agent emulation store
+ *
+ * Holds the selected Safari build and resolves it against the current
+ * device. iPads run the desktop-class iPadOS build of the same release
+ * as the selection. A device cannot run an iOS release older than the
+ * one it shipped with, so an unsupported choice falls back to the oldest
+ * release the device supports.
+ */
+import { defineStore } from 'pinia'
+import { computed } from 'vue'
+import type { DeviceModel, UserAgentProfile } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { usePreferencesStore } from './preferences'
+import { getDeviceById } from '@/config/devices'
+import {
+  DEFAULT_USER_AGENT_ID,
+  getUserAgentProfile,
+  getSupportedUserAgents,
+  type UserAgentId
+} from '@/config/browser'
+
+export const useUserAgentStore = defineStore('userAgent', () => {
+  const preferencesStore = usePreferencesStore()
+
+  // Persisted selection
+  const selectedId = useLocalStorage<UserAgentId>(STORAGE_KEYS.USER_AGENT, DEFAULT_USER_AGENT_ID)
+
+  /**
+   * Resolve the emulated profile for a device
+   */
+  function resolveProfile(device: DeviceModel): UserAgentProfile {
+    const supported = getSupportedUserAgents(device)
+    const version = getUserAgentProfile(selectedId.value).iosVersion
+    const selected = supported.find((profile) => profile.id === selectedId.value)
+      ?? supported.find((profile) => profile.iosVersion === version)
+    return selected ?? supported[supported.length - 1] ?? getUserAgentProfile(selectedId.value)
+  }
+
+  // Getters
+  const device = computed(() => getDeviceById(preferencesStore.deviceId))
+  const availableProfiles = computed(() => getSupportedUserAgents(device.value))
+  const activeProfile = computed(() => resolveProfile(device.value))
+
+  function setUserAgent(id: UserAgentId): void {
+    selectedId.value = id
+  }
+
+  return {
+    // State
+    selectedId,
+    // Getters
+    availableProfiles,
+    activeProfile,
+    // Actions
+    resolveProfile,
+    setUserAgent
+  }
+})
+
+export type UserAgentStore = ReturnType<typeof useUserAgentStore>
@@ -0,0 +1,85 @@
+/**
+ * Viewport synchronisation store
+ *
+ * Keeps a registry of viewport iframes running the viewport bridge and
+ * mirrors scroll position, clicks and form input between viewports that
+ * share a sync group (for example the devices in comparison mode).
+ */
+import { defineStore } from 'pinia'
+import type { ViewportBridgeMessage, ViewportSyncSettings } from '@/types'
+import { useLocalStorage, STORAGE_KEYS } from '@/composables/useLocalStorage'
+import { postToBridge } from '@/utils/viewportBridge'
+
+/**
+ * A registered viewport frame
+ */
+interface SyncedFrame {
+  group: string
+  target: Window
+}
+
+export const useViewportSyncStore = defineStore('viewportSync', () => {
+  // Persisted settings
+  const settings = useLocalStorage<ViewportSyncSettings>(STORAGE_KEYS.VIEWPORT_SYNC, {
+    scroll: true,
+    clicks: true,
+    input: true
+  })
+
+  // Registered frames by viewport ID (window handles are not reactive state)
+  const frames = new Map<string, SyncedFrame>()
+
+  /**
+   * Whether a message type is currently mirrored
+   */
+  function isMirrored(message: ViewportBridgeMessage): boolean {
+    switch (message.type) {
+      case 'scroll':
+        return settings.value.scroll
+      case 'click':
+        return settings.value.clicks
+      case 'input':
+        return settings.value.input
+    }
+  }
+
+  // Actions
+  function register(id: string, group: string, target: Window): void {
+    frames.set(id, { group, target })
+  }
+
+  function unregister(id: string): void {
+    frames.delete(id)
+  }
+
+  /**
+   * Replay a message from one viewport in every other viewport of its group.
+   * Viewports without a group are never mirrored.
+   */
+  function relay(sourceId: string, message: ViewportBridgeMessage): void {
+    const source = frames.get(sourceId)
+    if (!source || !source.group || !isMirrored(message)) return
+
+    for (const [id, frame] of frames) {
+      if (id !== sourceId && frame.group === source.group) {
+        postToBridge(frame.target, message)
+      }
+    }
+  }
+
+  function updateSettings(changes: Partial<ViewportSyncSettings>): void {
+    settings.value = { ...settings.value, ...changes }
+  }
+
+  return {
+    // State
+    settings,
+    // Actions
+    register,
+    unregister,
+    relay,
+    updateSettings
+  }
+})
+
+export type ViewportSyncStore = ReturnType<typeof useViewportSyncStore>
@@ -4,6 +4,16 @@
  * Types for Safari browser state, navigation, and tabs
  */
 
+import type { DeviceOrientation } from './device'
+
+/**
+ * Page scroll offset in CSS pixels
+ */
+export interface ScrollPosition {
+  readonly x: number
+  readonly y: number
+}
+
 /**
  * Browser navigation history entry
  */
@@ -12,6 +22,8 @@ export interface HistoryEntry {
   readonly title: string
   readonly timestamp: number
   readonly favicon?: string
+  /** Where the page was scrolled to when last shown */
+  readonly scrollPosition?: ScrollPosition
 }
 
 /**
@@ -29,6 +41,19 @@ export interface BrowserTab {
   readonly historyIndex: number
 }
 
+/**
+ * Saved emulator session, restored when the emulator is reopened
+ */
+export interface SessionSnapshot {
+  readonly id: string
+  /** When the session was last saved (Unix epoch milliseconds) */
+  readonly savedAt: number
+  readonly deviceId: string
+  readonly orientation: DeviceOrientation
+  readonly tabs: BrowserTab[]
+  readonly activeTabId: string
+}
+
 /**
  * URL bar display modes
  */
@@ -39,17 +64,90 @@ export type UrlBarMode = 'url' | 'search' | 'editing'
  */
 export type ToolbarVisibility = 'visible' | 'hidden' | 'compact'
 
+/**
+ * Where Safari's address bar sits on iPhone in portrait (Settings > Safari)
+ *
+ * - `bottom`: Tab Bar layout, with the address bar above the toolbar
+ * - `top`: Single Tab layout, with the address bar at the top and the
+ *   toolbar at the bottom
+ */
+export type ToolbarPosition = 'top' | 'bottom'
+
+/**
+ * How Safari's toolbars are arranged on a screen
+ *
+ * - `split`: iPhone in portrait; the address bar and toolbar follow the
+ *   toolbar position
+ * - `single-row`: iPad; one bar along the top
+ * - `landscape`: iPhone in landscape; one slim bar along the top
+ */
+export type ToolbarLayout = 'split' | 'single-row' | 'landscape'
+
 /**
  * Safari browser configuration
  */
 export interface BrowserConfig {
   readonly showToolbar: boolean
-  readonly toolbarPosition: 'top' | 'bottom'
+  readonly toolbarPosition: ToolbarPosition
   readonly showTabBar: boolean
   readonly enableJavaScript: boolean
   readonly userAgent: string
 }
 
+/**
+ * Navigator identity presented to pages for an emulated Safari build
+ */
+export interface UserAgentProfile {
+  /** Profile identifier, also used as the proxy profile segment */
+  readonly id: string
+  /** Display label for the selector */
+  readonly label: string
+  /** iOS major version */
+  readonly iosVersion: number
+  readonly userAgent: string
+  /** navigator.appVersion (the user agent without the "Mozilla/" prefix) */
+  readonly appVersion: string
+  readonly platform: string
+  readonly vendor: string
+  readonly maxTouchPoints: number
+}
+
+/**
+ * What a screenshot covers
+ * - `viewport`: the device screen as currently shown
+ * - `full-page`: the whole page, captured by scrolling and stitching
+ */
+export type ScreenshotMode = 'viewport' | 'full-page'
+
+/**
+ * Screenshot capture options
+ */
+export interface ScreenshotOptions {
+  readonly mode: ScreenshotMode
+  /** Include the device bezel (viewport captures only) */
+  readonly includeFrame: boolean
+  /** Leave the background transparent rather than filling it */
+  readonly transparent: boolean
+}
+
+/**
+ * Screen recording file format
+ */
+export type RecordingFormat = 'webm' | 'gif'
+
+/**
+ * Screen recording options
+ */
+export interface RecordingOptions {
+  readonly format: RecordingFormat
+  /** Frames per second */
+  readonly fps: number
+  /** Include the device bezel */
+  readonly includeFrame: boolean
+  /** Draw a circle where the pointer touches the screen */
+  readonly showTouches: boolean
+}
+
 /**
  * Browser viewport state
  */
@@ -60,6 +158,108 @@ export interface ViewportState {
   readonly isScrolling: boolean
 }
 
+/**
+ * Scroll position reported by the viewport bridge
+ */
+export interface BridgeScrollMessage {
+  readonly type: 'scroll'
+  readonly scrollX: number
+  readonly scrollY: number
+  /** Horizontal position as a fraction of the scrollable width (0-1) */
+  readonly ratioX: number
+  /** Vertical position as a fraction of the scrollable height (0-1) */
+  readonly ratioY: number
+  readonly zoomLevel: number
+  readonly isScrolling: boolean
+}
+
+/**
+ * Click on an element, identified by a CSS selector
+ */
+export interface BridgeClickMessage {
+  readonly type: 'click'
+  readonly selector: string
+}
+
+/**
+ * Value change on a form control, identified by a CSS selector
+ */
+export interface BridgeInputMessage {
+  readonly type: 'input'
+  readonly selector: string
+  readonly value: string
+  readonly checked?: boolean
+}
+
+/**
+ * Messages exchanged between a viewport iframe and the emulator
+ */
+export type ViewportBridgeMessage = BridgeScrollMessage | BridgeClickMessage | BridgeInputMessage
+
+/**
+ * A touch point, in the page's viewport coordinates
+ */
+export interface TouchPoint {
+  readonly x: number
+  readonly y: number
+}
+
+/**
+ * Touches reported by the touch emulation script
+ */
+export interface TouchEmulationMessage {
+  readonly type: 'touches'
+  /** Points currently touching the screen (empty when released) */
+  readonly touches: readonly TouchPoint[]
+  /** The touch has been held still long enough to count as a long press */
+  readonly longPress: boolean
+}
+
+/**
+ * Keyboards iOS shows for text fields, chosen by `inputmode` or `type`.
+ * 'number' is the full keyboard opened on its numbers; 'numeric',
+ * 'decimal' and 'tel' are keypads.
+ */
+export type KeyboardLayout = 'text' | 'email' | 'url' | 'number' | 'numeric' | 'decimal' | 'tel'
+
+/**
+ * Label on the keyboard's return key, from the field's `enterkeyhint`
+ */
+export type ReturnKeyType = 'return' | 'done' | 'go' | 'next' | 'search' | 'send'
+
+/**
+ * Set of keys the full keyboard shows
+ */
+export type KeyboardPlane = 'letters' | 'numbers' | 'symbols'
+
+/**
+ * Shift key state: the next letter only, or every letter (caps lock)
+ */
+export type KeyboardShift = 'off' | 'on' | 'locked'
+
+/**
+ * Text field focus reported by the keyboard script
+ */
+export type KeyboardMessage =
+  | {
+      readonly type: 'focus'
+      readonly layout: KeyboardLayout
+      readonly returnKey: ReturnKeyType
+      /** Whether there are fields before and after this one */
+      readonly hasPrevious: boolean
+      readonly hasNext: boolean
+    }
+  | { readonly type: 'blur' }
+
+/**
+ * Which events are mirrored between synchronised viewports
+ */
+export interface ViewportSyncSettings {
+  readonly scroll: boolean
+  readonly clicks: boolean
+  readonly input: boolean
+}
+
 /**
  * Page load status
  */
@@ -73,3 +273,98 @@ export interface LoadError {
   readonly message: string
   readonly url: string
 }
+
+/**
+ * Saved bookmark
+ */
+export interface Bookmark {
+  readonly id: string
+  readonly url: string
+  readonly title: string
+  /** Containing folder, or null for the top level */
+  readonly folderId: string | null
+  readonly createdAt: number
+}
+
+/**
+ * Bookmark folder. Folders may be nested via parentId.
+ */
+export interface BookmarkFolder {
+  readonly id: string
+  readonly name: string
+  /** Parent folder, or null for the top level */
+  readonly parentId: string | null
+  readonly createdAt: number
+}
+
+/**
+ * Serialisable snapshot of all bookmarks, used for import and export
+ */
+export interface BookmarkCollection {
+  readonly version: number
+  readonly folders: BookmarkFolder[]
+  readonly bookmarks: Bookmark[]
+}
+
+/**
+ * Page visit recorded in the global history
+ */
+export interface HistoryVisit {
+  readonly id: string
+  readonly url: string
+  readonly title: string
+  readonly favicon?: string
+  /** When the page was opened (Unix epoch milliseconds) */
+  readonly visitedAt: number
+  /** Device model the page was viewed on */
+  readonly deviceId: string
+  readonly orientation: DeviceOrientation
+}
+
+/**
+ * Visits made on one calendar day, newest first
+ */
+export interface HistoryDay {
+  /** Local date as YYYY-MM-DD */
+  readonly key: string
+  /** "Today", "Yesterday" or the weekday and date */
+  readonly label: string
+  /** Start of the day (Unix epoch milliseconds) */
+  readonly start: number
+  readonly visits: HistoryVisit[]
+}
+
+/**
+ * Period of history to clear, as offered by Safari
+ */
+export type HistoryClearRange = 'hour' | 'today' | 'today-and-yesterday' | 'all'
+
+/**
+ * JSON history export
+ */
+export interface HistoryExport {
+  readonly version: number
+  /** When the export was made (ISO 8601) */
+  readonly exportedAt: string
+  readonly visits: HistoryVisit[]
+}
+
+/**
+ * Where an address bar suggestion comes from. `url` and `search` are
+ * what was typed, taken as an address or as a search.
+ */
+export type OmniboxSuggestionSource = 'url' | 'search' | 'history' | 'bookmark' | 'tab'
+
+/**
+ * Address bar suggestion
+ */
+export interface OmniboxSuggestion {
+  readonly id: string
+  readonly source: OmniboxSuggestionSource
+  /** Main line: page title, address or search phrase */
+  readonly title: string
+  /** Page to open (for searches, the results page) */
+  readonly url: string
+  /** Open tab to switch to instead of navigating */
+  readonly tabId?: string
+}
@@ -1,7 +1,8 @@
 /**
  * Device Model Types
  *
- * Defines interfaces for iPhone device models used in the browser emulator.
+ * Defines interfaces for the iPhone, iPad and iPod touch models used in the
+ * browser emulator.
  * These types capture the physical and display characteristics needed to
  * accurately render the device frame and browser viewport.
  *
@@ -17,6 +18,24 @@
  */
 export type NotchType = 'dynamic-island' | 'notch' | 'none';
 
+/**
+ * Product family of a device model.
+ *
+ * - `iphone`: iPhone
+ * - `ipad`: iPad, running iPadOS with desktop-class Safari
+ * - `ipod`: iPod touch
+ */
+export type DeviceFamily = 'iphone' | 'ipad' | 'ipod';
+
+/**
+ * Material of the device frame, which sets how the bezel catches light.
+ *
+ * - `aluminium`: Anodised aluminium (standard iPhones, iPad, iPod touch)
+ * - `stainless-steel`: Polished steel (iPhone 12 Pro to iPhone 14 Pro)
+ * - `titanium`: Brushed titanium (iPhone 15 Pro and later Pro models)
+ */
+export type DeviceMaterial = 'aluminium' | 'stainless-steel' | 'titanium';
+
 /**
  * Safe area insets define the margins from the edge of the screen
  * where content should not be placed due to hardware elements
@@ -34,7 +53,7 @@ export interface SafeAreaInsets {
 }
 
 /**
- * Represents the physical and display characteristics of an iPhone model.
+ * Represents the physical and display characteristics of a device model.
  *
  * All dimensions are in CSS pixels (logical pixels), not physical pixels.
  * Physical pixels = CSS pixels * devicePixelRatio.
@@ -43,6 +62,7 @@ export interface SafeAreaInsets {
  * ```typescript
  * const iPhone15Pro: DeviceModel = {
  *   id: 'iphone-15-pro',
+ *   family: 'iphone',
  *   name: 'iPhone 15 Pro',
  *   screenWidth: 393,
  *   screenHeight: 852,
@@ -58,6 +78,9 @@ export interface DeviceModel {
   /** Unique identifier for the device model (kebab-case) */
   id: string;
 
+  /** Product family, used to group devices and choose the Safari build */
+  family: DeviceFamily;
+
   /** Human-readable display name */
   name: string;
 
@@ -79,16 +102,99 @@ export interface DeviceModel {
   /** Whether the device has a physical home button */
   hasHomeButton: boolean;
 
+  /** Whether the device has a Camera Control button (iPhone 16 and later) */
+  hasCameraControl?: boolean;
+
+  /** Whether the device has an Action button in place of the silent switch (iPhone 15 Pro and later) */
+  hasActionButton?: boolean;
+
   /** Safe area insets for content positioning */
   safeAreaInsets: SafeAreaInsets;
+
+  /** iOS major version the device shipped with (limits the emulated Safari versions) */
+  launchIOSVersion?: number;
+
+  /** Finishes the device is offered in (DEVICE_COLOURS IDs); all finishes when omitted */
+  colours?: string[];
+
+  /** Frame material; aluminium when omitted */
+  material?: DeviceMaterial;
 }
 
 /**
  * Device orientation for the emulator.
- * Currently supports portrait mode only in Phase 1.
+ * Landscape is emulated with the top of the device on the left, as when
+ * an iPhone is turned anticlockwise (`window.orientation` of 90).
  */
 export type DeviceOrientation = 'portrait' | 'landscape';
 
+/**
+ * What the Action button does when pressed.
+ *
+ * - `silent-mode`: Toggle Silent Mode (the iOS default)
+ * - `play-pause`: Send the play/pause media key to the page
+ * - `screenshot`: Save a screenshot, as the Screenshot menu does
+ * - `none`: Do nothing
+ */
+export type ActionButtonAction = 'silent-mode' | 'play-pause' | 'screenshot' | 'none';
+
+/**
+ * Feedback shown on screen after a hardware button press.
+ *
+ * - `volume`: The volume slider, with the level from 0 to 1
+ * - `silent`: The Silent Mode banner
+ */
+export type HardwareButtonHud =
+  | { kind: 'volume'; level: number }
+  | { kind: 'silent'; silent: boolean };
+
+/**
+ * Colour of the status bar text and icons.
+ *
+ * - `auto`: Follow the page's `theme-color`, as Safari does
+ * - `light`: White content on the black screen edge
+ * - `dark`: Black content on a white bar
+ */
+export type StatusBarStyle = 'auto' | 'light' | 'dark';
+
+/**
+ * What the status bar shows, for screenshots that match Apple's own.
+ */
+export interface StatusBarConfig {
+  /** Show `time` instead of the live clock */
+  fixedTime: boolean;
+
+  /** Time shown when fixed ("9:41" in Apple's product shots) */
+  time: string;
+
+  /** Carrier name, shown by iPhones with a home button; empty to hide */
+  carrier: string;
+
+  /** Cellular signal bars (0 to 4) */
+  cellularBars: number;
+
+  /** Wi-Fi bars (0 to 3); 0 hides the Wi-Fi icon */
+  wifiBars: number;
+
+  /** Battery level as a percentage */
+  batteryLevel: number;
+
+  /** Whether the battery is charging (green, with a bolt) */
+  charging: boolean;
+
+  /** Whether Low Power Mode is on (yellow battery) */
+  lowPowerMode: boolean;
+
+  /** Show the Focus (moon) icon */
+  focus: boolean;
+
+  /** Show the Location Services arrow */
+  location: boolean;
+
+  /** Text and icon colour */
+  style: StatusBarStyle;
+}
+
 /**
  * Device state including the model and current orientation.
  */
@@ -103,6 +209,42 @@ export interface DeviceState {
   scale: number;
 }
 
+/**
+ * A device slot in the side-by-side comparison layout.
+ */
+export interface ComparisonSlot {
+  /** Unique slot identifier */
+  id: string;
+
+  /** Device model ID shown in this slot */
+  deviceId: string;
+}
+
+/**
+ * Versioned device catalogue data file (config/devices.json).
+ */
+export interface DeviceCatalogue {
+  /** Catalogue schema version */
+  version: number;
+
+  /** Preset device models, in display order */
+  devices: DeviceModel[];
+}
+
+/**
+ * JSON document holding exported custom device profiles.
+ */
+export interface DeviceProfileExport {
+  /** Export format version */
+  version: number;
+
+  /** When the profiles were exported (ISO 8601) */
+  exportedAt: string;
+
+  /** Exported device models */
+  devices: DeviceModel[];
+}
+
 /**
  * Device selector options for the UI dropdown.
  */
@@ -8,3 +8,4 @@
 export * from './device'
 export * from './browser'
 export * from './navigation'
+export * from './liveActivity'
@@ -0,0 +1,133 @@
+/**
+ * Live Activity Types
+ *
+ * Live Activities shown in the Dynamic Island: timers, now playing,
+ * calls and custom content, the commands that start, update and end
+ * them, and timelines of commands for scripted demos.
+ *
+ * @module types/liveActivity
+ */
+
+/**
+ * How the Dynamic Island presents its activities.
+ *
+ * - `idle`: No activity; the plain island
+ * - `compact`: Leading and trailing content either side of the island
+ * - `minimal`: A small bubble beside the island
+ * - `expanded`: The island grows into a card with the full activity
+ */
+export type IslandState = 'idle' | 'compact' | 'minimal' | 'expanded';
+
+/**
+ * A countdown timer.
+ */
+export interface TimerActivity {
+  kind: 'timer';
+  id: string;
+  /** Name shown when expanded */
+  label: string;
+  /** Length of the timer in seconds */
+  duration: number;
+  /** When the timer started (ms since the epoch); when it is shown if omitted */
+  startedAt?: number;
+}
+
+/**
+ * Audio playback with artwork.
+ */
+export interface NowPlayingActivity {
+  kind: 'now-playing';
+  id: string;
+  title: string;
+  artist: string;
+  /** Artwork image URL; a tinted placeholder when omitted */
+  artwork?: string;
+  /** Whether audio is playing (animates the waveform) */
+  playing: boolean;
+  /** Playback position from 0 to 1 */
+  progress: number;
+}
+
+/**
+ * A phone or video call.
+ */
+export interface CallActivity {
+  kind: 'call';
+  id: string;
+  /** Name of the other party */
+  caller: string;
+  /** Whether the call has been answered; ringing until then */
+  connected: boolean;
+  /** When the call connected (ms since the epoch); when it connects if omitted */
+  startedAt?: number;
+}
+
+/**
+ * Free-form content for app-specific moments.
+ */
+export interface CustomActivity {
+  kind: 'custom';
+  id: string;
+  /** Short text or emoji left of the island (also the minimal view) */
+  leading: string;
+  /** Short text or emoji right of the island */
+  trailing: string;
+  /** Heading shown when expanded */
+  title: string;
+  /** Detail shown when expanded */
+  body: string;
+  /** Accent colour for the text */
+  tint?: string;
+}
+
+/**
+ * Any Live Activity.
+ */
+export type LiveActivity = TimerActivity | NowPlayingActivity | CallActivity | CustomActivity;
+
+/**
+ * Fields to change on an existing activity; checked against its kind.
+ */
+export type LiveActivityChanges = Record<string, unknown>;
+
+/**
+ * Something to do with the Dynamic Island, from the API, a page's
+ * postMessage or a timeline step.
+ *
+ * `expand` shows an activity (the newest by default) expanded for
+ * `duration` milliseconds, or until `collapse` when the duration is 0.
+ * `present` chooses whether a lone activity sits compact or minimal.
+ */
+export type LiveActivityCommand =
+  | { type: 'start'; activity: LiveActivity }
+  | { type: 'update'; id: string; changes: LiveActivityChanges }
+  | { type: 'end'; id: string }
+  | { type: 'expand'; id?: string; duration?: number }
+  | { type: 'collapse' }
+  | { type: 'present'; state: 'compact' | 'minimal' }
+  | { type: 'clear' };
+
+/**
+ * A message a page posts to the emulator (`window.parent.postMessage`):
+ * a command, or a timeline to run or stop. Tagged with the source
+ * `ibe-live-activity`.
+ */
+export type LiveActivityMessage =
+  | LiveActivityCommand
+  | { type: 'timeline'; timeline: LiveActivityTimeline }
+  | { type: 'stop-timeline' };
+
+/**
+ * A timeline command, run `at` milliseconds after the timeline starts.
+ */
+export type LiveActivityTimelineStep = LiveActivityCommand & { at: number };
+
+/**
+ * A scripted sequence of island moments for demos.
+ */
+export interface LiveActivityTimeline {
+  /** Start again from the top after the last step */
+  loop: boolean;
+  /** Steps in time order */
+  steps: LiveActivityTimelineStep[];
+}
@@ -79,7 +79,7 @@ export interface NavigationEntry {
  * @example
  * ```typescript
  * const initialState: NavigationState = {
- *   currentUrl: 'about:blank',
+ *   currentUrl: '',
  *   history: [],
  *   historyIndex: -1,
  *   isLoading: false,
@@ -121,21 +121,53 @@ export interface NavigationState {
 
 /**
  * Actions that can modify navigation state.
+ *
+ * Actions carry everything the reducer needs (including timestamps), so
+ * reducing the same actions always produces the same state.
  */
 export type NavigationAction =
-  | { type: 'NAVIGATE'; payload: { url: string; replace?: boolean } }
+  | { type: 'NAVIGATE'; payload: { url: string; replace?: boolean; timestamp: number } }
   | { type: 'GO_BACK' }
   | { type: 'GO_FORWARD' }
   | { type: 'RELOAD' }
   | { type: 'STOP' }
   | { type: 'SET_LOADING'; payload: { isLoading: boolean; progress?: number } }
   | { type: 'SET_PROGRESS'; payload: { progress: number } }
+  | { type: 'LOAD_COMPLETE'; payload: { title?: string } }
   | { type: 'SET_ERROR'; payload: NavigationError }
   | { type: 'CLEAR_ERROR' }
   | { type: 'UPDATE_TITLE'; payload: { title: string } }
   | { type: 'UPDATE_FAVICON'; payload: { favicon: string } }
+  | { type: 'UPDATE_SCROLL'; payload: { x: number; y: number } }
+  | { type: 'RESTORE'; payload: { history: NavigationEntry[]; historyIndex: number } }
   | { type: 'RESET' };
 
+/**
+ * Passes an action on and returns the resulting state.
+ */
+export type NavigationDispatch = (action: NavigationAction) => NavigationState;
+
+/**
+ * Hook run around every navigation action.
+ *
+ * Call `next(action)` to continue to the reducer (it returns the new
+ * state), or return `getState()` without calling it to drop the action.
+ *
+ * @example
+ * ```typescript
+ * const logger: NavigationMiddleware = (action, next) => {
+ *   const state = next(action);
+ *   console.debug(action.type, state.currentUrl);
+ *   return state;
+ * };
+ * ```
+ */
+export type NavigationMiddleware = (
+  action: NavigationAction,
+  next: NavigationDispatch,
+  getState: () => NavigationState
+) => NavigationState;
+
 /**
  * Simple navigation action types for UI controls.
  */
@@ -0,0 +1,218 @@
+/**
+ * Bookmark Import/Export Utilities
+ *
+ * Serialises bookmarks to JSON and to the Netscape bookmark file format
+ * understood by Safari, Chrome and Firefox, and parses both back.
+ */
+
+import type { Bookmark, BookmarkCollection, BookmarkFolder } from '@/types/browser'
+import { FAVOURITES_FOLDER_ID } from '@/config/constants'
+import { generateBookmarkId, generateFolderId } from './identifiers'
+
+/**
+ * Current JSON export format version
+ */
+export const BOOKMARK_EXPORT_VERSION = 1
+
+/**
+ * Folder names that other browsers use for their favourites bar
+ */
+const FAVOURITES_ALIASES = ['favourites', 'favorites', 'favorites bar', 'bookmarks bar']
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+/**
+ * Serialise bookmarks and folders to a JSON document
+ */
+export function serialiseBookmarksJson(folders: BookmarkFolder[], bookmarks: Bookmark[]): string {
+  const collection: BookmarkCollection = {
+    version: BOOKMARK_EXPORT_VERSION,
+    folders,
+    bookmarks
+  }
+  return JSON.stringify(collection, null, 2)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Parse a JSON bookmark export.
+ *
+ * @throws Error if the document is not a valid bookmark export
+ */
+export function parseBookmarksJson(json: string): BookmarkCollection {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  if (!isRecord(data) || !Array.isArray(data['bookmarks'])) {
+    throw new Error('The file does not contain any bookmarks.')
+  }
+
+  const rawFolders = Array.isArray(data['folders']) ? data['folders'] : []
+
+  const folders: BookmarkFolder[] = rawFolders
+    .filter(isRecord)
+    .filter((folder) => typeof folder['id'] === 'string' && typeof folder['name'] === 'string')
+    .map((folder) => ({
+      id: folder['id'] as string,
+      name: folder['name'] as string,
+      parentId: typeof folder['parentId'] === 'string' ? folder['parentId'] : null,
+      createdAt: typeof folder['createdAt'] === 'number' ? folder['createdAt'] : Date.now()
+    }))
+
+  const bookmarks: Bookmark[] = (data['bookmarks'] as unknown[])
+    .filter(isRecord)
+    .filter((bookmark) => typeof bookmark['url'] === 'string' && bookmark['url'] !== '')
+    .map((bookmark) => ({
+      id: typeof bookmark['id'] === 'string' ? bookmark['id'] : generateBookmarkId(),
+      url: bookmark['url'] as string,
+      title: typeof bookmark['title'] === 'string' ? bookmark['title'] : (bookmark['url'] as string),
+      folderId: typeof bookmark['folderId'] === 'string' ? bookmark['folderId'] : null,
+      createdAt: typeof bookmark['createdAt'] === 'number' ? bookmark['createdAt'] : Date.now()
+    }))
+
+  return { version: BOOKMARK_EXPORT_VERSION, folders, bookmarks }
+}
+
+// ============================================================================
+// Netscape HTML
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function toUnixSeconds(timestamp: number): number {
+  return Math.floor(timestamp / 1000)
+}
+
+/**
+ * Serialise bookmarks to a Netscape bookmark file (the format
+ * every major browser can import)
+ */
+export function serialiseBookmarksHtml(folders: BookmarkFolder[], bookmarks: Bookmark[]): string {
+  const lines: string[] = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file. -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>'
+  ]
+
+  function writeLevel(parentId: string | null, depth: number): void {
+    const indent = '    '.repeat(depth)
+    lines.push(`${indent}<DL><p>`)
+
+    for (const folder of folders.filter((f) => f.parentId === parentId)) {
+      lines.push(
+        `${indent}    <DT><H3 ADD_DATE="${toUnixSeconds(folder.createdAt)}">${escapeHtml(folder.name)}</H3>`
+      )
+      writeLevel(folder.id, depth + 1)
+    }
+
+    for (const bookmark of bookmarks.filter((b) => b.folderId === parentId)) {
+      lines.push(
+        `${indent}    <DT><A HREF="${escapeHtml(bookmark.url)}" ADD_DATE="${toUnixSeconds(bookmark.createdAt)}">${escapeHtml(bookmark.title)}</A>`
+      )
+    }
+
+    lines.push(`${indent}</DL><p>`)
+  }
+
+  writeLevel(null, 0)
+  return lines.join('\n') + '\n'
+}
+
+function readAddDate(element: Element): number {
+  const value = Number(element.getAttribute('add_date'))
+  return Number.isFinite(value) && value > 0 ? value * 1000 : Date.now()
+}
+
+/**
+ * Parse a Netscape bookmark file. Top-level folders named like a
+ * favourites bar are mapped onto the built-in Favourites folder.
+ *
+ * @throws Error if the document contains no bookmarks
+ */
+export function parseBookmarksHtml(html: string): BookmarkCollection {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const root = doc.querySelector('dl')
+
+  if (!root) {
+    throw new Error('The file is not a bookmark export.')
+  }
+
+  const folders: BookmarkFolder[] = []
+  const bookmarks: Bookmark[] = []
+
+  function walk(list: Element, parentId: string | null): void {
+    for (const item of Array.from(list.children)) {
+      if (item.tagName !== 'DT') continue
+
+      const heading = item.querySelector(':scope > h3')
+      const link = item.querySelector(':scope > a')
+
+      if (heading) {
+        const name = heading.textContent?.trim() || 'Untitled Folder'
+        const isFavourites =
+          parentId === null && FAVOURITES_ALIASES.includes(name.toLowerCase())
+
+        let folderId: string = FAVOURITES_FOLDER_ID
+        if (!isFavourites) {
+          folderId = generateFolderId()
+          folders.push({ id: folderId, name, parentId, createdAt: readAddDate(heading) })
+        }
+
+        const nested =
+          item.querySelector(':scope > dl') ??
+          (item.nextElementSibling?.tagName === 'DL' ? item.nextElementSibling : null)
+        if (nested) {
+          walk(nested, folderId)
+        }
+      } else if (link) {
+        const url = link.getAttribute('href') ?? ''
+        if (!url) continue
+        bookmarks.push({
+          id: generateBookmarkId(),
+          url,
+          title: link.textContent?.trim() || url,
+          folderId: parentId,
+          createdAt: readAddDate(link)
+        })
+      }
+    }
+  }
+
+  walk(root, null)
+
+  if (bookmarks.length === 0 && folders.length === 0) {
+    throw new Error('The file does not contain any bookmarks.')
+  }
+
+  return { version: BOOKMARK_EXPORT_VERSION, folders, bookmarks }
+}
+
+/**
+ * Parse either supported export format, detected from the content
+ *
+ * @throws Error if the content is in neither format
+ */
+export function parseBookmarkFile(content: string): BookmarkCollection {
+  const trimmed = content.trimStart()
+  if (trimmed.startsWith('{')) {
+    return parseBookmarksJson(trimmed)
+  }
+  return parseBookmarksHtml(content)
+}
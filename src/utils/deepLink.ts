@@ -0,0 +1,97 @@
+/**
+ * Deep Link Utilities
+ *
+ * Shareable emulator links carry the page, device, orientation, theme and
+ * colour in the query string, for example
+ * `?url=https%3A%2F%2Fapple.com&device=iphone-se&orientation=landscape&theme=dark&colour=gold`.
+ * Unknown or invalid values are dropped rather than rejected, so a link
+ * from an older version still opens with whatever it can.
+ */
+
+import type { DeviceOrientation } from '@/types/device'
+import { DEEP_LINK, type Theme } from '@/config/constants'
+import { DEVICE_COLOURS, isValidDeviceId, type DeviceColourId } from '@/config/devices'
+import { isValidUrl, normaliseUrl } from './url'
+
+/**
+ * Emulator settings carried by a link
+ */
+export interface DeepLinkParams {
+  /** Page to open */
+  url?: string
+  /** Device model ID */
+  device?: string
+  orientation?: DeviceOrientation
+  theme?: Theme
+  colour?: DeviceColourId
+}
+
+const { PARAMS } = DEEP_LINK
+
+const ORIENTATIONS: readonly DeviceOrientation[] = ['portrait', 'landscape']
+const THEMES: readonly Theme[] = ['light', 'dark', 'system']
+
+function isOneOf<T extends string>(value: string | null, options: readonly T[]): value is T {
+  return value !== null && (options as readonly string[]).includes(value)
+}
+
+function isColourId(value: string | null): value is DeviceColourId {
+  return value !== null && Object.prototype.hasOwnProperty.call(DEVICE_COLOURS, value)
+}
+
+/**
+ * Read the settings from a query string (with or without the leading `?`)
+ */
+export function parseDeepLink(search: string): DeepLinkParams {
+  const query = new URLSearchParams(search)
+  const params: DeepLinkParams = {}
+
+  const url = query.get(PARAMS.URL)
+  if (url && isValidUrl(url)) {
+    params.url = normaliseUrl(url)
+  }
+
+  const device = query.get(PARAMS.DEVICE)
+  if (device && isValidDeviceId(device)) {
+    params.device = device
+  }
+
+  const orientation = query.get(PARAMS.ORIENTATION)
+  if (isOneOf(orientation, ORIENTATIONS)) {
+    params.orientation = orientation
+  }
+
+  const theme = query.get(PARAMS.THEME)
+  if (isOneOf(theme, THEMES)) {
+    params.theme = theme
+  }
+
+  const colour = query.get(PARAMS.COLOUR)
+  if (isColourId(colour)) {
+    params.colour = colour
+  }
+
+  return params
+}
+
+/**
+ * Build a link to the emulator page at `base` with the given settings.
+ * Other query parameters on `base` are kept; any fragment is dropped.
+ */
+export function buildDeepLink(base: string, params: DeepLinkParams): string {
+  const link = new URL(base)
+  const query = new URLSearchParams(link.search)
+  for (const name of Object.values(PARAMS)) {
+    query.delete(name)
+  }
+
+  if (params.url) query.set(PARAMS.URL, params.url)
+  if (params.device) query.set(PARAMS.DEVICE, params.device)
+  if (params.orientation) query.set(PARAMS.ORIENTATION, params.orientation)
+  if (params.theme) query.set(PARAMS.THEME, params.theme)
+  if (params.colour) query.set(PARAMS.COLOUR, params.colour)
+
+  link.search = query.toString()
+  link.hash = ''
+  return link.toString()
+}
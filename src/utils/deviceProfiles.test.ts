@@ -0,0 +1,66 @@
+/**
+ * Custom device profile utility tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { getDeviceById } from '@/config/devices'
+import { createCustomDeviceId, parseDeviceProfilesJson, serialiseDeviceProfiles } from './deviceProfiles'
+
+const preset = getDeviceById('iphone-15-pro')
+const custom = { ...preset, id: 'custom-iphone-17-air', name: 'iPhone 17 Air', screenWidth: 420 }
+
+describe('parseDeviceProfilesJson', () => {
+  it('reads the devices of an export', () => {
+    const devices = parseDeviceProfilesJson(serialiseDeviceProfiles([custom, preset]))
+
+    expect(devices.map((device) => device.id)).toEqual(['custom-iphone-17-air', 'iphone-15-pro'])
+    expect(devices[0]).toMatchObject({ name: 'iPhone 17 Air', screenWidth: 420 })
+  })
+
+  it('accepts a bare array of models', () => {
+    const devices = parseDeviceProfilesJson(JSON.stringify([custom]))
+
+    expect(devices.map((device) => device.id)).toEqual(['custom-iphone-17-air'])
+  })
+
+  it('accepts a single model', () => {
+    const devices = parseDeviceProfilesJson(JSON.stringify(custom))
+
+    expect(devices.map((device) => device.id)).toEqual(['custom-iphone-17-air'])
+  })
+
+  it('skips invalid profiles', () => {
+    const devices = parseDeviceProfilesJson(JSON.stringify({
+      devices: [
+        { ...custom, screenWidth: '420' },
+        null,
+        { name: 'Incomplete' },
+        { ...custom, id: 'custom-valid' }
+      ]
+    }))
+
+    expect(devices.map((device) => device.id)).toEqual(['custom-valid'])
+  })
+
+  it('throws when nothing valid is left', () => {
+    expect(() => parseDeviceProfilesJson('{"devices": [{ "name": "Incomplete" }]}')).toThrow(/any valid device profiles/)
+    expect(() => parseDeviceProfilesJson('[]')).toThrow(/any valid device profiles/)
+  })
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseDeviceProfilesJson('{"devices": [')).toThrow(/not valid JSON/)
+  })
+})
+
+describe('createCustomDeviceId', () => {
+  it('derives the ID from the name', () => {
+    expect(createCustomDeviceId('iPhone 17 Air', [])).toBe('custom-iphone-17-air')
+    expect(createCustomDeviceId('  ***  ', [])).toBe('custom-device')
+  })
+
+  it('adds a suffix when the ID is taken', () => {
+    const taken = ['custom-iphone-17-air', 'custom-iphone-17-air-2']
+
+    expect(createCustomDeviceId('iPhone 17 Air', taken)).toBe('custom-iphone-17-air-3')
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Custom Device Profile Utilities
+ *
+ * Serialises user-defined device models to and from JSON so profiles can
+ * be shared between machines and teams. Profiles are validated against
+ * the device schema in config/deviceSchema.
+ */
+
+import type { DeviceModel, DeviceProfileExport } from '@/types/device'
+import { CUSTOM_DEVICE_ID_PREFIX } from '@/config/devices'
+import { parseDeviceModel } from '@/config/deviceSchema'
+
+/**
+ * Current JSON export format version
+ */
+export const DEVICE_PROFILE_EXPORT_VERSION = 1
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * ID for a new custom device, derived from its name and unique among
+ * `existingIds`
+ *
+ * @example createCustomDeviceId('iPhone 17 Air', []) // 'custom-iphone-17-air'
+ */
+export function createCustomDeviceId(name: string, existingIds: Iterable<string>): string {
+  const taken = new Set(existingIds)
+  const slug = name.toLowerCase().replace(/[^a-z\d]+/g, '-').replace(/^-+|-+$/g, '') || 'device'
+  const base = `${CUSTOM_DEVICE_ID_PREFIX}${slug}`
+
+  let id = base
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`
+  }
+  return id
+}
+
+/**
+ * Serialise device profiles to a JSON document
+ */
+export function serialiseDeviceProfiles(devices: DeviceModel[], date = new Date()): string {
+  const data: DeviceProfileExport = {
+    version: DEVICE_PROFILE_EXPORT_VERSION,
+    exportedAt: date.toISOString(),
+    devices
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Parse a JSON device profile export. A bare array of models or a single
+ * model is accepted too. Invalid profiles are skipped.
+ *
+ * @throws Error if the document contains no valid profiles
+ */
+export function parseDeviceProfilesJson(json: string): DeviceModel[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  let entries: unknown[]
+  if (Array.isArray(data)) {
+    entries = data
+  } else if (isRecord(data) && Array.isArray(data['devices'])) {
+    entries = data['devices']
+  } else {
+    entries = [data]
+  }
+
+  const devices = entries
+    .map(parseDeviceModel)
+    .filter((device): device is DeviceModel => device !== null)
+
+  if (devices.length === 0) {
+    throw new Error('The file does not contain any valid device profiles.')
+  }
+  return devices
+}
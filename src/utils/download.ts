@@ -0,0 +1,59 @@
+/**
+ * Download Utilities
+ *
+ * Helpers for saving generated content (exports, captures) to disk
+ * via a temporary object URL.
+ */
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  if (typeof document === 'undefined') return
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Trigger a browser download for a text document
+ */
+export function downloadText(content: string, filename: string, mimeType = 'text/plain'): void {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename)
+}
+
+/**
+ * Read a user-selected file as text
+ */
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result ?? ''))
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`))
+    reader.readAsText(file)
+  })
+}
+
+/**
+ * Build a filename with a sortable timestamp, e.g. `bookmarks-2024-01-31-1405.json`
+ */
+export function timestampedFilename(prefix: string, extension: string, date = new Date()): string {
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  const stamp = [
+    date.getFullYear(),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+    `${pad(date.getHours())}${pad(date.getMinutes())}`
+  ].join('-')
+  return `${prefix}-${stamp}.${extension}`
+}
@@ -0,0 +1,32 @@
+/**
+ * Frame Script Utilities
+ *
+ * Runs emulator scripts inside same-origin viewport iframes, so the
+ * events and objects they create belong to the page's own realm.
+ */
+
+/**
+ * Run a script in an iframe's document
+ *
+ * @returns True if run, false if the frame is cross-origin or not loaded
+ */
+export function injectFrameScript(iframe: HTMLIFrameElement, source: string): boolean {
+  let doc: Document | null = null
+  try {
+    doc = iframe.contentDocument
+  } catch {
+    // Cross-origin access throws in some browsers
+    return false
+  }
+
+  if (!doc?.documentElement) {
+    return false
+  }
+
+  const container = doc.head ?? doc.documentElement
+  const script = doc.createElement('script')
+  script.textContent = source
+  container.appendChild(script)
+  script.remove()
+  return true
+}
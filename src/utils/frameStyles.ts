@@ -0,0 +1,123 @@
+/**
+ * Frame Stylesheet Rewriting
+ *
+ * Desktop browsers resolve some CSS against their own window: safe area
+ * insets are zero and viewport units follow the iframe. Emulation scripts
+ * correct this by rewriting the page's CSS, in stylesheets and inline
+ * styles, to custom properties that the emulator sets. The rewriter is
+ * installed once per page and keeps rewriting styles as they arrive.
+ * Cross-origin stylesheets cannot be read, so they are left alone.
+ */
+
+/**
+ * Build script source that installs the rewriter as
+ * `window.__ibeStyleRewriter` (once per page), for inclusion in an
+ * emulation script. It offers:
+ *
+ * - `addRule(pattern, replacement)`: rewrite all CSS text, now and as it
+ *   arrives, as `text.replace(pattern, replacement)` (pattern is global)
+ * - `setProperties(id, properties)`: set custom properties on the root
+ *   element from a style element of the caller's own
+ */
+export function buildStyleRewriterScript(): string {
+  return `if (!window.__ibeStyleRewriter) {
+  window.__ibeStyleRewriter = (function () {
+    var OWN_STYLE = /^ibe-/;
+    var rules = [];
+
+    function rewriteText(text) {
+      return rules.reduce(function (result, rule) {
+        return result.replace(rule.pattern, rule.replacement);
+      }, text);
+    }
+
+    function rewriteRules(cssRules) {
+      for (var i = 0; i < cssRules.length; i++) {
+        var rule = cssRules[i];
+        if (rule.style) {
+          var text = rule.style.cssText;
+          var rewritten = rewriteText(text);
+          if (rewritten !== text) rule.style.cssText = rewritten;
+        }
+        if (rule.styleSheet) rewriteSheet(rule.styleSheet);
+        if (rule.cssRules) rewriteRules(rule.cssRules);
+      }
+    }
+
+    function rewriteSheet(sheet) {
+      if (!sheet || (sheet.ownerNode && OWN_STYLE.test(sheet.ownerNode.id || ''))) return;
+      var cssRules;
+      try {
+        cssRules = sheet.cssRules;
+      } catch (e) {
+        // Cross-origin stylesheet
+        return;
+      }
+      rewriteRules(cssRules);
+    }
+
+    function rewriteElement(element) {
+      var style = element.getAttribute('style');
+      if (!style) return;
+      var rewritten = rewriteText(style);
+      if (rewritten !== style) element.setAttribute('style', rewritten);
+    }
+
+    function rewriteNode(node) {
+      if (node.nodeType !== 1) return;
+      if (node.tagName === 'STYLE') rewriteSheet(node.sheet);
+      if (node.tagName === 'LINK') {
+        rewriteSheet(node.sheet);
+        node.addEventListener('load', function () { rewriteSheet(node.sheet); });
+      }
+      rewriteElement(node);
+      node.querySelectorAll('[style]').forEach(rewriteElement);
+    }
+
+    function rewriteAll() {
+      Array.prototype.forEach.call(document.styleSheets, rewriteSheet);
+      (document.adoptedStyleSheets || []).forEach(rewriteSheet);
+      document.querySelectorAll('[style]').forEach(rewriteElement);
+    }
+
+    new MutationObserver(function (mutations) {
+      if (rules.length === 0) return;
+      mutations.forEach(function (mutation) {
+        // Edited style elements report their text node
+        var target = mutation.type === 'characterData' ? mutation.target.parentNode : mutation.target;
+        if (mutation.type === 'attributes') {
+          rewriteElement(target);
+        } else if (target && target.nodeName === 'STYLE') {
+          rewriteSheet(target.sheet);
+        } else {
+          mutation.addedNodes.forEach(rewriteNode);
+        }
+      });
+    }).observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['style']
+    });
+
+    return {
+      addRule: function (pattern, replacement) {
+        rules.push({ pattern: pattern, replacement: replacement });
+        rewriteAll();
+      },
+      setProperties: function (id, properties) {
+        var style = document.getElementById(id);
+        if (!style) {
+          style = document.createElement('style');
+          style.id = id;
+          (document.head || document.documentElement).appendChild(style);
+        }
+        style.textContent = ':root {' + Object.keys(properties).map(function (name) {
+          return ' ' + name + ': ' + properties[name] + ';';
+        }).join('') + ' }';
+      }
+    };
+  })();
+}`
+}
@@ -0,0 +1,221 @@
+/**
+ * Animated GIF Encoder
+ *
+ * A small streaming GIF89a encoder used for screen recordings. Frames are
+ * mapped to a fixed 6×7×6 colour cube (no per-clip palette pass, so each
+ * frame is LZW-compressed as soon as it arrives and only the compressed
+ * bytes are kept in memory).
+ */
+
+const RED_LEVELS = 6
+const GREEN_LEVELS = 7
+const BLUE_LEVELS = 6
+const MIN_CODE_SIZE = 8
+const MAX_CODE = 4096
+
+/**
+ * Build the global colour table: the colour cube, padded to 256 entries
+ */
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3)
+  let offset = 0
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[offset++] = Math.round((r * 255) / (RED_LEVELS - 1))
+        palette[offset++] = Math.round((g * 255) / (GREEN_LEVELS - 1))
+        palette[offset++] = Math.round((b * 255) / (BLUE_LEVELS - 1))
+      }
+    }
+  }
+  return palette
+}
+
+/**
+ * Map RGBA pixels to colour cube indices
+ */
+function quantise(rgba: Uint8ClampedArray): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4)
+  for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+    const r = Math.round(((rgba[p] ?? 0) * (RED_LEVELS - 1)) / 255)
+    const g = Math.round(((rgba[p + 1] ?? 0) * (GREEN_LEVELS - 1)) / 255)
+    const b = Math.round(((rgba[p + 2] ?? 0) * (BLUE_LEVELS - 1)) / 255)
+    indices[i] = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b
+  }
+  return indices
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(4096)
+  length = 0
+
+  byte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = value & 0xff
+  }
+
+  word(value: number): void {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) {
+      this.byte(values[i] ?? 0)
+    }
+  }
+
+  text(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i))
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+/**
+ * LZW-compress colour indices as GIF image data sub-blocks
+ */
+function writeImageData(out: ByteWriter, indices: Uint8Array): void {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const endCode = clearCode + 1
+
+  const packed = new ByteWriter()
+  let bitBuffer = 0
+  let bitCount = 0
+  let codeSize = MIN_CODE_SIZE + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      packed.byte(bitBuffer)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+
+  let prefix = indices[0] ?? 0
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i] ?? 0
+    const key = (prefix << 8) | value
+    const code = table.get(key)
+
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === MAX_CODE) {
+      emit(clearCode)
+      table = new Map()
+      codeSize = MIN_CODE_SIZE + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = value
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) {
+    packed.byte(bitBuffer)
+  }
+
+  // Split into sub-blocks of at most 255 bytes
+  const data = packed.toBytes()
+  out.byte(MIN_CODE_SIZE)
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255)
+    out.byte(block.length)
+    out.bytes(block)
+  }
+  out.byte(0)
+}
+
+/**
+ * Streaming animated GIF encoder
+ *
+ * @example
+ * ```typescript
+ * const encoder = new GifEncoder(320, 640)
+ * encoder.addFrame(context.getImageData(0, 0, 320, 640).data, 7)
+ * const blob = encoder.finish()
+ * ```
+ */
+export class GifEncoder {
+  private readonly out = new ByteWriter()
+  private frameCount = 0
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {
+    this.out.text('GIF89a')
+    this.out.word(width)
+    this.out.word(height)
+    // Global colour table of 256 entries, 8 bits per channel
+    this.out.byte(0xf7)
+    this.out.byte(0)
+    this.out.byte(0)
+    this.out.bytes(buildPalette())
+
+    // Loop forever
+    this.out.bytes([0x21, 0xff, 0x0b])
+    this.out.text('NETSCAPE2.0')
+    this.out.bytes([0x03, 0x01, 0x00, 0x00, 0x00])
+  }
+
+  /** Number of frames added so far */
+  get frames(): number {
+    return this.frameCount
+  }
+
+  /**
+   * Add a frame of RGBA pixels at the encoder's size
+   *
+   * @param delay - Time to show the frame, in hundredths of a second
+   */
+  addFrame(rgba: Uint8ClampedArray, delay: number): void {
+    // Graphic control extension: keep the previous frame, no transparency
+    this.out.bytes([0x21, 0xf9, 0x04, 0x04])
+    this.out.word(Math.max(2, Math.round(delay)))
+    this.out.bytes([0x00, 0x00])
+
+    // Image descriptor covering the whole canvas
+    this.out.byte(0x2c)
+    this.out.word(0)
+    this.out.word(0)
+    this.out.word(this.width)
+    this.out.word(this.height)
+    this.out.byte(0)
+
+    writeImageData(this.out, quantise(rgba))
+    this.frameCount++
+  }
+
+  /**
+   * Finish the file
+   */
+  finish(): Blob {
+    this.out.byte(0x3b)
+    return new Blob([this.out.toBytes()], { type: 'image/gif' })
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Hardware Button Utilities
+ *
+ * Scripts injected into same-origin viewport iframes when the device's
+ * buttons are pressed: media keys for the volume and Action buttons, and
+ * page visibility for the lock screen. Locking hides the page as iOS
+ * does, so `document.hidden` and `document.visibilityState` change and
+ * `visibilitychange` fires; unlocking reverses it.
+ */
+
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Media keys the emulator sends to pages
+ */
+export type MediaKey = 'AudioVolumeUp' | 'AudioVolumeDown' | 'MediaPlayPause'
+
+/**
+ * Build the script that reports the page as hidden or visible, firing
+ * `visibilitychange` when the state changes
+ */
+export function buildVisibilityScript(hidden: boolean): string {
+  return `(function () {
+  var HIDDEN = ${hidden};
+  if (!window.__ibeVisibility) {
+    window.__ibeVisibility = { hidden: false };
+    try {
+      Object.defineProperty(document, 'hidden', {
+        get: function () { return window.__ibeVisibility.hidden; },
+        configurable: true
+      });
+      Object.defineProperty(document, 'visibilityState', {
+        get: function () { return window.__ibeVisibility.hidden ? 'hidden' : 'visible'; },
+        configurable: true
+      });
+    } catch (e) {}
+  }
+
+  if (window.__ibeVisibility.hidden === HIDDEN) return;
+  window.__ibeVisibility.hidden = HIDDEN;
+  document.dispatchEvent(new Event('visibilitychange', { bubbles: true }));
+})();`
+}
+
+/**
+ * Build the script that presses and releases a media key on the focused
+ * element (or the body), so listeners on the window see it too
+ */
+export function buildMediaKeyScript(key: MediaKey): string {
+  return `(function () {
+  var target = document.activeElement || document.body || document.documentElement;
+  ['keydown', 'keyup'].forEach(function (type) {
+    target.dispatchEvent(new KeyboardEvent(type, {
+      key: ${JSON.stringify(key)},
+      code: ${JSON.stringify(key)},
+      bubbles: true,
+      cancelable: true,
+      composed: true
+    }));
+  });
+})();`
+}
+
+/**
+ * Show or hide a same-origin iframe's page
+ *
+ * @returns True if applied, false if the frame is cross-origin or not loaded
+ */
+export function applyFrameVisibility(iframe: HTMLIFrameElement, hidden: boolean): boolean {
+  return injectFrameScript(iframe, buildVisibilityScript(hidden))
+}
+
+/**
+ * Send a media key to a same-origin iframe's page
+ *
+ * @returns True if sent, false if the frame is cross-origin or not loaded
+ */
+export function sendMediaKey(iframe: HTMLIFrameElement, key: MediaKey): boolean {
+  return injectFrameScript(iframe, buildMediaKeyScript(key))
+}
@@ -0,0 +1,153 @@
+/**
+ * Browsing history utility tests
+ *
+ * Run in a time zone with daylight saving time, so days of 23 and 25
+ * hours are covered.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { HistoryVisit } from '@/types/browser'
+import {
+  getClearRangeStart,
+  getDayBounds,
+  groupVisitsByDay,
+  searchVisits,
+  serialiseHistoryCsv,
+  startOfDay
+} from './history'
+
+beforeAll(() => {
+  vi.stubEnv('TZ', 'Europe/London')
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+})
+
+let nextId = 0
+
+function visit(visitedAt: Date, details: Partial<HistoryVisit> = {}): HistoryVisit {
+  return {
+    id: `visit-${nextId++}`,
+    url: 'https://example.com/',
+    title: 'Example',
+    visitedAt: visitedAt.getTime(),
+    deviceId: 'iphone-15-pro',
+    orientation: 'portrait',
+    ...details
+  }
+}
+
+describe('groupVisitsByDay', () => {
+  const now = new Date(2024, 5, 12, 15).getTime()
+
+  it('groups visits by local day, newest first, labelling today and yesterday', () => {
+    const visits = [
+      visit(new Date(2024, 5, 12, 9)),
+      visit(new Date(2024, 5, 12, 0, 0, 1)),
+      visit(new Date(2024, 5, 11, 23, 59)),
+      visit(new Date(2024, 5, 3, 8))
+    ]
+
+    const days = groupVisitsByDay(visits, now)
+
+    expect(days.map((day) => day.key)).toEqual(['2024-06-12', '2024-06-11', '2024-06-03'])
+    expect(days.map((day) => day.visits.length)).toEqual([2, 1, 1])
+    expect(days[0]?.label).toBe('Today')
+    expect(days[1]?.label).toBe('Yesterday')
+    expect(days[2]?.label).not.toMatch(/Today|Yesterday|2024/)
+    expect(days[2]?.start).toBe(new Date(2024, 5, 3).getTime())
+  })
+
+  it('includes the year for days in another year', () => {
+    const [day] = groupVisitsByDay([visit(new Date(2023, 11, 25, 10))], now)
+
+    expect(day?.label).toContain('2023')
+  })
+
+  it('labels yesterday across the start of summer time', () => {
+    const [day] = groupVisitsByDay([visit(new Date(2024, 2, 31, 12))], new Date(2024, 3, 1, 0, 30).getTime())
+
+    expect(day?.label).toBe('Yesterday')
+  })
+})
+
+describe('getDayBounds', () => {
+  it('spans 23 hours on the day the clocks go forward and 25 when they go back', () => {
+    const spring = getDayBounds(new Date(2024, 2, 31).getTime())
+    const autumn = getDayBounds(new Date(2024, 9, 27).getTime())
+
+    expect((spring.end - spring.start) / 3_600_000).toBe(23)
+    expect((autumn.end - autumn.start) / 3_600_000).toBe(25)
+    expect(spring.end).toBe(new Date(2024, 3, 1).getTime())
+  })
+})
+
+describe('getClearRangeStart', () => {
+  const now = new Date(2024, 5, 12, 15, 30).getTime()
+
+  it('goes back an hour, to midnight, or to the start of time', () => {
+    expect(getClearRangeStart('hour', now)).toBe(now - 3_600_000)
+    expect(getClearRangeStart('today', now)).toBe(startOfDay(now))
+    expect(getClearRangeStart('all', now)).toBe(0)
+  })
+
+  it('clears from yesterday\'s midnight', () => {
+    expect(getClearRangeStart('today-and-yesterday', now)).toBe(new Date(2024, 5, 11).getTime())
+  })
+
+  it('clears from yesterday\'s midnight when the clocks changed in between', () => {
+    const afterSpring = new Date(2024, 3, 1, 12).getTime()
+    const afterAutumn = new Date(2024, 9, 28, 12).getTime()
+
+    expect(getClearRangeStart('today-and-yesterday', afterSpring)).toBe(Date.UTC(2024, 2, 31))
+    expect(getClearRangeStart('today-and-yesterday', afterAutumn)).toBe(Date.UTC(2024, 9, 26, 23))
+  })
+})
+
+describe('searchVisits', () => {
+  const visits = [
+    visit(new Date(2024, 5, 12), { title: 'Vue Guide', url: 'https://vuejs.org/guide/' }),
+    visit(new Date(2024, 5, 12), { title: 'Pinia', url: 'https://pinia.vuejs.org/', deviceId: 'iphone-16-pro' }),
+    visit(new Date(2024, 5, 12), { title: 'News', url: 'https://news.example.com/' })
+  ]
+
+  it('returns every visit for an empty query', () => {
+    expect(searchVisits(visits, '  ')).toBe(visits)
+  })
+
+  it('matches every word, case-insensitively, in the title or address', () => {
+    expect(searchVisits(visits, 'VUEJS guide').map((found) => found.title)).toEqual(['Vue Guide'])
+    expect(searchVisits(visits, 'vuejs').map((found) => found.title)).toEqual(['Vue Guide', 'Pinia'])
+  })
+
+  it('matches the name of the device the page was viewed on', () => {
+    expect(searchVisits(visits, 'iphone 16').map((found) => found.title)).toEqual(['Pinia'])
+  })
+})
+
+describe('serialiseHistoryCsv', () => {
+  it('writes a header row and quotes fields with commas, quotes and line breaks', () => {
+    const csv = serialiseHistoryCsv([
+      visit(new Date(Date.UTC(2024, 5, 12, 9)), { title: 'Say "hello", world' })
+    ])
+
+    expect(csv).toBe(
+      'Visited,Title,URL,Device,Device ID,Orientation\r\n' +
+      '2024-06-12T09:00:00.000Z,"Say ""hello"", world",https://example.com/,iPhone 15 Pro,iphone-15-pro,portrait\r\n'
+    )
+  })
+
+  it('prefixes fields a spreadsheet would run as formulas with an apostrophe', () => {
+    const titles = ['=HYPERLINK("https://evil.test")', '+1', '-1', '@SUM(A1)', '\tTab', '\rReturn']
+    const csv = serialiseHistoryCsv(titles.map((title) => visit(new Date(2024, 5, 12), { title })))
+    const rows = csv.split('\r\n').slice(1)
+
+    expect(rows[0]).toContain(',"\'=HYPERLINK(""https://evil.test"")",')
+    expect(rows[1]).toContain(",'+1,")
+    expect(rows[2]).toContain(",'-1,")
+    expect(rows[3]).toContain(",'@SUM(A1),")
+    expect(rows[4]).toContain(",'\tTab,")
+    expect(csv).toContain(',"\'\rReturn",')
+  })
+})
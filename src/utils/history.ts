@@ -0,0 +1,153 @@
+/**
+ * Browsing History Utilities
+ *
+ * Groups history visits by day, searches them and serialises them to JSON
+ * and CSV. Visits are expected newest first, as the history store keeps them.
+ */
+
+import type { HistoryClearRange, HistoryDay, HistoryExport, HistoryVisit } from '@/types/browser'
+import { getDeviceById } from '@/config/devices'
+
+/**
+ * Current JSON export format version
+ */
+export const HISTORY_EXPORT_VERSION = 1
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * Local midnight at the start of the day containing `time`
+ */
+export function startOfDay(time: number): number {
+  const date = new Date(time)
+  date.setHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+/**
+ * Local midnight `days` days after the day containing `time`
+ */
+function addDays(time: number, days: number): number {
+  const date = new Date(startOfDay(time))
+  date.setDate(date.getDate() + days)
+  return date.getTime()
+}
+
+function getDayKey(time: number): string {
+  const date = new Date(time)
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function getDayLabel(start: number, now: number): string {
+  const today = startOfDay(now)
+  if (start === today) return 'Today'
+  if (start === addDays(today, -1)) return 'Yesterday'
+
+  const sameYear = new Date(start).getFullYear() === new Date(now).getFullYear()
+  return new Date(start).toLocaleDateString(undefined, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    ...(sameYear ? {} : { year: 'numeric' })
+  })
+}
+
+/**
+ * Group visits by local calendar day, keeping their order
+ */
+export function groupVisitsByDay(visits: HistoryVisit[], now = Date.now()): HistoryDay[] {
+  const days: HistoryDay[] = []
+  let current: HistoryDay | null = null
+
+  for (const visit of visits) {
+    const key = getDayKey(visit.visitedAt)
+    if (!current || current.key !== key) {
+      const start = startOfDay(visit.visitedAt)
+      current = { key, label: getDayLabel(start, now), start, visits: [] }
+      days.push(current)
+    }
+    current.visits.push(visit)
+  }
+
+  return days
+}
+
+/**
+ * Start and end (exclusive) of a day, for clearing a whole day
+ */
+export function getDayBounds(dayStart: number): { start: number; end: number } {
+  return { start: dayStart, end: addDays(dayStart, 1) }
+}
+
+/**
+ * Earliest visit time removed when clearing a range
+ */
+export function getClearRangeStart(range: HistoryClearRange, now = Date.now()): number {
+  switch (range) {
+    case 'hour':
+      return now - HOUR
+    case 'today':
+      return startOfDay(now)
+    case 'today-and-yesterday':
+      return addDays(now, -1)
+    case 'all':
+      return 0
+  }
+}
+
+/**
+ * Filter visits by a search query. Every word must appear in the title,
+ * address or name of the device the page was viewed on.
+ */
+export function searchVisits(visits: HistoryVisit[], query: string): HistoryVisit[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return visits
+
+  return visits.filter((visit) => {
+    const text = `${visit.title} ${visit.url} ${getDeviceById(visit.deviceId).name}`.toLowerCase()
+    return words.every((word) => text.includes(word))
+  })
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Serialise visits to a JSON document
+ */
+export function serialiseHistoryJson(visits: HistoryVisit[], date = new Date()): string {
+  const data: HistoryExport = {
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: date.toISOString(),
+    visits
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Quote a CSV field. Fields that a spreadsheet would treat as a formula
+ * are prefixed with an apostrophe so they are shown as text.
+ */
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Serialise visits to CSV with a header row
+ */
+export function serialiseHistoryCsv(visits: HistoryVisit[]): string {
+  const header = ['Visited', 'Title', 'URL', 'Device', 'Device ID', 'Orientation']
+  const rows = visits.map((visit) => [
+    new Date(visit.visitedAt).toISOString(),
+    visit.title,
+    visit.url,
+    getDeviceById(visit.deviceId).name,
+    visit.deviceId,
+    visit.orientation
+  ])
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
@@ -43,3 +43,69 @@ export function generateHistoryId(): string {
   const randomPart = Math.random().toString(36).substring(2, 7)
   return `hist-${timestamp}-${randomPart}`
 }
+
+/**
+ * Generates a unique bookmark identifier
+ *
+ * @returns A unique string identifier for a bookmark
+ */
+export function generateBookmarkId(): string {
+  const timestamp = Date.now().toString(36)
+  const randomPart = Math.random().toString(36).substring(2, 7)
+  return `bm-${timestamp}-${randomPart}`
+}
+
+/**
+ * Generates a unique bookmark folder identifier
+ *
+ * @returns A unique string identifier for a bookmark folder
+ */
+export function generateFolderId(): string {
+  const timestamp = Date.now().toString(36)
+  const randomPart = Math.random().toString(36).substring(2, 7)
+  return `folder-${timestamp}-${randomPart}`
+}
+
+/**
+ * Generates a unique comparison slot identifier
+ *
+ * @returns A unique string identifier for a comparison slot
+ */
+export function generateSlotId(): string {
+  const timestamp = Date.now().toString(36)
+  const randomPart = Math.random().toString(36).substring(2, 7)
+  return `slot-${timestamp}-${randomPart}`
+}
+
+/**
+ * Generates a unique browser viewport identifier
+ *
+ * @returns A unique string identifier for a viewport
+ */
+export function generateViewportId(): string {
+  const timestamp = Date.now().toString(36)
+  const randomPart = Math.random().toString(36).substring(2, 7)
+  return `vp-${timestamp}-${randomPart}`
+}
+
+/**
+ * Generates a unique address bar suggestion list identifier
+ *
+ * @returns A unique string identifier for a suggestion list
+ */
+export function generateOmniboxId(): string {
+  const timestamp = Date.now().toString(36)
+  const randomPart = Math.random().toString(36).substring(2, 7)
+  return `omnibox-${timestamp}-${randomPart}`
+}
+
+/**
+ * Generates a unique Live Activity identifier
+ *
+ * @returns A unique string identifier for a Live Activity
+ */
+export function generateActivityId(): string {
+  const timestamp = Date.now().toString(36)
+  const randomPart = Math.random().toString(36).substring(2, 7)
+  return `activity-${timestamp}-${randomPart}`
+}
@@ -8,3 +8,27 @@
 export * from './identifiers'
 export * from './url'
 export * from './dimensions'
+export * from './deviceProfiles'
+export * from './download'
+export * from './bookmarks'
+export * from './history'
+export * from './navigation'
+export * from './frameScript'
+export * from './frameStyles'
+export * from './viewportBridge'
+export * from './proxy'
+export * from './userAgent'
+export * from './orientation'
+export * from './safeArea'
+export * from './viewportUnits'
+export * from './touchEmulation'
+export * from './hardwareButtons'
+export * from './statusBar'
+export * from './liveActivity'
+export * from './keyboard'
+export * from './network'
+export * from './screenshot'
+export * from './gif'
+export * from './recording'
+export * from './deepLink'
+export * from './omnibox'
@@ -0,0 +1,336 @@
+/**
+ * Virtual Keyboard Utilities
+ *
+ * A script injected into same-origin viewport iframes for the on-screen
+ * iOS keyboard. It reports text fields gaining and losing focus, with the
+ * keyboard each asks for through `inputmode` or `type`, and carries out
+ * the keyboard's commands: typing into the focused field with the key,
+ * `beforeinput` and `input` events a real keyboard produces, moving
+ * between fields and dismissing the keyboard.
+ *
+ * As on iOS, the keyboard shrinks the visual viewport but not the layout
+ * viewport: `visualViewport.height` drops by the keyboard's height and
+ * `visualViewport` fires `resize`, whilst `innerHeight` and fixed
+ * elements stay put, so they can end up behind the keyboard.
+ */
+
+import type { DeviceModel, DeviceOrientation, KeyboardLayout, KeyboardMessage, ReturnKeyType } from '@/types'
+import { KEYBOARD } from '@/config/constants'
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Source tag on messages sent from the iframe to the emulator
+ */
+export const KEYBOARD_SOURCE = 'ibe-keyboard'
+
+/**
+ * Commands the emulator sends to the page
+ */
+export type KeyboardCommand =
+  | { type: 'key'; key: string }
+  | { type: 'height'; height: number }
+  | { type: 'move'; step: 1 | -1 }
+  | { type: 'dismiss' }
+
+const KEYBOARD_LAYOUTS: readonly KeyboardLayout[] = ['text', 'email', 'url', 'number', 'numeric', 'decimal', 'tel']
+const RETURN_KEYS: readonly ReturnKeyType[] = ['return', 'done', 'go', 'next', 'search', 'send']
+
+/**
+ * Whether a layout is the full keyboard (rather than a keypad)
+ */
+export function isLetterLayout(layout: KeyboardLayout): boolean {
+  return layout !== 'numeric' && layout !== 'decimal' && layout !== 'tel'
+}
+
+/**
+ * Height of the keyboard with its accessory bar on a device, including
+ * the bottom safe area it covers
+ */
+export function getKeyboardHeight(
+  layout: KeyboardLayout,
+  device: DeviceModel,
+  orientation: DeviceOrientation,
+  safeAreaBottom: number
+): number {
+  const landscape = orientation === 'landscape'
+  const isTablet = device.family === 'ipad'
+
+  let keys: number
+  if (isTablet) {
+    keys = landscape ? KEYBOARD.PAD_LANDSCAPE_KEYS_HEIGHT : KEYBOARD.PAD_KEYS_HEIGHT
+  } else {
+    keys = landscape ? KEYBOARD.LANDSCAPE_KEYS_HEIGHT : KEYBOARD.KEYS_HEIGHT
+  }
+
+  const predictive = isLetterLayout(layout) ? KEYBOARD.PREDICTIVE_BAR_HEIGHT : 0
+  const bottomBar = safeAreaBottom > 0 && !landscape && !isTablet ? KEYBOARD.BOTTOM_BAR_HEIGHT : 0
+  return KEYBOARD.ACCESSORY_BAR_HEIGHT + predictive + keys + bottomBar + safeAreaBottom
+}
+
+/**
+ * Build the script that installs the keyboard bridge (once per page)
+ */
+export function buildKeyboardScript(): string {
+  return `(function () {
+  if (window.__ibeKeyboard) return;
+
+  var SOURCE = ${JSON.stringify(KEYBOARD_SOURCE)};
+  var FIELD_MARGIN = ${KEYBOARD.FIELD_MARGIN};
+  var TEXT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'password', 'number'];
+  var RETURN_KEYS = ${JSON.stringify(RETURN_KEYS)};
+  var INPUT_MODES = { text: 'text', search: 'text', email: 'email', url: 'url', numeric: 'numeric', decimal: 'decimal', tel: 'tel' };
+  var keyboardHeight = 0;
+
+  function isField(el) {
+    if (!el || el.disabled || el.readOnly) return false;
+    if (el.tagName === 'TEXTAREA' || el.isContentEditable) return true;
+    return el.tagName === 'INPUT' && TEXT_TYPES.indexOf(el.type) !== -1;
+  }
+
+  // The keyboard a field asks for, or null for none (inputmode="none")
+  function layoutFor(el) {
+    var mode = (el.getAttribute('inputmode') || '').toLowerCase();
+    if (mode === 'none') return null;
+    if (INPUT_MODES[mode]) return INPUT_MODES[mode];
+    if (el.tagName === 'INPUT') {
+      if (el.type === 'email' || el.type === 'url' || el.type === 'tel') return el.type;
+      if (el.type === 'number') return 'number';
+    }
+    return 'text';
+  }
+
+  function returnKeyFor(el) {
+    var hint = (el.getAttribute('enterkeyhint') || '').toLowerCase();
+    if (RETURN_KEYS.indexOf(hint) !== -1) return hint;
+    if (hint === 'enter' || hint === 'previous') return 'return';
+    if (el.tagName !== 'INPUT') return 'return';
+    if (el.type === 'search') return 'search';
+    return el.form ? 'go' : 'return';
+  }
+
+  // Fields the accessory bar's arrows move between, in document order
+  function fields() {
+    var all = document.querySelectorAll('input, textarea, [contenteditable]');
+    return Array.prototype.filter.call(all, function (el) {
+      return isField(el) && layoutFor(el) !== null && el.getClientRects().length > 0;
+    });
+  }
+
+  function post(message) {
+    message.source = SOURCE;
+    window.parent.postMessage(message, '*');
+  }
+
+  function reportFocus(el) {
+    var layout = isField(el) ? layoutFor(el) : null;
+    if (!layout) {
+      post({ type: 'blur' });
+      return;
+    }
+    var list = fields();
+    var index = list.indexOf(el);
+    post({
+      type: 'focus',
+      layout: layout,
+      returnKey: returnKeyFor(el),
+      hasPrevious: index > 0,
+      hasNext: index !== -1 && index < list.length - 1
+    });
+  }
+
+  document.addEventListener('focusin', function (event) {
+    reportFocus(event.target);
+  }, true);
+
+  // Focus may be moving to another field; check once it has landed
+  document.addEventListener('focusout', function () {
+    setTimeout(function () {
+      if (!document.hasFocus() || !isField(document.activeElement)) {
+        post({ type: 'blur' });
+      }
+    }, 0);
+  }, true);
+
+  // The visual viewport loses the keyboard's height; the layout viewport keeps it
+  var viewport = window.visualViewport;
+  if (viewport) {
+    var heightGetter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(viewport), 'height');
+    if (heightGetter && heightGetter.get) {
+      try {
+        Object.defineProperty(viewport, 'height', {
+          get: function () {
+            return Math.max(0, heightGetter.get.call(viewport) - keyboardHeight / viewport.scale);
+          },
+          configurable: true
+        });
+      } catch (e) {}
+    }
+  }
+
+  function setHeight(height) {
+    if (height === keyboardHeight) return;
+    keyboardHeight = height;
+    if (viewport) viewport.dispatchEvent(new Event('resize'));
+
+    // Bring the focused field up above the keyboard
+    var el = document.activeElement;
+    if (height > 0 && isField(el)) {
+      var visibleBottom = window.innerHeight - height - FIELD_MARGIN;
+      var rect = el.getBoundingClientRect();
+      if (rect.bottom > visibleBottom) {
+        window.scrollBy(0, rect.bottom - visibleBottom);
+      }
+    }
+  }
+
+  // The value setter on the element's prototype, so frameworks that
+  // watch the value property see the change
+  function setValue(el, value) {
+    var descriptor = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(el), 'value');
+    if (descriptor && descriptor.set) {
+      descriptor.set.call(el, value);
+    } else {
+      el.value = value;
+    }
+  }
+
+  function edit(el, inputType, data) {
+    var before = new InputEvent('beforeinput', {
+      inputType: inputType,
+      data: data,
+      bubbles: true,
+      cancelable: true,
+      composed: true
+    });
+    if (!el.dispatchEvent(before)) return;
+
+    if (el.isContentEditable) {
+      document.execCommand(inputType === 'deleteContentBackward' ? 'delete' : 'insertText', false, data);
+      return;
+    }
+
+    var value = el.value;
+    // Email and number fields have no selection; edit at the end
+    var hasSelection = typeof el.selectionStart === 'number';
+    var start = hasSelection ? el.selectionStart : value.length;
+    var end = hasSelection ? el.selectionEnd : value.length;
+
+    if (inputType === 'deleteContentBackward') {
+      if (start === end) {
+        if (start === 0) return;
+        start -= 1;
+      }
+      data = '';
+    } else if (el.maxLength >= 0 && value.length - (end - start) + data.length > el.maxLength) {
+      return;
+    }
+
+    setValue(el, value.slice(0, start) + data + value.slice(end));
+    if (hasSelection) {
+      el.setSelectionRange(start + data.length, start + data.length);
+    }
+    el.dispatchEvent(new InputEvent('input', {
+      inputType: inputType,
+      data: inputType === 'deleteContentBackward' ? null : data,
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  function press(key) {
+    var el = document.activeElement;
+    if (!isField(el)) return;
+
+    var code = key === 'Enter' || key === 'Backspace' ? key : key === ' ' ? 'Space' : '';
+    var init = { key: key, code: code, bubbles: true, cancelable: true, composed: true };
+    if (el.dispatchEvent(new KeyboardEvent('keydown', init))) {
+      if (key === 'Backspace') {
+        edit(el, 'deleteContentBackward', null);
+      } else if (key === 'Enter') {
+        if (el.tagName === 'INPUT') {
+          // Implicit submission, as pressing return in a form field does
+          if (el.form) {
+            if (el.form.requestSubmit) el.form.requestSubmit();
+            else el.form.submit();
+          }
+        } else {
+          edit(el, 'insertLineBreak', '\\n');
+        }
+      } else {
+        edit(el, 'insertText', key);
+      }
+    }
+    el.dispatchEvent(new KeyboardEvent('keyup', init));
+  }
+
+  function move(step) {
+    var list = fields();
+    var next = list[list.indexOf(document.activeElement) + step];
+    if (next) next.focus();
+  }
+
+  window.__ibeKeyboard = {
+    run: function (command) {
+      if (command.type === 'key') press(command.key);
+      else if (command.type === 'height') setHeight(command.height);
+      else if (command.type === 'move') move(command.step);
+      else if (command.type === 'dismiss' && document.activeElement) document.activeElement.blur();
+    }
+  };
+})();`
+}
+
+/**
+ * Install the keyboard bridge in a same-origin iframe
+ *
+ * @returns True if installed, false if the frame is cross-origin or not loaded
+ */
+export function installKeyboard(iframe: HTMLIFrameElement): boolean {
+  return injectFrameScript(iframe, buildKeyboardScript())
+}
+
+/**
+ * Send a command to a same-origin iframe's keyboard bridge
+ *
+ * @returns True if sent, false if the frame is cross-origin or not loaded
+ */
+export function sendKeyboardCommand(iframe: HTMLIFrameElement, command: KeyboardCommand): boolean {
+  return injectFrameScript(
+    iframe,
+    `window.__ibeKeyboard && window.__ibeKeyboard.run(${JSON.stringify(command)});`
+  )
+}
+
+/**
+ * Parse postMessage data sent by the keyboard script
+ *
+ * @returns The message, or null if the data is not a keyboard message
+ */
+export function parseKeyboardMessage(data: unknown): KeyboardMessage | null {
+  if (typeof data !== 'object' || data === null) return null
+
+  const record = data as Record<string, unknown>
+  if (record['source'] !== KEYBOARD_SOURCE) return null
+
+  if (record['type'] === 'blur') {
+    return { type: 'blur' }
+  }
+
+  const layout = record['layout']
+  const returnKey = record['returnKey']
+  if (
+    record['type'] !== 'focus' ||
+    !KEYBOARD_LAYOUTS.includes(layout as KeyboardLayout) ||
+    !RETURN_KEYS.includes(returnKey as ReturnKeyType)
+  ) {
+    return null
+  }
+
+  return {
+    type: 'focus',
+    layout: layout as KeyboardLayout,
+    returnKey: returnKey as ReturnKeyType,
+    hasPrevious: record['hasPrevious'] === true,
+    hasNext: record['hasNext'] === true
+  }
+}
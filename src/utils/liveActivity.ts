@@ -0,0 +1,279 @@
+/**
+ * Live Activity Utilities
+ *
+ * Validates Live Activities, commands and timelines arriving from pages
+ * (via postMessage), from timeline JSON pasted into the emulator, or from
+ * updates that merge new fields into an activity. Pages post messages
+ * tagged with the source `ibe-live-activity`:
+ *
+ * @example
+ * window.parent.postMessage({
+ *   source: 'ibe-live-activity',
+ *   type: 'start',
+ *   activity: { kind: 'timer', id: 'tea', label: 'Tea', duration: 180 },
+ * }, '*')
+ */
+
+import type {
+  LiveActivity,
+  LiveActivityCommand,
+  LiveActivityMessage,
+  LiveActivityTimeline,
+  LiveActivityTimelineStep
+} from '@/types/liveActivity'
+import { generateActivityId } from './identifiers'
+
+/**
+ * Source tag on messages sent from the iframe to the emulator
+ */
+export const LIVE_ACTIVITY_SOURCE = 'ibe-live-activity'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Validate a Live Activity. Missing ids are generated and optional
+ * fields get their defaults.
+ *
+ * @returns The activity, or null if its kind or required fields are invalid
+ */
+export function parseLiveActivity(data: unknown): LiveActivity | null {
+  if (!isRecord(data)) return null
+
+  const id = optionalString(data['id']) ?? generateActivityId()
+  const startedAt = optionalNumber(data['startedAt'])
+
+  switch (data['kind']) {
+    case 'timer': {
+      const duration = optionalNumber(data['duration'])
+      if (duration === undefined || duration <= 0) return null
+      return {
+        kind: 'timer',
+        id,
+        label: optionalString(data['label']) ?? 'Timer',
+        duration,
+        ...(startedAt !== undefined ? { startedAt } : {})
+      }
+    }
+
+    case 'now-playing': {
+      const title = optionalString(data['title'])
+      if (!title) return null
+      const artwork = optionalString(data['artwork'])
+      return {
+        kind: 'now-playing',
+        id,
+        title,
+        artist: optionalString(data['artist']) ?? '',
+        ...(artwork ? { artwork } : {}),
+        playing: data['playing'] !== false,
+        progress: Math.min(1, Math.max(0, optionalNumber(data['progress']) ?? 0))
+      }
+    }
+
+    case 'call': {
+      const caller = optionalString(data['caller'])
+      if (!caller) return null
+      return {
+        kind: 'call',
+        id,
+        caller,
+        connected: data['connected'] === true,
+        ...(startedAt !== undefined ? { startedAt } : {})
+      }
+    }
+
+    case 'custom': {
+      const tint = optionalString(data['tint'])
+      const activity = {
+        kind: 'custom' as const,
+        id,
+        leading: optionalString(data['leading']) ?? '',
+        trailing: optionalString(data['trailing']) ?? '',
+        title: optionalString(data['title']) ?? '',
+        body: optionalString(data['body']) ?? '',
+        ...(tint ? { tint } : {})
+      }
+      // Nothing to show
+      if (!activity.leading && !activity.trailing && !activity.title) return null
+      return activity
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Validate a command
+ *
+ * @returns The command, or null if its type or fields are invalid
+ */
+export function parseLiveActivityCommand(data: unknown): LiveActivityCommand | null {
+  if (!isRecord(data)) return null
+
+  const id = optionalString(data['id'])
+
+  switch (data['type']) {
+    case 'start': {
+      const activity = parseLiveActivity(data['activity'])
+      return activity ? { type: 'start', activity } : null
+    }
+
+    case 'update':
+      return id && isRecord(data['changes']) ? { type: 'update', id, changes: data['changes'] } : null
+
+    case 'end':
+      return id ? { type: 'end', id } : null
+
+    case 'expand': {
+      const duration = optionalNumber(data['duration'])
+      return {
+        type: 'expand',
+        ...(id ? { id } : {}),
+        ...(duration !== undefined && duration >= 0 ? { duration } : {})
+      }
+    }
+
+    case 'collapse':
+      return { type: 'collapse' }
+
+    case 'present':
+      return data['state'] === 'compact' || data['state'] === 'minimal'
+        ? { type: 'present', state: data['state'] }
+        : null
+
+    case 'clear':
+      return { type: 'clear' }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Validate a timeline step: a command with an `at` time in milliseconds
+ */
+function parseTimelineStep(data: unknown): LiveActivityTimelineStep | null {
+  if (!isRecord(data)) return null
+
+  const at = optionalNumber(data['at'])
+  const command = parseLiveActivityCommand(data)
+  if (at === undefined || at < 0 || !command) return null
+
+  return { ...command, at }
+}
+
+/**
+ * Validate a timeline. A bare array of steps is accepted too. Steps are
+ * sorted by time.
+ *
+ * @returns The timeline, or null if it has no steps or any step is invalid
+ */
+export function parseLiveActivityTimeline(data: unknown): LiveActivityTimeline | null {
+  const steps = Array.isArray(data) ? data : isRecord(data) ? data['steps'] : undefined
+  if (!Array.isArray(steps) || steps.length === 0) return null
+
+  const parsed = steps.map(parseTimelineStep)
+  if (parsed.some((step) => step === null)) return null
+
+  return {
+    loop: isRecord(data) && data['loop'] === true,
+    steps: (parsed as LiveActivityTimelineStep[]).sort((a, b) => a.at - b.at)
+  }
+}
+
+/**
+ * Parse timeline JSON written in the emulator
+ *
+ * @throws Error describing the first problem found
+ */
+export function parseLiveActivityTimelineJson(json: string): LiveActivityTimeline {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('The timeline is not valid JSON.')
+  }
+
+  const steps = Array.isArray(data) ? data : isRecord(data) ? data['steps'] : undefined
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('The timeline needs a "steps" array with at least one step.')
+  }
+
+  const invalid = steps.findIndex((step) => parseTimelineStep(step) === null)
+  if (invalid !== -1) {
+    throw new Error(`Step ${invalid + 1} needs an "at" time and a valid command.`)
+  }
+
+  return parseLiveActivityTimeline(data) as LiveActivityTimeline
+}
+
+/**
+ * Validate a message posted by a page
+ *
+ * @returns The message, or null if it is not a valid Live Activity message
+ */
+export function parseLiveActivityMessage(data: unknown): LiveActivityMessage | null {
+  if (!isRecord(data) || data['source'] !== LIVE_ACTIVITY_SOURCE) return null
+
+  if (data['type'] === 'timeline') {
+    const timeline = parseLiveActivityTimeline(data['timeline'])
+    return timeline ? { type: 'timeline', timeline } : null
+  }
+  if (data['type'] === 'stop-timeline') {
+    return { type: 'stop-timeline' }
+  }
+
+  return parseLiveActivityCommand(data)
+}
+
+/**
+ * Format seconds as a countdown or call duration
+ *
+ * @example formatActivityDuration(185) // '3:05'
+ * @example formatActivityDuration(3725) // '1:02:05'
+ */
+export function formatActivityDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = String(total % 60).padStart(2, '0')
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+/**
+ * A demo of each kind of activity: a timer, music joining it, an incoming
+ * call that is answered and hung up, then everything ending
+ */
+export const DEMO_LIVE_ACTIVITY_TIMELINE: LiveActivityTimeline = {
+  loop: false,
+  steps: [
+    { at: 0, type: 'start', activity: { kind: 'timer', id: 'demo-timer', label: 'Pasta', duration: 540 } },
+    { at: 800, type: 'expand', id: 'demo-timer', duration: 2500 },
+    {
+      at: 5000,
+      type: 'start',
+      activity: { kind: 'now-playing', id: 'demo-music', title: 'Morning Light', artist: 'The Lanterns', playing: true, progress: 0.3 }
+    },
+    { at: 6000, type: 'expand', id: 'demo-music', duration: 3000 },
+    { at: 12000, type: 'start', activity: { kind: 'call', id: 'demo-call', caller: 'Alex', connected: false } },
+    { at: 12300, type: 'expand', id: 'demo-call', duration: 0 },
+    { at: 15000, type: 'update', id: 'demo-call', changes: { connected: true } },
+    { at: 16500, type: 'collapse' },
+    { at: 22000, type: 'end', id: 'demo-call' },
+    { at: 25000, type: 'update', id: 'demo-music', changes: { playing: false } },
+    { at: 27000, type: 'end', id: 'demo-music' },
+    { at: 30000, type: 'end', id: 'demo-timer' }
+  ]
+}
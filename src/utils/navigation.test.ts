@@ -0,0 +1,175 @@
+/**
+ * Navigation reducer and middleware tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { NavigationAction, NavigationMiddleware, NavigationState } from '@/types/navigation'
+import {
+  applyNavigationMiddleware,
+  createNavigationState,
+  createPersistenceMiddleware,
+  navigationReducer
+} from './navigation'
+
+function navigate(url: string, timestamp = 1): NavigationAction {
+  return { type: 'NAVIGATE', payload: { url, timestamp } }
+}
+
+function reduce(...actions: NavigationAction[]): NavigationState {
+  return actions.reduce(navigationReducer, createNavigationState())
+}
+
+function urls(state: NavigationState): string[] {
+  return state.history.map((entry) => entry.url)
+}
+
+describe('navigationReducer', () => {
+  it('adds an entry and moves to it on each navigation', () => {
+    const state = reduce(navigate('https://a.test/'), navigate('https://b.test/'))
+
+    expect(urls(state)).toEqual(['https://a.test/', 'https://b.test/'])
+    expect(state.historyIndex).toBe(1)
+    expect(state.currentUrl).toBe('https://b.test/')
+    expect(state.canGoBack).toBe(true)
+    expect(state.canGoForward).toBe(false)
+    expect(state.isLoading).toBe(true)
+  })
+
+  it('moves back and forward without changing the history', () => {
+    const navigated = reduce(navigate('https://a.test/'), navigate('https://b.test/'), navigate('https://c.test/'))
+    const back = navigationReducer(navigationReducer(navigated, { type: 'GO_BACK' }), { type: 'GO_BACK' })
+
+    expect(back.history).toBe(navigated.history)
+    expect(back.historyIndex).toBe(0)
+    expect(back.currentUrl).toBe('https://a.test/')
+    expect(back.canGoBack).toBe(false)
+    expect(back.canGoForward).toBe(true)
+
+    const forward = navigationReducer(back, { type: 'GO_FORWARD' })
+    expect(forward.historyIndex).toBe(1)
+    expect(forward.currentUrl).toBe('https://b.test/')
+  })
+
+  it('returns the same state when there is nowhere to go', () => {
+    const empty = createNavigationState()
+    const single = reduce(navigate('https://a.test/'))
+
+    expect(navigationReducer(empty, { type: 'GO_BACK' })).toBe(empty)
+    expect(navigationReducer(empty, { type: 'RELOAD' })).toBe(empty)
+    expect(navigationReducer(single, { type: 'GO_BACK' })).toBe(single)
+    expect(navigationReducer(single, { type: 'GO_FORWARD' })).toBe(single)
+  })
+
+  it('drops forward history when navigating from an earlier entry', () => {
+    const state = reduce(
+      navigate('https://a.test/'),
+      navigate('https://b.test/'),
+      navigate('https://c.test/'),
+      { type: 'GO_BACK' },
+      { type: 'GO_BACK' },
+      navigate('https://d.test/')
+    )
+
+    expect(urls(state)).toEqual(['https://a.test/', 'https://d.test/'])
+    expect(state.historyIndex).toBe(1)
+    expect(state.canGoForward).toBe(false)
+  })
+
+  it('replaces the current entry, keeping forward history', () => {
+    const state = reduce(
+      navigate('https://a.test/'),
+      navigate('https://b.test/'),
+      { type: 'GO_BACK' },
+      { type: 'NAVIGATE', payload: { url: 'https://z.test/', replace: true, timestamp: 2 } }
+    )
+
+    expect(urls(state)).toEqual(['https://z.test/', 'https://b.test/'])
+    expect(state.historyIndex).toBe(0)
+    expect(state.currentUrl).toBe('https://z.test/')
+  })
+
+  it('adds the first entry when replacing with no history', () => {
+    const state = reduce({ type: 'NAVIGATE', payload: { url: 'https://a.test/', replace: true, timestamp: 1 } })
+
+    expect(urls(state)).toEqual(['https://a.test/'])
+    expect(state.historyIndex).toBe(0)
+  })
+
+  it('clamps a restored index to the restored history', () => {
+    const history = [{ url: 'https://a.test/', timestamp: 1 }, { url: 'https://b.test/', timestamp: 2 }]
+    const state = reduce({ type: 'RESTORE', payload: { history, historyIndex: 5 } })
+
+    expect(state.historyIndex).toBe(1)
+    expect(state.currentUrl).toBe('https://b.test/')
+    expect(state.isLoading).toBe(false)
+  })
+
+  it('ends loads at 100% progress when stopped or complete and at 0% on an error', () => {
+    const loading = reduce(navigate('https://a.test/'), { type: 'SET_PROGRESS', payload: { progress: 40 } })
+
+    expect(navigationReducer(loading, { type: 'STOP' }).loadProgress).toBe(100)
+    expect(navigationReducer(loading, { type: 'LOAD_COMPLETE', payload: {} }).loadProgress).toBe(100)
+
+    const failed = navigationReducer(loading, {
+      type: 'SET_ERROR',
+      payload: { type: 'network', message: 'Offline', url: 'https://a.test/', timestamp: 2 }
+    })
+    expect(failed.isLoading).toBe(false)
+    expect(failed.loadProgress).toBe(0)
+  })
+})
+
+describe('applyNavigationMiddleware', () => {
+  function createDispatch(middleware: NavigationMiddleware[]) {
+    let state = createNavigationState()
+    const getState = () => state
+    const dispatch = applyNavigationMiddleware(middleware, getState, (action) => {
+      state = navigationReducer(state, action)
+      return state
+    })
+    return { dispatch, getState }
+  }
+
+  it('runs the first middleware outermost', () => {
+    const calls: string[] = []
+    const trace = (name: string): NavigationMiddleware => (action, next) => {
+      calls.push(`${name} before`)
+      const state = next(action)
+      calls.push(`${name} after`)
+      return state
+    }
+
+    createDispatch([trace('first'), trace('second')]).dispatch(navigate('https://a.test/'))
+
+    expect(calls).toEqual(['first before', 'second before', 'second after', 'first after'])
+  })
+
+  it('drops an action a middleware does not pass on', () => {
+    const seen: string[] = []
+    const block: NavigationMiddleware = (_action, _next, getState) => getState()
+    const after: NavigationMiddleware = (action, next) => {
+      seen.push(action.type)
+      return next(action)
+    }
+
+    const { dispatch, getState } = createDispatch([block, after])
+    const result = dispatch(navigate('https://a.test/'))
+
+    expect(seen).toEqual([])
+    expect(result).toBe(getState())
+    expect(result.history).toEqual([])
+  })
+
+  it('saves through the persistence middleware only when the history or position changes', () => {
+    const saved: NavigationState[] = []
+    const { dispatch } = createDispatch([createPersistenceMiddleware((state) => saved.push(state))])
+
+    dispatch(navigate('https://a.test/'))
+    dispatch({ type: 'SET_PROGRESS', payload: { progress: 50 } })
+    dispatch({ type: 'LOAD_COMPLETE', payload: {} })
+    dispatch(navigate('https://b.test/'))
+    dispatch({ type: 'GO_BACK' })
+
+    expect(saved.map((entry) => entry.currentUrl)).toEqual(['https://a.test/', 'https://b.test/', 'https://a.test/'])
+  })
+})
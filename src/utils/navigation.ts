@@ -0,0 +1,190 @@
+/**
+ * Navigation State Machine
+ *
+ * The single navigation reducer behind every navigation API (the
+ * navigation store, the browser store and each comparison slot), plus
+ * middleware that runs side effects such as persistence around it.
+ * The reducer is pure: it never reads the clock or storage, and returns
+ * the same state object when an action changes nothing.
+ *
+ * Only persistence middleware is provided. The logging and analytics
+ * hooks first planned were dropped, as nothing used them; callers that
+ * want either add their own middleware with `use()`.
+ */
+
+import type {
+  NavigationAction,
+  NavigationDispatch,
+  NavigationEntry,
+  NavigationMiddleware,
+  NavigationState
+} from '@/types/navigation'
+
+/**
+ * Empty navigation state (the start page, no history)
+ */
+export function createNavigationState(): NavigationState {
+  return {
+    currentUrl: '',
+    history: [],
+    historyIndex: -1,
+    isLoading: false,
+    loadProgress: 0,
+    error: null,
+    canGoBack: false,
+    canGoForward: false
+  }
+}
+
+function clampProgress(progress: number): number {
+  return Math.max(0, Math.min(100, progress))
+}
+
+/**
+ * Move to a history position, deriving the current URL and back/forward flags
+ */
+function withHistory(state: NavigationState, history: NavigationEntry[], historyIndex: number): NavigationState {
+  return {
+    ...state,
+    history,
+    historyIndex,
+    currentUrl: history[historyIndex]?.url ?? '',
+    canGoBack: historyIndex > 0,
+    canGoForward: historyIndex < history.length - 1
+  }
+}
+
+/**
+ * Start loading the current URL
+ */
+function startLoading(state: NavigationState): NavigationState {
+  return { ...state, isLoading: true, loadProgress: 0, error: null }
+}
+
+function updateCurrentEntry(state: NavigationState, changes: Partial<NavigationEntry>): NavigationState {
+  const entry = state.history[state.historyIndex]
+  if (!entry) return state
+
+  const history = [...state.history]
+  history[state.historyIndex] = { ...entry, ...changes }
+  return { ...state, history }
+}
+
+/**
+ * Apply a navigation action
+ *
+ * - Navigating, going back or forward and reloading start a load and clear
+ *   any error. Back, forward and reload do nothing when unavailable.
+ * - Stopping and completing end the load at 100% progress; an error ends it
+ *   at 0%.
+ */
+export function navigationReducer(state: NavigationState, action: NavigationAction): NavigationState {
+  switch (action.type) {
+    case 'NAVIGATE': {
+      const { url, replace, timestamp } = action.payload
+      const entry: NavigationEntry = { url, timestamp }
+
+      if (replace && state.historyIndex >= 0) {
+        const history = [...state.history]
+        history[state.historyIndex] = entry
+        return startLoading(withHistory(state, history, state.historyIndex))
+      }
+
+      // A new entry drops any forward history
+      const history = [...state.history.slice(0, state.historyIndex + 1), entry]
+      return startLoading(withHistory(state, history, history.length - 1))
+    }
+
+    case 'GO_BACK':
+      if (state.historyIndex <= 0) return state
+      return startLoading(withHistory(state, state.history, state.historyIndex - 1))
+
+    case 'GO_FORWARD':
+      if (state.historyIndex >= state.history.length - 1) return state
+      return startLoading(withHistory(state, state.history, state.historyIndex + 1))
+
+    case 'RELOAD':
+      if (!state.currentUrl) return state
+      return startLoading(state)
+
+    case 'STOP':
+      if (!state.isLoading) return state
+      return { ...state, isLoading: false, loadProgress: 100 }
+
+    case 'SET_LOADING': {
+      const { isLoading, progress } = action.payload
+      return {
+        ...state,
+        isLoading,
+        loadProgress: progress === undefined ? state.loadProgress : clampProgress(progress)
+      }
+    }
+
+    case 'SET_PROGRESS':
+      return { ...state, loadProgress: clampProgress(action.payload.progress) }
+
+    case 'LOAD_COMPLETE': {
+      const loaded = { ...state, isLoading: false, loadProgress: 100, error: null }
+      const { title } = action.payload
+      return title ? updateCurrentEntry(loaded, { title }) : loaded
+    }
+
+    case 'SET_ERROR':
+      return { ...state, isLoading: false, loadProgress: 0, error: action.payload }
+
+    case 'CLEAR_ERROR':
+      return state.error ? { ...state, error: null } : state
+
+    case 'UPDATE_TITLE':
+      return updateCurrentEntry(state, { title: action.payload.title })
+
+    case 'UPDATE_FAVICON':
+      return updateCurrentEntry(state, { favicon: action.payload.favicon })
+
+    case 'UPDATE_SCROLL': {
+      const { x, y } = action.payload
+      const current = state.history[state.historyIndex]?.scrollPosition
+      if (current && current.x === x && current.y === y) return state
+      return updateCurrentEntry(state, { scrollPosition: { x, y } })
+    }
+
+    case 'RESTORE': {
+      // The restored page is assumed to be already loaded
+      const { history, historyIndex } = action.payload
+      return withHistory(createNavigationState(), [...history], Math.min(historyIndex, history.length - 1))
+    }
+
+    case 'RESET':
+      return createNavigationState()
+  }
+}
+
+/**
+ * Chain middleware in front of a dispatch function. The first middleware
+ * in the list sees each action first and the resulting state last.
+ */
+export function applyNavigationMiddleware(
+  middleware: readonly NavigationMiddleware[],
+  getState: () => NavigationState,
+  dispatch: NavigationDispatch
+): NavigationDispatch {
+  return middleware.reduceRight<NavigationDispatch>(
+    (next, handler) => (action) => handler(action, next, getState),
+    dispatch
+  )
+}
+
+/**
+ * Save the state whenever the history or position in it changes
+ * (progress and loading updates are not saved)
+ */
+export function createPersistenceMiddleware(save: (state: NavigationState) => void): NavigationMiddleware {
+  return (action, next, getState) => {
+    const previous = getState()
+    const state = next(action)
+    if (state.history !== previous.history || state.historyIndex !== previous.historyIndex) {
+      save(state)
+    }
+    return state
+  }
+}
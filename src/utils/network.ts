@@ -0,0 +1,62 @@
+/**
+ * Network Status Utilities
+ *
+ * A script injected into same-origin viewport iframes while the network
+ * profile is offline. `navigator.onLine` turns false and `offline` fires
+ * on the window (`online` on reconnecting), and requests the page makes
+ * with `fetch` or `XMLHttpRequest` fail as Safari's do without a
+ * connection. Pages are injected the same way whether or not they came
+ * through the proxy, which only ever sees online network profiles.
+ */
+
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Build the script that reports the page as online or offline. A page is
+ * left alone until it first goes offline.
+ */
+export function buildNetworkStatusScript(online: boolean): string {
+  return `(function () {
+  var ONLINE = ${online};
+  if (!window.__ibeNetwork) {
+    if (ONLINE) return;
+    window.__ibeNetwork = { online: true };
+
+    try {
+      Object.defineProperty(navigator, 'onLine', {
+        get: function () { return window.__ibeNetwork.online; },
+        configurable: true
+      });
+    } catch (e) {}
+
+    var fetch = window.fetch;
+    window.fetch = function () {
+      if (!window.__ibeNetwork.online) return Promise.reject(new TypeError('Load failed'));
+      return fetch.apply(this, arguments);
+    };
+
+    var send = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.send = function () {
+      if (window.__ibeNetwork.online) return send.apply(this, arguments);
+      var xhr = this;
+      setTimeout(function () {
+        xhr.dispatchEvent(new ProgressEvent('error'));
+        xhr.dispatchEvent(new ProgressEvent('loadend'));
+      }, 0);
+    };
+  }
+
+  if (window.__ibeNetwork.online === ONLINE) return;
+  window.__ibeNetwork.online = ONLINE;
+  window.dispatchEvent(new Event(ONLINE ? 'online' : 'offline'));
+})();`
+}
+
+/**
+ * Report a same-origin iframe's page as online or offline
+ *
+ * @returns True if applied, false if the frame is cross-origin or not loaded
+ */
+export function applyNetworkStatus(iframe: HTMLIFrameElement, online: boolean): boolean {
+  return injectFrameScript(iframe, buildNetworkStatusScript(online))
+}
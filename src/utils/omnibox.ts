@@ -0,0 +1,257 @@
+/**
+ * Address Bar (Omnibox) Utilities
+ *
+ * Decides whether typed text is an address or a search, ranks suggestions
+ * from history, bookmarks and open tabs, and fetches search suggestions
+ * from the selected engine. Fetchers are plain functions so tests and
+ * offline builds can swap in their own.
+ */
+
+import type { HistoryVisit, OmniboxSuggestion, OmniboxSuggestionSource } from '@/types/browser'
+import { SEARCH_ENGINES, type SearchEngineId } from '@/config/browser'
+import { isLocalhostUrl, normaliseUrl } from './url'
+
+/**
+ * Page the address bar can suggest, before ranking
+ */
+export interface OmniboxCandidate {
+  source: Extract<OmniboxSuggestionSource, 'history' | 'bookmark' | 'tab'>
+  url: string
+  title: string
+  /** Open tab to switch to */
+  tabId?: string
+  /** Times the page appears in history */
+  visitCount?: number
+  /** Most recent visit (Unix epoch milliseconds) */
+  lastVisited?: number
+}
+
+/**
+ * What typed text resolves to
+ */
+export interface OmniboxTarget {
+  kind: 'url' | 'search'
+  url: string
+}
+
+/**
+ * Fetch search suggestions for a query. Resolve with an empty list when
+ * suggestions are unavailable rather than rejecting.
+ */
+export type SearchSuggestionFetcher = (
+  query: string,
+  engine: SearchEngineId,
+  signal: AbortSignal
+) => Promise<string[]>
+
+const DAY = 24 * 60 * 60 * 1000
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/
+const TLD_PATTERN = /^(xn--[a-z\d-]+|[a-z]{2,63})$/i
+const SCHEME_PATTERN = /^https?:\/\//i
+
+/**
+ * Whether typed text looks like an address rather than a search.
+ * Anything with a space is a search; otherwise an explicit http(s)
+ * scheme, localhost, an IP address or a host name ending in a
+ * plausible top-level domain counts as an address.
+ */
+export function isLikelyUrl(input: string): boolean {
+  const trimmed = input.trim()
+  if (!trimmed || /\s/.test(trimmed)) return false
+  if (SCHEME_PATTERN.test(trimmed)) return true
+
+  let parsed: URL
+  try {
+    parsed = new URL(`http://${trimmed}`)
+  } catch {
+    return false
+  }
+
+  // An email address is more likely a search than credentials in a URL
+  if (parsed.username || parsed.password) return false
+
+  const { hostname } = parsed
+  if (hostname === 'localhost' || hostname.startsWith('[') || IPV4_PATTERN.test(hostname)) return true
+  if (!hostname.includes('.')) return false
+
+  return TLD_PATTERN.test(hostname.split('.').pop() ?? '')
+}
+
+/**
+ * Results page for a query on a search engine
+ */
+export function getSearchUrl(engine: SearchEngineId, query: string): string {
+  return SEARCH_ENGINES[engine].searchUrl + encodeURIComponent(query.trim())
+}
+
+/**
+ * Resolve typed text to the page to open. A leading `?` forces a search.
+ * Local addresses default to http, everything else to https.
+ *
+ * @returns null for empty input
+ */
+export function resolveOmniboxInput(input: string, engine: SearchEngineId): OmniboxTarget | null {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+
+  if (trimmed.startsWith('?')) {
+    const query = trimmed.slice(1).trim()
+    return query ? { kind: 'search', url: getSearchUrl(engine, query) } : null
+  }
+
+  if (!isLikelyUrl(trimmed)) {
+    return { kind: 'search', url: getSearchUrl(engine, trimmed) }
+  }
+
+  if (SCHEME_PATTERN.test(trimmed)) {
+    return { kind: 'url', url: trimmed }
+  }
+  return { kind: 'url', url: isLocalhostUrl(trimmed) ? `http://${trimmed}` : normaliseUrl(trimmed) }
+}
+
+/**
+ * Combine visits to the same page into one candidate, titled after the
+ * most recent visit
+ */
+export function collectHistoryCandidates(visits: HistoryVisit[]): OmniboxCandidate[] {
+  const byUrl = new Map<string, OmniboxCandidate>()
+
+  for (const visit of visits) {
+    const existing = byUrl.get(visit.url)
+    if (existing) {
+      existing.visitCount = (existing.visitCount ?? 1) + 1
+      existing.lastVisited = Math.max(existing.lastVisited ?? 0, visit.visitedAt)
+    } else {
+      byUrl.set(visit.url, {
+        source: 'history',
+        url: visit.url,
+        title: visit.title,
+        visitCount: 1,
+        lastVisited: visit.visitedAt
+      })
+    }
+  }
+
+  return [...byUrl.values()]
+}
+
+/**
+ * Address without the scheme or a leading `www.`, as people type it
+ */
+function stripUrl(url: string): string {
+  return url.replace(/^[a-z][a-z\d+.-]*:\/\//i, '').replace(/^www\./i, '').toLowerCase()
+}
+
+/**
+ * How well a candidate matches the typed text, or 0 for no match.
+ * Address prefixes beat title word prefixes, which beat substrings.
+ */
+function scoreMatch(text: string, words: string[], candidate: OmniboxCandidate): number {
+  const address = stripUrl(candidate.url)
+  const title = candidate.title.toLowerCase()
+
+  if (address.startsWith(text)) return address.indexOf('/') === -1 || address.indexOf('/') >= text.length ? 100 : 80
+  if (title.split(/\s+/).some((word) => word.startsWith(text))) return 60
+  if (title.includes(text)) return 40
+  if (address.includes(text)) return 30
+
+  const haystack = `${title} ${address}`
+  return words.length > 1 && words.every((word) => haystack.includes(word)) ? 20 : 0
+}
+
+/**
+ * Extra weight for pages the user has open, has chosen to keep or keeps
+ * returning to. An open tab outranks any history for the same page, so
+ * the list offers to switch to it rather than open it again.
+ */
+function scoreSource(candidate: OmniboxCandidate, now: number): number {
+  switch (candidate.source) {
+    case 'tab':
+      return 35
+    case 'bookmark':
+      return 20
+    case 'history': {
+      const frequency = Math.min(20, (candidate.visitCount ?? 1) * 4)
+      const age = now - (candidate.lastVisited ?? 0)
+      const recency = age < DAY ? 10 : age < 7 * DAY ? 5 : 0
+      return frequency + recency
+    }
+  }
+}
+
+/**
+ * Rank candidates against typed text, keeping the best suggestion for
+ * each page
+ */
+export function rankSuggestions(
+  input: string,
+  candidates: OmniboxCandidate[],
+  limit: number,
+  now = Date.now()
+): OmniboxSuggestion[] {
+  const text = input.trim().toLowerCase()
+  if (!text) return []
+  const words = text.split(/\s+/)
+
+  const best = new Map<string, { candidate: OmniboxCandidate; score: number }>()
+  for (const candidate of candidates) {
+    const match = scoreMatch(text, words, candidate)
+    if (match === 0) continue
+
+    const score = match + scoreSource(candidate, now)
+    const current = best.get(candidate.url)
+    if (!current || score > current.score) {
+      best.set(candidate.url, { candidate, score })
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => ({
+      id: `${candidate.source}:${candidate.tabId ?? candidate.url}`,
+      source: candidate.source,
+      title: candidate.title,
+      url: candidate.url,
+      ...(candidate.tabId ? { tabId: candidate.tabId } : {})
+    }))
+}
+
+/**
+ * Read phrases from a suggestion response: OpenSearch `[query, [phrases]]`
+ * (Google, Bing) or `[{ phrase }]` (DuckDuckGo)
+ */
+export function parseSuggestionResponse(data: unknown): string[] {
+  if (!Array.isArray(data)) return []
+
+  const phrases: unknown[] = Array.isArray(data[1])
+    ? data[1]
+    : data.map((item: unknown) =>
+      typeof item === 'object' && item !== null ? (item as Record<string, unknown>)['phrase'] : undefined
+    )
+
+  return phrases.filter((phrase): phrase is string => typeof phrase === 'string' && phrase.length > 0)
+}
+
+/**
+ * Fetcher for the engines' own suggestion endpoints. They do not allow
+ * cross-origin requests, so `resolveUrl` routes each request (through the
+ * rewriting proxy, say) and returns null when no route is available.
+ */
+export function createSearchSuggestionFetcher(
+  resolveUrl: (url: string) => string | null,
+  fetchImpl: typeof fetch = (...args) => fetch(...args)
+): SearchSuggestionFetcher {
+  return async (query, engine, signal) => {
+    const url = resolveUrl(SEARCH_ENGINES[engine].suggestUrl + encodeURIComponent(query))
+    if (!url) return []
+
+    try {
+      const response = await fetchImpl(url, { signal })
+      return response.ok ? parseSuggestionResponse(await response.json()) : []
+    } catch {
+      return []
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Orientation Emulation Utilities
+ *
+ * Reports the emulated device orientation to pages in same-origin
+ * viewport iframes. The iframe itself resizes with the screen, so media
+ * queries and resize events follow naturally; this script covers the
+ * orientation APIs that would otherwise report the host's orientation.
+ */
+
+import type { DeviceOrientation } from '@/types/device'
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Rotation angle reported for an orientation. Landscape is emulated with
+ * the top of the device on the left, which iOS reports as 90 degrees.
+ */
+export function getOrientationAngle(orientation: DeviceOrientation): number {
+  return orientation === 'landscape' ? 90 : 0
+}
+
+/**
+ * Screen Orientation API type for an orientation
+ */
+export function getOrientationType(orientation: DeviceOrientation): OrientationType {
+  return orientation === 'landscape' ? 'landscape-primary' : 'portrait-primary'
+}
+
+/**
+ * Build the script that sets `window.orientation` and `screen.orientation`
+ * and, when `notify` is set, fires `orientationchange` on the window and
+ * `change` on `screen.orientation` as iOS does.
+ */
+export function buildOrientationScript(orientation: DeviceOrientation, notify: boolean): string {
+  const state = JSON.stringify({
+    angle: getOrientationAngle(orientation),
+    type: getOrientationType(orientation)
+  })
+
+  return `(function () {
+  var state = ${state};
+  var changed = !window.__ibeOrientation || window.__ibeOrientation.type !== state.type;
+  window.__ibeOrientation = state;
+
+  try {
+    Object.defineProperty(window, 'orientation', {
+      get: function () { return window.__ibeOrientation.angle; },
+      configurable: true
+    });
+  } catch (e) {}
+
+  var screenOrientation = screen.orientation;
+  if (screenOrientation) {
+    ['angle', 'type'].forEach(function (name) {
+      try {
+        Object.defineProperty(screenOrientation, name, {
+          get: function () { return window.__ibeOrientation[name]; },
+          configurable: true
+        });
+      } catch (e) {}
+    });
+  }
+
+  if (${notify} && changed) {
+    window.dispatchEvent(new Event('orientationchange'));
+    if (screenOrientation) {
+      screenOrientation.dispatchEvent(new Event('change'));
+    }
+  }
+})();`
+}
+
+/**
+ * Apply an orientation to a same-origin iframe
+ *
+ * @param notify - Fire change events (false when setting up a freshly loaded page)
+ * @returns True if applied, false if the frame is cross-origin or not loaded
+ */
+export function applyFrameOrientation(
+  iframe: HTMLIFrameElement,
+  orientation: DeviceOrientation,
+  notify: boolean
+): boolean {
+  return injectFrameScript(iframe, buildOrientationScript(orientation, notify))
+}
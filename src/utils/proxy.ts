@@ -0,0 +1,114 @@
+/**
+ * Proxy URL Utilities
+ *
+ * Converts between target URLs and rewriting-proxy URLs. Shared by the
+ * client and the proxy server, so this module only uses relative imports
+ * (the server is bundled without the `@` alias).
+ */
+
+import { PROXY } from '../config/constants'
+import { DEFAULT_NETWORK_PROFILE, isNetworkProfileId, type OnlineNetworkProfileId } from '../config/browser'
+
+/**
+ * How a page is proxied: the emulated Safari build and the network
+ * conditions, carried in every proxy URL so each viewport keeps its own
+ */
+export interface ProxyRoute {
+  /** User agent profile the page is requested with */
+  profile: string
+  /** Network profile the page is throttled to */
+  network: OnlineNetworkProfileId
+}
+
+/**
+ * A target URL decoded from a proxy path
+ */
+export interface ProxyTarget extends ProxyRoute {
+  /** Original URL on the target site */
+  url: URL
+}
+
+/**
+ * Route used when no user agent or network profile is selected
+ */
+export const DEFAULT_PROXY_ROUTE: ProxyRoute = {
+  profile: PROXY.DEFAULT_PROFILE,
+  network: DEFAULT_NETWORK_PROFILE
+}
+
+const PROXY_SCHEMES = ['http', 'https']
+
+/**
+ * Check whether a URL can be routed through the proxy
+ */
+export function isProxiableUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Path prefix under which every URL of an origin is proxied for a user
+ * agent profile, whatever the network profile (which follows it, so
+ * cookies scoped to the prefix survive a change of network)
+ *
+ * @example getProxyOriginPath(new URL('https://example.com/a'), 'default')
+ * // => '/__proxy/default/https/example.com'
+ */
+export function getProxyOriginPath(url: URL, profile: string): string {
+  const scheme = url.protocol.replace(/:$/, '')
+  return `${PROXY.PATH}/${encodeURIComponent(profile)}/${scheme}/${url.host}`
+}
+
+/**
+ * Convert a target URL to its path on the proxy
+ *
+ * @example toProxyUrl('https://example.com/a?b=1', { profile: 'ios-17', network: '3g' })
+ * // => '/__proxy/ios-17/https/example.com/3g/a?b=1'
+ */
+export function toProxyUrl(url: string, route: ProxyRoute = DEFAULT_PROXY_ROUTE): string {
+  const parsed = new URL(url)
+  const origin = getProxyOriginPath(parsed, route.profile)
+  return `${origin}/${route.network}${parsed.pathname}${parsed.search}${parsed.hash}`
+}
+
+/**
+ * Decode a proxy path back into its target URL
+ *
+ * @returns The target, or null if the path is not a valid proxy URL
+ */
+export function parseProxyUrl(path: string): ProxyTarget | null {
+  if (!path.startsWith(`${PROXY.PATH}/`)) return null
+
+  const [profile, scheme, host, network, ...rest] = path.slice(PROXY.PATH.length + 1).split('/')
+  if (!profile || !network || !scheme || !host) return null
+  if (!isNetworkProfileId(network) || network === 'offline' || !PROXY_SCHEMES.includes(scheme)) return null
+
+  try {
+    return {
+      profile: decodeURIComponent(profile),
+      network,
+      url: new URL(`${scheme}://${host}/${rest.join('/')}`)
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Convert a proxy URL (absolute or path-only) back to the target URL.
+ * Non-proxy URLs are returned unchanged.
+ */
+export function fromProxyUrl(url: string): string {
+  let path: string
+  try {
+    const parsed = new URL(url, 'http://localhost')
+    path = `${parsed.pathname}${parsed.search}${parsed.hash}`
+  } catch {
+    return url
+  }
+
+  return parseProxyUrl(path)?.url.href ?? url
+}
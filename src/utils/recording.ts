@@ -0,0 +1,375 @@
+/**
+ * Screen Recording Utilities
+ *
+ * Records the emulated device by capturing this browser tab and cropping
+ * each frame to the device element. Capturing rendered pixels (rather than
+ * re-rendering the DOM as screenshots do) keeps up with animation and
+ * includes cross-origin pages. Frames are drawn to a canvas, where touch
+ * indicators are added, then encoded to WebM or an animated GIF.
+ */
+
+import type { RecordingFormat } from '@/types/browser'
+import { RECORDING } from '@/config/constants'
+import { GifEncoder } from './gif'
+import { findVisibleFrame, getFrameDocument } from './screenshot'
+
+/**
+ * Options for a recording session
+ */
+export interface RecordingSessionOptions {
+  format: RecordingFormat
+  /** Frames per second (GIF recordings are capped at RECORDING.GIF_MAX_FPS) */
+  fps: number
+  /** Draw a circle where the pointer touches the screen */
+  showTouches: boolean
+  /** Called when sharing is stopped from the browser's own controls */
+  onEnded?: () => void
+}
+
+/**
+ * A running recording
+ */
+export interface RecordingSession {
+  /** Stop recording and return the encoded file */
+  stop(): Promise<Blob>
+}
+
+/**
+ * A pressed (or recently released) pointer, in host viewport coordinates
+ */
+interface TrackedTouch {
+  x: number
+  y: number
+  releasedAt: number | null
+}
+
+/** Display capture options not yet in TypeScript's DOM typings */
+type TabCaptureOptions = DisplayMediaStreamOptions & {
+  preferCurrentTab?: boolean
+  selfBrowserSurface?: 'include' | 'exclude'
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+/**
+ * Whether the browser can capture the tab
+ */
+export function isScreenRecordingSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getDisplayMedia === 'function'
+}
+
+/**
+ * Best supported WebM MIME type, or null if WebM cannot be recorded
+ */
+export function getWebmMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+/**
+ * Ask to capture this tab
+ */
+async function captureTab(fps: number): Promise<MediaStream> {
+  const options: TabCaptureOptions = {
+    video: { frameRate: fps },
+    audio: false,
+    preferCurrentTab: true,
+    selfBrowserSurface: 'include'
+  }
+  const stream = await navigator.mediaDevices.getDisplayMedia(options)
+
+  // Cropping assumes the capture is this tab's viewport
+  const surface = stream.getVideoTracks()[0]?.getSettings().displaySurface
+  if (surface && surface !== 'browser') {
+    stream.getTracks().forEach((track) => track.stop())
+    throw new Error('Choose this tab to record the device')
+  }
+  return stream
+}
+
+/**
+ * Play a stream in a detached video element so frames can be drawn from it
+ */
+async function playStream(stream: MediaStream): Promise<HTMLVideoElement> {
+  const video = document.createElement('video')
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = stream
+  await video.play()
+  return video
+}
+
+/**
+ * Track pressed pointers in the host page and in the device's same-origin
+ * page. Cross-origin pages swallow their own pointer events, so touches
+ * inside them are not shown.
+ */
+function trackTouches(getTarget: () => HTMLElement | null) {
+  const touches = new Map<string, TrackedTouch>()
+  const hostListeners = new AbortController()
+  let frameListeners: AbortController | null = null
+  let frameWindow: Window | null = null
+
+  const listen = (
+    view: Window,
+    signal: AbortSignal,
+    prefix: string,
+    toHost: (event: PointerEvent) => { x: number; y: number }
+  ) => {
+    const options = { capture: true, passive: true, signal }
+
+    view.addEventListener('pointerdown', (event) => {
+      touches.set(`${prefix}${event.pointerId}`, { ...toHost(event), releasedAt: null })
+    }, options)
+
+    view.addEventListener('pointermove', (event) => {
+      const touch = touches.get(`${prefix}${event.pointerId}`)
+      if (touch && touch.releasedAt === null) {
+        Object.assign(touch, toHost(event))
+      }
+    }, options)
+
+    const release = (event: PointerEvent) => {
+      const touch = touches.get(`${prefix}${event.pointerId}`)
+      if (touch) {
+        touch.releasedAt = performance.now()
+      }
+    }
+    view.addEventListener('pointerup', release, options)
+    view.addEventListener('pointercancel', release, options)
+  }
+
+  listen(window, hostListeners.signal, 'host-', (event) => ({ x: event.clientX, y: event.clientY }))
+
+  return {
+    touches,
+
+    /**
+     * Follow the visible page as tabs switch and pages navigate
+     */
+    update(now: number): void {
+      const target = getTarget()
+      const iframe = target ? findVisibleFrame(target) : null
+      const view = iframe ? getFrameDocument(iframe)?.defaultView ?? null : null
+
+      if (view !== frameWindow) {
+        frameListeners?.abort()
+        frameListeners = null
+        frameWindow = view
+
+        if (view && iframe) {
+          frameListeners = new AbortController()
+          listen(view, frameListeners.signal, 'frame-', (event) => {
+            // The page may be CSS-scaled along with the device
+            const rect = iframe.getBoundingClientRect()
+            const scale = iframe.clientWidth > 0 ? rect.width / iframe.clientWidth : 1
+            return { x: rect.left + event.clientX * scale, y: rect.top + event.clientY * scale }
+          })
+        }
+      }
+
+      for (const [id, touch] of touches) {
+        if (touch.releasedAt !== null && now - touch.releasedAt > RECORDING.TOUCH_FADE_DURATION) {
+          touches.delete(id)
+        }
+      }
+    },
+
+    dispose(): void {
+      hostListeners.abort()
+      frameListeners?.abort()
+      touches.clear()
+    }
+  }
+}
+
+/**
+ * Draw touch indicators
+ *
+ * @param toCanvas - Maps host viewport coordinates to canvas coordinates
+ * @param scale - Canvas pixels per CSS pixel
+ */
+function drawTouches(
+  context: CanvasRenderingContext2D,
+  touches: Iterable<TrackedTouch>,
+  toCanvas: (x: number, y: number) => { x: number; y: number },
+  scale: number,
+  now: number
+): void {
+  const radius = RECORDING.TOUCH_RADIUS * scale
+
+  for (const touch of touches) {
+    const fade = touch.releasedAt === null
+      ? 1
+      : Math.max(0, 1 - (now - touch.releasedAt) / RECORDING.TOUCH_FADE_DURATION)
+    if (fade === 0) continue
+
+    const { x, y } = toCanvas(touch.x, touch.y)
+    context.beginPath()
+    context.arc(x, y, radius, 0, Math.PI * 2)
+    context.fillStyle = `rgba(255, 255, 255, ${0.45 * fade})`
+    context.fill()
+    context.lineWidth = Math.max(1, 2 * scale)
+    context.strokeStyle = `rgba(0, 0, 0, ${0.35 * fade})`
+    context.stroke()
+  }
+}
+
+/**
+ * Start recording an element
+ *
+ * The browser asks which surface to share; this tab must be chosen. The
+ * output size is fixed when recording starts, and later changes to the
+ * element's size (such as rotation) are letterboxed into it.
+ *
+ * @param getTarget - Returns the element to record, looked up every frame
+ */
+export async function startRecording(
+  getTarget: () => HTMLElement | null,
+  options: RecordingSessionOptions
+): Promise<RecordingSession> {
+  const initial = getTarget()
+  if (!initial) {
+    throw new Error('Nothing to record')
+  }
+
+  const isGif = options.format === 'gif'
+  const mimeType = isGif ? null : getWebmMimeType()
+  if (!isGif && !mimeType) {
+    throw new Error('WebM recording is not supported in this browser')
+  }
+
+  const fps = isGif ? Math.min(options.fps, RECORDING.GIF_MAX_FPS) : options.fps
+  const stream = await captureTab(fps)
+  const [track] = stream.getVideoTracks()
+
+  let video: HTMLVideoElement
+  try {
+    video = await playStream(stream)
+  } catch (error) {
+    stream.getTracks().forEach((t) => t.stop())
+    throw error
+  }
+
+  // Captured pixels per host CSS pixel
+  const captureScale = () => (window.innerWidth > 0 ? video.videoWidth / window.innerWidth : 1)
+
+  // Fix the output size from the element's current on-screen size
+  const startRect = initial.getBoundingClientRect()
+  let outputScale = captureScale()
+  if (isGif) {
+    outputScale = Math.min(outputScale, RECORDING.GIF_MAX_WIDTH / startRect.width)
+  }
+  const canvas = document.createElement('canvas')
+  // Video encoders prefer even dimensions
+  canvas.width = Math.max(2, Math.round((startRect.width * outputScale) / 2) * 2)
+  canvas.height = Math.max(2, Math.round((startRect.height * outputScale) / 2) * 2)
+  const context = canvas.getContext('2d', { willReadFrequently: isGif })
+  if (!context) {
+    stream.getTracks().forEach((t) => t.stop())
+    throw new Error('Canvas is not available')
+  }
+
+  const tracker = options.showTouches ? trackTouches(getTarget) : null
+
+  // GIF frames are held back one step so each delay is the real time shown
+  const encoder = isGif ? new GifEncoder(canvas.width, canvas.height) : null
+  let pending: { pixels: Uint8ClampedArray; time: number } | null = null
+
+  const drawFrame = () => {
+    const target = getTarget()
+    if (!target || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return
+
+    const now = performance.now()
+    const rect = target.getBoundingClientRect()
+    const source = captureScale()
+
+    // Fit the element into the output, centred
+    const fit = Math.min(canvas.width / rect.width, canvas.height / rect.height)
+    const width = rect.width * fit
+    const height = rect.height * fit
+    const left = (canvas.width - width) / 2
+    const top = (canvas.height - height) / 2
+
+    context.fillStyle = '#000000'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(
+      video,
+      rect.left * source, rect.top * source, rect.width * source, rect.height * source,
+      left, top, width, height
+    )
+
+    if (tracker) {
+      tracker.update(now)
+      drawTouches(context, tracker.touches.values(), (x, y) => ({
+        x: left + (x - rect.left) * fit,
+        y: top + (y - rect.top) * fit
+      }), fit, now)
+    }
+
+    if (encoder) {
+      if (pending) {
+        encoder.addFrame(pending.pixels, (now - pending.time) / 10)
+      }
+      pending = { pixels: context.getImageData(0, 0, canvas.width, canvas.height).data, time: now }
+    }
+  }
+
+  // WebM is encoded from the canvas as it is drawn
+  const chunks: Blob[] = []
+  let recorder: MediaRecorder | null = null
+  if (mimeType) {
+    recorder = new MediaRecorder(canvas.captureStream(fps), {
+      mimeType,
+      videoBitsPerSecond: RECORDING.VIDEO_BITRATE
+    })
+    recorder.addEventListener('dataavailable', (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    })
+  }
+
+  drawFrame()
+  recorder?.start(1000)
+  const timer = window.setInterval(drawFrame, 1000 / fps)
+
+  let stopped: Promise<Blob> | null = null
+
+  const stop = (): Promise<Blob> => {
+    if (stopped) return stopped
+
+    window.clearInterval(timer)
+    tracker?.dispose()
+    track?.removeEventListener('ended', handleEnded)
+    stream.getTracks().forEach((t) => t.stop())
+    video.srcObject = null
+
+    if (encoder) {
+      if (pending) {
+        encoder.addFrame(pending.pixels, 100 / fps)
+        pending = null
+      }
+      stopped = Promise.resolve(encoder.finish())
+      return stopped
+    }
+
+    const activeRecorder = recorder
+    stopped = new Promise<Blob>((resolve) => {
+      if (!activeRecorder || activeRecorder.state === 'inactive') {
+        resolve(new Blob(chunks, { type: 'video/webm' }))
+        return
+      }
+      activeRecorder.addEventListener('stop', () => {
+        resolve(new Blob(chunks, { type: 'video/webm' }))
+      }, { once: true })
+      activeRecorder.stop()
+    })
+    return stopped
+  }
+
+  function handleEnded() {
+    options.onEnded?.()
+  }
+  track?.addEventListener('ended', handleEnded)
+
+  return { stop }
+}
@@ -0,0 +1,76 @@
+/**
+ * Safe Area Emulation Utilities
+ *
+ * Gives pages in same-origin (or proxied) viewport iframes the device's
+ * safe area insets. Desktop browsers resolve `env(safe-area-inset-*)` to
+ * zero and cannot be told otherwise, so the injected script rewrites each
+ * use in the page's CSS to a custom property
+ * (`var(--ibe-safe-area-inset-top, fallback)`), then sets those
+ * properties. New insets (after a rotation) only change the properties.
+ */
+
+import type { SafeAreaInsets } from '@/types/device'
+import { injectFrameScript } from './frameScript'
+import { buildStyleRewriterScript } from './frameStyles'
+
+/**
+ * How a page asks to be laid out around the screen's cutouts
+ * (`<meta name="viewport" content="viewport-fit=cover">`)
+ */
+export type ViewportFit = 'auto' | 'contain' | 'cover'
+
+/**
+ * Insets a page sees when it is kept inside the safe area
+ */
+export const ZERO_SAFE_AREA_INSETS: SafeAreaInsets = { top: 0, bottom: 0, left: 0, right: 0 }
+
+/**
+ * The `viewport-fit` in a page's viewport meta tag
+ *
+ * @returns The value, or 'auto' if the page does not set one
+ */
+export function getViewportFit(doc: Document): ViewportFit {
+  const content = doc.querySelector<HTMLMetaElement>('meta[name="viewport"]')?.content ?? ''
+
+  for (const entry of content.split(/[,;]/)) {
+    const [key, value] = entry.split('=').map((part) => part.trim().toLowerCase())
+    if (key === 'viewport-fit' && (value === 'contain' || value === 'cover')) {
+      return value
+    }
+  }
+  return 'auto'
+}
+
+/**
+ * Build the script that installs the safe area shim (once per page) and
+ * sets the insets. A page is left alone until it has non-zero insets.
+ */
+export function buildSafeAreaScript(insets: SafeAreaInsets): string {
+  return `(function () {
+  var INSETS = ${JSON.stringify(insets)};
+  if (!window.__ibeSafeArea) {
+    if (!INSETS.top && !INSETS.right && !INSETS.bottom && !INSETS.left) return;
+    ${buildStyleRewriterScript()}
+    window.__ibeStyleRewriter.addRule(
+      /env\\(\\s*safe-area-inset-(top|right|bottom|left)/g,
+      'var(--ibe-safe-area-inset-$1'
+    );
+    window.__ibeSafeArea = true;
+  }
+
+  var properties = {};
+  ['top', 'right', 'bottom', 'left'].forEach(function (side) {
+    properties['--ibe-safe-area-inset-' + side] = INSETS[side] + 'px';
+  });
+  window.__ibeStyleRewriter.setProperties('ibe-safe-area', properties);
+})();`
+}
+
+/**
+ * Apply safe area insets to a same-origin iframe
+ *
+ * @returns True if applied, false if the frame is cross-origin or not loaded
+ */
+export function applySafeAreaInsets(iframe: HTMLIFrameElement, insets: SafeAreaInsets): boolean {
+  return injectFrameScript(iframe, buildSafeAreaScript(insets))
+}
@@ -0,0 +1,218 @@
+/**
+ * Screenshot Utilities
+ *
+ * Renders the emulated device to a canvas. The device frame is rendered
+ * from the DOM with html-to-image; the page is rendered separately from
+ * the iframe's own document so the capture matches its scroll position.
+ * Cross-origin pages cannot be read, so only same-origin or proxied
+ * pages appear in captures.
+ */
+
+import { toCanvas } from 'html-to-image'
+import { SCREENSHOT } from '@/config/constants'
+
+/**
+ * Result of capturing the device
+ */
+export interface DeviceCapture {
+  canvas: HTMLCanvasElement
+  /** False when the page was cross-origin and left blank */
+  pageCaptured: boolean
+}
+
+/**
+ * Get an iframe's document if the page is same-origin
+ */
+export function getFrameDocument(iframe: HTMLIFrameElement): Document | null {
+  try {
+    return iframe.contentDocument?.documentElement ? iframe.contentDocument : null
+  } catch {
+    // Cross-origin access throws in some browsers
+    return null
+  }
+}
+
+/**
+ * Find the visible viewport iframe inside an element (background tabs are hidden)
+ */
+export function findVisibleFrame(root: HTMLElement): HTMLIFrameElement | null {
+  const frames = Array.from(root.querySelectorAll('iframe'))
+  return frames.find((frame) => frame.offsetParent !== null) ?? null
+}
+
+/**
+ * Background colour the page paints behind its content
+ */
+function getPageBackground(doc: Document): string {
+  const view = doc.defaultView
+  if (!view) return '#ffffff'
+
+  for (const element of [doc.documentElement, doc.body]) {
+    if (!element) continue
+    const colour = view.getComputedStyle(element).backgroundColor
+    if (colour && colour !== 'transparent' && colour !== 'rgba(0, 0, 0, 0)') {
+      return colour
+    }
+  }
+  return '#ffffff'
+}
+
+/**
+ * Wait for the frame's window to paint after scrolling
+ */
+function waitForPaint(view: Window): Promise<void> {
+  return new Promise((resolve) => {
+    view.setTimeout(() => {
+      view.requestAnimationFrame(() => view.requestAnimationFrame(() => resolve()))
+    }, SCREENSHOT.SCROLL_SETTLE_DELAY)
+  })
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width)
+  canvas.height = Math.round(height)
+  return canvas
+}
+
+/**
+ * Render one viewport-sized region of a page, offset by a scroll position
+ */
+function capturePageRegion(
+  doc: Document,
+  scrollX: number,
+  scrollY: number,
+  width: number,
+  height: number,
+  pixelRatio: number
+): Promise<HTMLCanvasElement> {
+  return toCanvas(doc.documentElement, {
+    width,
+    height,
+    pixelRatio,
+    skipAutoScale: true,
+    backgroundColor: getPageBackground(doc),
+    style: {
+      transform: `translate(${-scrollX}px, ${-scrollY}px)`,
+      transformOrigin: '0 0'
+    }
+  })
+}
+
+/**
+ * Render the visible part of a same-origin page
+ *
+ * @returns The page canvas, or null if the page is cross-origin
+ */
+export async function captureFrameViewport(
+  iframe: HTMLIFrameElement,
+  pixelRatio: number
+): Promise<HTMLCanvasElement | null> {
+  const doc = getFrameDocument(iframe)
+  const view = doc?.defaultView
+  if (!doc || !view) return null
+
+  return capturePageRegion(doc, view.scrollX, view.scrollY, iframe.clientWidth, iframe.clientHeight, pixelRatio)
+}
+
+/**
+ * Render a whole same-origin page by scrolling through it a viewport at a
+ * time and stitching the regions together. Scrolling (rather than rendering
+ * the document in one pass) lets lazy-loaded content appear, and keeps each
+ * rendered region small. The original scroll position is restored.
+ *
+ * @returns The page canvas, or null if the page is cross-origin
+ */
+export async function captureFullPage(
+  iframe: HTMLIFrameElement,
+  pixelRatio: number
+): Promise<HTMLCanvasElement | null> {
+  const doc = getFrameDocument(iframe)
+  const view = doc?.defaultView
+  if (!doc || !view) return null
+
+  const width = iframe.clientWidth
+  const viewportHeight = iframe.clientHeight
+  const pageHeight = Math.min(doc.documentElement.scrollHeight, SCREENSHOT.MAX_PAGE_HEIGHT)
+  const originalX = view.scrollX
+  const originalY = view.scrollY
+
+  const canvas = createCanvas(width * pixelRatio, pageHeight * pixelRatio)
+  const context = canvas.getContext('2d')
+  if (!context) return null
+
+  try {
+    for (let offset = 0; offset < pageHeight; offset += viewportHeight) {
+      view.scrollTo(0, offset)
+      await waitForPaint(view)
+
+      // The last step may stop short of the requested offset at the page end
+      const scrollY = view.scrollY
+      const region = await capturePageRegion(doc, 0, scrollY, width, viewportHeight, pixelRatio)
+      context.drawImage(region, 0, scrollY * pixelRatio)
+    }
+  } finally {
+    view.scrollTo(originalX, originalY)
+  }
+
+  return canvas
+}
+
+/**
+ * Render a device element (the whole frame, or just the screen) with the
+ * current page composited into the viewport
+ *
+ * @param root - Element to capture; it may be CSS-scaled on screen
+ * @param iframe - The visible viewport iframe, if any
+ */
+export async function captureDevice(
+  root: HTMLElement,
+  iframe: HTMLIFrameElement | null,
+  options: { pixelRatio: number; backgroundColor?: string }
+): Promise<DeviceCapture> {
+  const { pixelRatio, backgroundColor } = options
+
+  const canvas = await toCanvas(root, {
+    pixelRatio,
+    skipAutoScale: true,
+    ...(backgroundColor ? { backgroundColor } : {}),
+    // Render at layout size, ignoring the on-screen fit-to-window scale
+    style: { transform: 'none', margin: '0' },
+    // The iframe is drawn separately so its scroll position is kept
+    filter: (node) => node !== iframe
+  })
+
+  if (!iframe) {
+    return { canvas, pageCaptured: true }
+  }
+
+  const page = await captureFrameViewport(iframe, pixelRatio)
+  if (!page) {
+    return { canvas, pageCaptured: false }
+  }
+
+  // Convert the iframe's on-screen offset back to layout pixels
+  const rootRect = root.getBoundingClientRect()
+  const frameRect = iframe.getBoundingClientRect()
+  const scale = root.offsetWidth > 0 ? rootRect.width / root.offsetWidth : 1
+  const x = ((frameRect.left - rootRect.left) / scale) * pixelRatio
+  const y = ((frameRect.top - rootRect.top) / scale) * pixelRatio
+
+  canvas.getContext('2d')?.drawImage(page, x, y)
+  return { canvas, pageCaptured: true }
+}
+
+/**
+ * Encode a canvas as a PNG blob
+ */
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error('The capture is too large to encode'))
+      }
+    }, 'image/png')
+  })
+}
@@ -0,0 +1,73 @@
+/**
+ * Status Bar Utilities
+ *
+ * Reads a page's `theme-color` and picks status bar content that stays
+ * legible on it, as Safari does when it tints the status bar.
+ */
+
+/**
+ * The page's theme colour: the first `theme-color` meta tag whose media
+ * query matches (or that has none)
+ *
+ * @returns The colour as written in the page, or null if it has none
+ */
+export function getThemeColour(doc: Document): string | null {
+  const view = doc.defaultView
+  const tags = Array.from(doc.querySelectorAll<HTMLMetaElement>('meta[name="theme-color"]'))
+
+  const match = tags.find((tag) => {
+    const media = tag.getAttribute('media')
+    return !media || !view || view.matchMedia(media).matches
+  })
+
+  return match?.content.trim() || null
+}
+
+/**
+ * Convert any CSS colour to RGB channels (0 to 255)
+ *
+ * @returns The channels, or null if the colour is invalid or see-through
+ */
+export function parseCssColour(colour: string): [number, number, number] | null {
+  const context = document.createElement('canvas').getContext('2d')
+  if (!context) return null
+
+  // Invalid colours leave the fill style unchanged, so try from two starts
+  context.fillStyle = '#000000'
+  context.fillStyle = colour
+  const fromBlack = context.fillStyle
+  context.fillStyle = '#ffffff'
+  context.fillStyle = colour
+  if (context.fillStyle !== fromBlack) return null
+
+  // Opaque colours come back as #rrggbb, others as rgba()
+  const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(fromBlack)
+  if (!hex) return null
+
+  return [parseInt(hex[1] ?? '0', 16), parseInt(hex[2] ?? '0', 16), parseInt(hex[3] ?? '0', 16)]
+}
+
+/**
+ * Relative luminance of an RGB colour (WCAG 2)
+ */
+function getLuminance([red, green, blue]: [number, number, number]): number {
+  const linear = (channel: number) => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  }
+  return 0.2126 * linear(red) + 0.7152 * linear(green) + 0.0722 * linear(blue)
+}
+
+/**
+ * Status bar content with the better contrast on a background: white
+ * ('light') on dark colours, black ('dark') on light ones
+ *
+ * @returns The content style, or null if the colour cannot be read
+ */
+export function getContentStyleFor(background: string): 'light' | 'dark' | null {
+  const rgb = parseCssColour(background)
+  if (!rgb) return null
+
+  // Contrast with white equals contrast with black at this luminance
+  return getLuminance(rgb) > 0.179 ? 'dark' : 'light'
+}
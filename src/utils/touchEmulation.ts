@@ -0,0 +1,502 @@
+/**
+ * Touch Emulation Utilities
+ *
+ * A script injected into same-origin viewport iframes that turns mouse
+ * input into the events a touchscreen produces: Touch events, Pointer
+ * events with `pointerType: 'touch'`, Safari's gesture events, compatibility
+ * mouse events after a tap, and scrolling by dragging with momentum.
+ *
+ * - Drag: one finger. Scrolls unless the page cancels the touch or its
+ *   `touch-action` rules the direction out.
+ * - Option/Alt + drag: pinch, with the second finger mirrored about the
+ *   centre of the screen.
+ * - Option/Alt + Shift + drag: two-finger scroll, fingers side by side.
+ * - Hold still: long press (no click follows).
+ *
+ * The script reports touch positions to the emulator so it can draw the
+ * touch indicator. Cross-origin pages keep receiving plain mouse input.
+ */
+
+import type { TouchEmulationMessage } from '@/types/browser'
+import { TOUCH_EMULATION } from '@/config/constants'
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Source tag on messages sent from the iframe to the emulator
+ */
+export const TOUCH_EMULATION_SOURCE = 'ibe-touch-emulation'
+
+/**
+ * Build the script that installs touch emulation (once per page) and
+ * switches it on or off
+ */
+export function buildTouchEmulationScript(enabled: boolean): string {
+  return `(function () {
+  var ENABLED = ${enabled};
+  if (window.__ibeTouchEmulation) {
+    window.__ibeTouchEmulation.setEnabled(ENABLED);
+    return;
+  }
+
+  var SOURCE = ${JSON.stringify(TOUCH_EMULATION_SOURCE)};
+  var TAP_SLOP = ${TOUCH_EMULATION.TAP_SLOP};
+  var LONG_PRESS_DELAY = ${TOUCH_EMULATION.LONG_PRESS_DELAY};
+  var RADIUS = ${TOUCH_EMULATION.TOUCH_RADIUS};
+  var SPACING = ${TOUCH_EMULATION.TWO_FINGER_SPACING};
+  var DECAY = ${TOUCH_EMULATION.MOMENTUM_DECAY};
+
+  var enabled = false;
+  var addedTouchHandler = false;
+  var gesture = null;
+  var suppressClick = false;
+  var momentumFrame = 0;
+  var nextPointerId = 2;
+
+  function report(g) {
+    window.parent.postMessage({
+      source: SOURCE,
+      type: 'touches',
+      touches: g ? g.points.map(function (point) { return { x: point.x, y: point.y }; }) : [],
+      longPress: !!(g && g.longPress)
+    }, '*');
+  }
+
+  function block(event) {
+    event.stopImmediatePropagation();
+    if (event.cancelable) event.preventDefault();
+  }
+
+  function isMouse(event) {
+    return event.isTrusted && event.pointerType === 'mouse';
+  }
+
+  // Finger positions for a mouse position
+  function positionsFor(mode, x, y) {
+    if (mode === 'pinch') {
+      return [[x, y], [window.innerWidth - x, window.innerHeight - y]];
+    }
+    if (mode === 'pan') {
+      return [[x, y], [x + SPACING, y]];
+    }
+    return [[x, y]];
+  }
+
+  function makeTouch(point) {
+    var init = {
+      identifier: point.id,
+      target: point.target,
+      clientX: point.x,
+      clientY: point.y,
+      pageX: point.x + window.scrollX,
+      pageY: point.y + window.scrollY,
+      screenX: point.x,
+      screenY: point.y,
+      radiusX: RADIUS,
+      radiusY: RADIUS,
+      rotationAngle: 0,
+      force: 1
+    };
+    try {
+      return new Touch(init);
+    } catch (e) {
+      return init;
+    }
+  }
+
+  function fireTouch(g, type, cancelable) {
+    var ended = type === 'touchend' || type === 'touchcancel';
+    var target = g.points[0].target;
+    var touches = ended ? [] : g.points.map(makeTouch);
+    var init = {
+      bubbles: true,
+      cancelable: cancelable,
+      composed: true,
+      view: window,
+      touches: touches,
+      targetTouches: touches.filter(function (touch) { return touch.target === target; }),
+      changedTouches: g.points.map(makeTouch),
+      altKey: g.altKey,
+      shiftKey: g.shiftKey
+    };
+
+    var event;
+    try {
+      event = new TouchEvent(type, init);
+    } catch (e) {
+      // No TouchEvent constructor (or no Touch): plain event with the same shape
+      event = new Event(type, { bubbles: true, cancelable: cancelable, composed: true });
+      ['touches', 'targetTouches', 'changedTouches'].forEach(function (name) {
+        Object.defineProperty(event, name, { value: init[name] });
+      });
+    }
+    return target.dispatchEvent(event);
+  }
+
+  function firePointer(type, point) {
+    var bubbles = type !== 'pointerenter' && type !== 'pointerleave';
+    var pressed = type === 'pointerover' || type === 'pointerenter' ||
+      type === 'pointerdown' || type === 'pointermove';
+    return point.target.dispatchEvent(new PointerEvent(type, {
+      bubbles: bubbles,
+      cancelable: bubbles && type !== 'pointercancel',
+      composed: true,
+      view: window,
+      pointerId: point.id,
+      pointerType: 'touch',
+      isPrimary: point.primary,
+      clientX: point.x,
+      clientY: point.y,
+      screenX: point.x,
+      screenY: point.y,
+      width: RADIUS * 2,
+      height: RADIUS * 2,
+      pressure: pressed ? 0.5 : 0,
+      button: type === 'pointerdown' || type === 'pointerup' ? 0 : -1,
+      buttons: pressed ? 1 : 0
+    }));
+  }
+
+  function fireMouse(type, point) {
+    point.target.dispatchEvent(new MouseEvent(type, {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      view: window,
+      detail: 1,
+      clientX: point.x,
+      clientY: point.y,
+      screenX: point.x,
+      screenY: point.y,
+      button: 0,
+      buttons: type === 'mousedown' ? 1 : 0
+    }));
+  }
+
+  // Safari's non-standard pinch events
+  function fireGesture(g, type) {
+    var event = new Event(type, { bubbles: true, cancelable: type !== 'gestureend', composed: true });
+    event.scale = g.scale;
+    event.rotation = g.rotation;
+    g.points[0].target.dispatchEvent(event);
+  }
+
+  function measurePinch(g) {
+    var a = g.points[0];
+    var b = g.points[1];
+    return {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      angle: Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI
+    };
+  }
+
+  // Axes the page lets the browser scroll, from touch-action up the tree
+  function findPan(target, dx, dy) {
+    var allowX = true;
+    var allowY = true;
+    for (var el = target; el && el.nodeType === 1; el = el.parentElement) {
+      var action = getComputedStyle(el).touchAction;
+      if (action === 'none') return null;
+      if (action !== 'auto' && action !== 'manipulation') {
+        allowX = allowX && /pan-(x|left|right)/.test(action);
+        allowY = allowY && /pan-(y|up|down)/.test(action);
+      }
+    }
+    if (Math.abs(dx) > Math.abs(dy) ? !allowX : !allowY) return null;
+
+    var root = document.scrollingElement || document.documentElement;
+    for (var node = target; node && node !== root && node.nodeType === 1; node = node.parentElement) {
+      var style = getComputedStyle(node);
+      var scrollsX = allowX && /auto|scroll/.test(style.overflowX) && node.scrollWidth > node.clientWidth;
+      var scrollsY = allowY && /auto|scroll/.test(style.overflowY) && node.scrollHeight > node.clientHeight;
+      if (scrollsX || scrollsY) {
+        return { x: allowX, y: allowY, scroller: node };
+      }
+    }
+    return { x: allowX, y: allowY, scroller: root };
+  }
+
+  function scrollPan(pan, dx, dy) {
+    pan.scroller.scrollBy({ left: pan.x ? dx : 0, top: pan.y ? dy : 0, behavior: 'instant' });
+  }
+
+  function stopMomentum() {
+    if (momentumFrame) cancelAnimationFrame(momentumFrame);
+    momentumFrame = 0;
+  }
+
+  function startMomentum(pan, vx, vy) {
+    var last = performance.now();
+    function step(now) {
+      var dt = now - last;
+      last = now;
+      var decay = Math.pow(DECAY, dt / 16);
+      vx *= decay;
+      vy *= decay;
+      if (Math.abs(vx) < 0.02 && Math.abs(vy) < 0.02) {
+        momentumFrame = 0;
+        return;
+      }
+      scrollPan(pan, vx * dt, vy * dt);
+      momentumFrame = requestAnimationFrame(step);
+    }
+    momentumFrame = requestAnimationFrame(step);
+  }
+
+  // Tapping a field focuses it; tapping elsewhere dismisses the keyboard
+  function focusAfterTap(target) {
+    var field = target.closest && target.closest('input, textarea, select, [contenteditable]');
+    var active = document.activeElement;
+    if (field) {
+      field.focus();
+    } else if (active && active !== document.body && active.matches && active.matches('input, textarea, [contenteditable]')) {
+      active.blur();
+    }
+  }
+
+  function start(event) {
+    stopMomentum();
+    suppressClick = false;
+
+    var mode = event.altKey ? (event.shiftKey ? 'pan' : 'pinch') : 'single';
+    var now = performance.now();
+    var g = {
+      mode: mode,
+      altKey: event.altKey,
+      shiftKey: event.shiftKey,
+      startX: event.clientX,
+      startY: event.clientY,
+      lastX: event.clientX,
+      lastY: event.clientY,
+      lastTime: now,
+      vx: 0,
+      vy: 0,
+      moved: false,
+      longPress: false,
+      startPrevented: false,
+      pan: undefined,
+      pointersCancelled: false,
+      scale: 1,
+      rotation: 0,
+      timer: 0,
+      points: positionsFor(mode, event.clientX, event.clientY).map(function (position, index) {
+        return {
+          id: nextPointerId++,
+          primary: index === 0,
+          x: position[0],
+          y: position[1],
+          target: document.elementFromPoint(position[0], position[1]) || document.documentElement
+        };
+      })
+    };
+    gesture = g;
+
+    g.points.forEach(function (point) {
+      firePointer('pointerover', point);
+      firePointer('pointerenter', point);
+      firePointer('pointerdown', point);
+    });
+    g.startPrevented = !fireTouch(g, 'touchstart', true);
+
+    if (mode === 'pinch') {
+      g.start = measurePinch(g);
+      fireGesture(g, 'gesturestart');
+    }
+
+    g.timer = setTimeout(function () {
+      if (gesture === g && !g.moved) {
+        g.longPress = true;
+        report(g);
+      }
+    }, LONG_PRESS_DELAY);
+
+    report(g);
+  }
+
+  function move(event) {
+    var g = gesture;
+    var x = event.clientX;
+    var y = event.clientY;
+    var now = performance.now();
+    var dx = x - g.lastX;
+    var dy = y - g.lastY;
+
+    if (!g.moved && Math.hypot(x - g.startX, y - g.startY) > TAP_SLOP) {
+      g.moved = true;
+      clearTimeout(g.timer);
+    }
+
+    var positions = positionsFor(g.mode, x, y);
+    g.points.forEach(function (point, index) {
+      point.x = positions[index][0];
+      point.y = positions[index][1];
+    });
+
+    // Once the browser is scrolling, touchmove can no longer be cancelled
+    var movePrevented = !fireTouch(g, 'touchmove', !g.pan);
+
+    if (g.pan === undefined && g.moved && g.mode !== 'pinch') {
+      g.pan = g.startPrevented || movePrevented
+        ? null
+        : findPan(g.points[0].target, x - g.startX, y - g.startY);
+
+      // The browser takes over the touch, as on iOS
+      if (g.pan) {
+        g.points.forEach(function (point) {
+          firePointer('pointercancel', point);
+          firePointer('pointerout', point);
+          firePointer('pointerleave', point);
+        });
+        g.pointersCancelled = true;
+      }
+    }
+
+    if (!g.pointersCancelled) {
+      g.points.forEach(function (point) { firePointer('pointermove', point); });
+    }
+
+    if (g.pan) {
+      scrollPan(g.pan, -dx, -dy);
+      var dt = Math.max(1, now - g.lastTime);
+      g.vx = 0.8 * (-dx / dt) + 0.2 * g.vx;
+      g.vy = 0.8 * (-dy / dt) + 0.2 * g.vy;
+    }
+
+    if (g.mode === 'pinch') {
+      var current = measurePinch(g);
+      g.scale = current.distance / g.start.distance;
+      g.rotation = current.angle - g.start.angle;
+      fireGesture(g, 'gesturechange');
+    }
+
+    g.lastX = x;
+    g.lastY = y;
+    g.lastTime = now;
+    report(g);
+  }
+
+  function end(cancelled) {
+    var g = gesture;
+    gesture = null;
+    clearTimeout(g.timer);
+
+    if (!g.pointersCancelled) {
+      g.points.forEach(function (point) {
+        firePointer(cancelled ? 'pointercancel' : 'pointerup', point);
+        firePointer('pointerout', point);
+        firePointer('pointerleave', point);
+      });
+    }
+    var endPrevented = !fireTouch(g, cancelled ? 'touchcancel' : 'touchend', !cancelled);
+    if (g.mode === 'pinch') {
+      fireGesture(g, 'gestureend');
+    }
+
+    // Only an uncancelled, still, short single touch is a tap
+    var tap = !cancelled && g.mode === 'single' && !g.moved && !g.longPress;
+    suppressClick = !(tap && !g.startPrevented && !endPrevented);
+    if (!suppressClick) {
+      var point = g.points[0];
+      fireMouse('mouseover', point);
+      fireMouse('mousemove', point);
+      fireMouse('mousedown', point);
+      fireMouse('mouseup', point);
+      focusAfterTap(point.target);
+    }
+
+    if (g.pan && !cancelled && performance.now() - g.lastTime < 100) {
+      startMomentum(g.pan, g.vx, g.vy);
+    }
+
+    report(null);
+  }
+
+  window.addEventListener('pointerdown', function (event) {
+    if (!enabled || !isMouse(event)) return;
+    block(event);
+    if (event.button === 0 && !gesture) start(event);
+  }, true);
+
+  window.addEventListener('pointermove', function (event) {
+    if (!enabled || !isMouse(event)) return;
+    block(event);
+    if (gesture) move(event);
+  }, true);
+
+  window.addEventListener('pointerup', function (event) {
+    if (!enabled || !isMouse(event)) return;
+    block(event);
+    if (gesture && event.button === 0) end(false);
+  }, true);
+
+  window.addEventListener('pointercancel', function (event) {
+    if (!enabled || !isMouse(event)) return;
+    block(event);
+    if (gesture) end(true);
+  }, true);
+
+  // A touchscreen has no hover, and text is not selected by dragging
+  ['mousedown', 'mouseup', 'mousemove', 'mouseover', 'mouseout', 'mouseenter', 'mouseleave', 'dblclick', 'dragstart', 'selectstart'].forEach(function (type) {
+    window.addEventListener(type, function (event) {
+      if (enabled && event.isTrusted && (type !== 'selectstart' || gesture)) block(event);
+    }, true);
+  });
+
+  // The native click follows the mouse; drop it unless the touch was a tap.
+  // Keyboard clicks (detail 0) are never dropped.
+  window.addEventListener('click', function (event) {
+    if (enabled && event.isTrusted && suppressClick && event.detail > 0) {
+      block(event);
+      suppressClick = false;
+    }
+  }, true);
+
+  window.addEventListener('blur', function () {
+    if (gesture) end(true);
+  });
+
+  function setEnabled(value) {
+    enabled = value;
+    if (!value) {
+      if (gesture) end(true);
+      stopMomentum();
+    }
+
+    // Feature detection commonly checks for ontouchstart
+    try {
+      if (value && !('ontouchstart' in window)) {
+        window.ontouchstart = null;
+        addedTouchHandler = true;
+      } else if (!value && addedTouchHandler) {
+        delete window.ontouchstart;
+        addedTouchHandler = false;
+      }
+    } catch (e) {}
+  }
+
+  window.__ibeTouchEmulation = { setEnabled: setEnabled };
+  setEnabled(ENABLED);
+})();`
+}
+
+/**
+ * Switch touch emulation on or off in a same-origin iframe
+ *
+ * @returns True if applied, false if the frame is cross-origin or not loaded
+ */
+export function applyTouchEmulation(iframe: HTMLIFrameElement, enabled: boolean): boolean {
+  return injectFrameScript(iframe, buildTouchEmulationScript(enabled))
+}
+
+/**
+ * Check whether postMessage data was sent by the touch emulation script
+ */
+export function isTouchEmulationMessage(data: unknown): data is TouchEmulationMessage & { source: string } {
+  if (typeof data !== 'object' || data === null) return false
+
+  const record = data as Record<string, unknown>
+  return (
+    record['source'] === TOUCH_EMULATION_SOURCE &&
+    record['type'] === 'touches' &&
+    Array.isArray(record['touches'])
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * User Agent Emulation Utilities
+ *
+ * Builds a script that makes a page's navigator report the emulated
+ * Safari identity. The rewriting proxy inserts it at the top of every
+ * proxied document so it runs before the page's own scripts; same-origin
+ * frames that bypass the proxy receive it after load instead.
+ */
+
+import type { UserAgentProfile } from '@/types/browser'
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Build the navigator spoofing script for a profile. Client Hints are
+ * removed rather than spoofed because Safari does not implement them.
+ */
+export function buildUserAgentShim(profile: UserAgentProfile): string {
+  const values = JSON.stringify({
+    userAgent: profile.userAgent,
+    appVersion: profile.appVersion,
+    platform: profile.platform,
+    vendor: profile.vendor,
+    maxTouchPoints: profile.maxTouchPoints
+  })
+
+  return `(function () {
+  if (window.__ibeUserAgent === ${JSON.stringify(profile.id)}) return;
+  window.__ibeUserAgent = ${JSON.stringify(profile.id)};
+
+  var values = ${values};
+  var proto = Object.getPrototypeOf(navigator);
+
+  Object.keys(values).forEach(function (name) {
+    try {
+      Object.defineProperty(navigator, name, {
+        get: function () { return values[name]; },
+        configurable: true
+      });
+    } catch (e) {}
+  });
+
+  try {
+    delete proto.userAgentData;
+  } catch (e) {}
+  if ('userAgentData' in navigator) {
+    try {
+      Object.defineProperty(navigator, 'userAgentData', {
+        get: function () { return undefined; },
+        configurable: true
+      });
+    } catch (e) {}
+  }
+})();`
+}
+
+/**
+ * Inject the navigator spoofing script into an iframe's document.
+ * Scripts that ran before load have already seen the host browser.
+ *
+ * @returns True if injected, false if the frame is cross-origin or not loaded
+ */
+export function injectUserAgentShim(iframe: HTMLIFrameElement, profile: UserAgentProfile): boolean {
+  return injectFrameScript(iframe, buildUserAgentShim(profile))
+}
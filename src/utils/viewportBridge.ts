@@ -0,0 +1,201 @@
+/**
+ * Viewport Bridge Utilities
+ *
+ * A small script injected into same-origin viewport iframes that reports
+ * scroll position, clicks and form input to the emulator via postMessage,
+ * and replays the same events when they arrive from a sibling viewport.
+ * Cross-origin pages can opt in by including the script themselves.
+ */
+
+import type { ViewportBridgeMessage } from '@/types/browser'
+import { injectFrameScript } from './frameScript'
+
+/**
+ * Source tag on messages sent from the iframe to the emulator
+ */
+export const BRIDGE_SOURCE = 'ibe-viewport-bridge'
+
+/**
+ * Source tag on messages sent from the emulator to the iframe
+ */
+export const HOST_SOURCE = 'ibe-viewport-host'
+
+/**
+ * Delay after the last scroll event before scrolling is considered finished
+ */
+export const SCROLL_IDLE_DELAY = 150
+
+/**
+ * Bridge script run inside the iframe. Replayed clicks and input are
+ * dispatched programmatically, so checking isTrusted stops them echoing
+ * back. Scrolling is not reported while a replayed scroll is still moving
+ * the page (smooth scrolling can take far longer than one event) or when
+ * it leaves the page where the sibling put it. Field edits are reported
+ * once, on input; checkboxes, radios and selects also get their change
+ * event when replayed.
+ */
+export const VIEWPORT_BRIDGE_SCRIPT = `(function () {
+  if (window.__ibeViewportBridge) return;
+  window.__ibeViewportBridge = true;
+
+  var BRIDGE_SOURCE = ${JSON.stringify(BRIDGE_SOURCE)};
+  var HOST_SOURCE = ${JSON.stringify(HOST_SOURCE)};
+  var IDLE_DELAY = ${SCROLL_IDLE_DELAY};
+  var idleTimer = null;
+  var settleTimer = null;
+  var isApplyingRemote = false;
+  var lastRemote = null;
+
+  function post(message) {
+    message.source = BRIDGE_SOURCE;
+    window.parent.postMessage(message, '*');
+  }
+
+  function selectorFor(el) {
+    var parts = [];
+    while (el && el.nodeType === 1 && el !== document.documentElement) {
+      if (el.id) {
+        parts.unshift('#' + CSS.escape(el.id));
+        break;
+      }
+      var part = el.tagName.toLowerCase();
+      var parent = el.parentElement;
+      if (parent) {
+        var siblings = Array.prototype.filter.call(parent.children, function (child) {
+          return child.tagName === el.tagName;
+        });
+        if (siblings.length > 1) {
+          part += ':nth-of-type(' + (siblings.indexOf(el) + 1) + ')';
+        }
+      }
+      parts.unshift(part);
+      el = parent;
+    }
+    return parts.join(' > ');
+  }
+
+  function scrollRange() {
+    var root = document.scrollingElement || document.documentElement;
+    return {
+      x: Math.max(0, root.scrollWidth - window.innerWidth),
+      y: Math.max(0, root.scrollHeight - window.innerHeight)
+    };
+  }
+
+  function reportScroll(isScrolling) {
+    var range = scrollRange();
+    post({
+      type: 'scroll',
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+      ratioX: range.x > 0 ? window.scrollX / range.x : 0,
+      ratioY: range.y > 0 ? window.scrollY / range.y : 0,
+      zoomLevel: window.visualViewport ? window.visualViewport.scale : 1,
+      isScrolling: isScrolling
+    });
+  }
+
+  function settleRemoteScroll() {
+    clearTimeout(settleTimer);
+    settleTimer = setTimeout(function () { isApplyingRemote = false; }, IDLE_DELAY);
+  }
+
+  function isAtRemotePosition() {
+    return lastRemote !== null &&
+      Math.abs(window.scrollX - lastRemote.x) < 1 &&
+      Math.abs(window.scrollY - lastRemote.y) < 1;
+  }
+
+  window.addEventListener('scroll', function () {
+    // A replayed scroll is still under way; wait for it to settle
+    if (isApplyingRemote) {
+      settleRemoteScroll();
+      return;
+    }
+    if (isAtRemotePosition()) return;
+    lastRemote = null;
+
+    reportScroll(true);
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(function () { reportScroll(false); }, IDLE_DELAY);
+  }, { passive: true });
+
+  document.addEventListener('click', function (event) {
+    if (!event.isTrusted || !(event.target instanceof Element)) return;
+    post({ type: 'click', selector: selectorFor(event.target) });
+  }, true);
+
+  function reportInput(event) {
+    var target = event.target;
+    if (!event.isTrusted || !target || !('value' in target)) return;
+    var message = { type: 'input', selector: selectorFor(target), value: String(target.value) };
+    if (target.type === 'checkbox' || target.type === 'radio') {
+      message.checked = target.checked;
+    }
+    post(message);
+  }
+
+  document.addEventListener('input', reportInput, true);
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== HOST_SOURCE) return;
+
+    if (data.type === 'scroll') {
+      var range = scrollRange();
+      lastRemote = { x: Math.round(data.ratioX * range.x), y: Math.round(data.ratioY * range.y) };
+      isApplyingRemote = true;
+      settleRemoteScroll();
+      window.scrollTo(lastRemote.x, lastRemote.y);
+      return;
+    }
+
+    var el = data.selector ? document.querySelector(data.selector) : null;
+    if (!el) return;
+
+    if (data.type === 'click') {
+      el.click();
+    } else if (data.type === 'input' && 'value' in el) {
+      if (typeof data.checked === 'boolean') {
+        el.checked = data.checked;
+      } else {
+        el.value = data.value;
+      }
+      el.dispatchEvent(new Event('input', { bubbles: true }));
+      if (typeof data.checked === 'boolean' || el.tagName === 'SELECT') {
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+    }
+  });
+
+  reportScroll(false);
+})();`
+
+/**
+ * Inject the bridge script into an iframe's document
+ *
+ * @returns True if injected, false if the frame is cross-origin or not loaded
+ */
+export function injectViewportBridge(iframe: HTMLIFrameElement): boolean {
+  return injectFrameScript(iframe, VIEWPORT_BRIDGE_SCRIPT)
+}
+
+/**
+ * Check whether postMessage data was sent by the bridge script
+ */
+export function isBridgeMessage(data: unknown): data is ViewportBridgeMessage & { source: string } {
+  if (typeof data !== 'object' || data === null) return false
+
+  const record = data as Record<string, unknown>
+  return (
+    record['source'] === BRIDGE_SOURCE &&
+    (record['type'] === 'scroll' || record['type'] === 'click' || record['type'] === 'input')
+  )
+}
+
+/**
+ * Send a message to the bridge script running in a frame
+ */
+export function postToBridge(target: Window, message: ViewportBridgeMessage): void {
+  target.postMessage({ ...message, source: HOST_SOURCE }, '*')
+}
@@ -0,0 +1,61 @@
+/**
+ * Viewport Unit Emulation Utilities
+ *
+ * Safari's toolbars grow and shrink the visible page as they expand and
+ * collapse. The iframe is resized to match, so `window.innerHeight`, the
+ * visual viewport, fixed elements and `dvh` follow the toolbars as on
+ * iOS. The other viewport units do not: on iOS `vh` and `lvh` are the
+ * height with the toolbars collapsed, and `svh` the height with them
+ * expanded. The injected script rewrites those units in the page's CSS
+ * to custom properties holding the two heights, so a `100vh` layout
+ * overflows behind expanded toolbars just as it does on a phone.
+ */
+
+import { injectFrameScript } from './frameScript'
+import { buildStyleRewriterScript } from './frameStyles'
+
+/**
+ * Page heights in CSS pixels with Safari's toolbars expanded (`small`)
+ * and collapsed (`large`)
+ */
+export interface ViewportHeights {
+  small: number
+  large: number
+}
+
+/**
+ * Build the script that installs the viewport unit shim (once per page)
+ * and sets the heights
+ */
+export function buildViewportUnitsScript(heights: ViewportHeights): string {
+  return `(function () {
+  var HEIGHTS = ${JSON.stringify(heights)};
+  if (!window.__ibeViewportUnits) {
+    ${buildStyleRewriterScript()}
+    // Numbers with a unit, not part of a name (such as --gap-100vh)
+    window.__ibeStyleRewriter.addRule(
+      /(^|[^\\w.-])(-?\\d*\\.?\\d+)(lvh|vh)\\b/g,
+      '$1calc($2 * var(--ibe-lvh))'
+    );
+    window.__ibeStyleRewriter.addRule(
+      /(^|[^\\w.-])(-?\\d*\\.?\\d+)svh\\b/g,
+      '$1calc($2 * var(--ibe-svh))'
+    );
+    window.__ibeViewportUnits = true;
+  }
+
+  window.__ibeStyleRewriter.setProperties('ibe-viewport-units', {
+    '--ibe-lvh': HEIGHTS.large / 100 + 'px',
+    '--ibe-svh': HEIGHTS.small / 100 + 'px'
+  });
+})();`
+}
+
+/**
+ * Apply viewport heights to a same-origin iframe
+ *
+ * @returns True if applied, false if the frame is cross-origin or not loaded
+ */
+export function applyViewportHeights(iframe: HTMLIFrameElement, heights: ViewportHeights): boolean {
+  return injectFrameScript(iframe, buildViewportUnitsScript(heights))
+}
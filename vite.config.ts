@@ -1,14 +1,16 @@
 import { defineConfig } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import { resolve } from 'path'
+import { rewritingProxy } from './server/proxy'
 
 /**
  * Vite configuration for the iPhone Browser Emulator
  *
- * Configures Vue 3 plugin and path aliases for cleaner imports
+ * Configures Vue 3 plugin, path aliases for cleaner imports and the
+ * rewriting proxy served under /__proxy by `vite` and `vite preview`
  */
 export default defineConfig({
-  plugins: [vue()],
+  plugins: [vue(), rewritingProxy()],
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src'),